@@ -0,0 +1,48 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './database';
+import type { TaskActivity, TaskActivityAction } from '../shared/types';
+
+// Convert database row to TaskActivity
+function rowToActivity(row: any): TaskActivity {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    action: row.action,
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    createdAt: row.created_at,
+  };
+}
+
+export const activityService = {
+  // Record an entry in a task's activity history
+  log(
+    taskId: string,
+    action: TaskActivityAction,
+    details: { field?: string; oldValue?: string | null; newValue?: string | null } = {}
+  ): void {
+    const db = getDatabase();
+    db.prepare(`
+      INSERT INTO task_activity (id, task_id, action, field, old_value, new_value, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      uuidv4(),
+      taskId,
+      action,
+      details.field ?? null,
+      details.oldValue ?? null,
+      details.newValue ?? null,
+      new Date().toISOString()
+    );
+  },
+
+  // Get a task's activity history, newest first
+  getByTaskId(taskId: string): TaskActivity[] {
+    const db = getDatabase();
+    const rows = db.prepare(
+      'SELECT * FROM task_activity WHERE task_id = ? ORDER BY created_at DESC, rowid DESC'
+    ).all(taskId);
+    return rows.map(rowToActivity);
+  },
+};
@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { app, nativeImage } from 'electron';
+import { getDatabase } from './database';
+import { activityService } from './activityService';
+import { snapshotService } from './snapshotService';
+import type { Attachment } from '../shared/types';
+
+// Content types for the file extensions we know how to preview or label
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+// Thumbnails are scaled down to this width
+const THUMBNAIL_WIDTH = 96;
+
+function getAttachmentDir(): string {
+  const dir = path.join(app.getPath('userData'), 'attachments');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// Stored files are named by content hash, keeping the extension so the OS
+// picks the right app when opening them
+function getStoredPath(hash: string, fileName: string): string {
+  return path.join(getAttachmentDir(), `${hash}${path.extname(fileName).toLowerCase()}`);
+}
+
+// Helper to convert DB row to Attachment object
+function rowToAttachment(row: any): Attachment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    size: row.size,
+    hash: row.hash,
+    createdAt: row.created_at,
+  };
+}
+
+// SHA-256 of a file, read as a stream so large files aren't loaded into memory
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+// Attachment Service
+export const attachmentService = {
+  // Copy a file into the attachments folder, returning its content hash for add()
+  async storeFile(sourcePath: string): Promise<string> {
+    const stats = await fs.promises.stat(sourcePath);
+    if (!stats.isFile()) {
+      throw new Error(`"${path.basename(sourcePath)}" is not a file`);
+    }
+
+    const hash = await hashFile(sourcePath);
+
+    // Identical contents are only stored once
+    const storedPath = getStoredPath(hash, path.basename(sourcePath));
+    if (!fs.existsSync(storedPath)) {
+      await fs.promises.copyFile(sourcePath, storedPath);
+    }
+    return hash;
+  },
+
+  // Link a file stored by storeFile() to a task
+  add(taskId: string, sourcePath: string, hash: string): Attachment {
+    const db = getDatabase();
+    const task = db.prepare('SELECT id FROM tasks WHERE id = ?').get(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const fileName = path.basename(sourcePath);
+
+    // The same file attached twice to one task is a no-op
+    const existing = db.prepare(
+      'SELECT * FROM attachments WHERE task_id = ? AND hash = ? AND file_name = ?'
+    ).get(taskId, hash, fileName);
+    if (existing) {
+      return rowToAttachment(existing);
+    }
+
+    const id = uuidv4();
+    db.prepare(`
+      INSERT INTO attachments (id, task_id, file_name, mime_type, size, hash, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      taskId,
+      fileName,
+      MIME_TYPES[path.extname(fileName).toLowerCase()] ?? null,
+      fs.statSync(getStoredPath(hash, fileName)).size,
+      hash,
+      new Date().toISOString()
+    );
+    activityService.log(taskId, 'attachment_added', { newValue: fileName });
+
+    return this.getById(id)!;
+  },
+
+  getById(id: string): Attachment | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM attachments WHERE id = ?').get(id);
+    return row ? rowToAttachment(row) : null;
+  },
+
+  getByTask(taskId: string): Attachment[] {
+    const db = getDatabase();
+    const rows = db.prepare(
+      'SELECT * FROM attachments WHERE task_id = ? ORDER BY created_at ASC'
+    ).all(taskId);
+    return rows.map(rowToAttachment);
+  },
+
+  // Unlink an attachment. The stored file is kept so undo can bring it back;
+  // pruneUnusedFiles() removes it once the undo history is cleared.
+  remove(id: string): boolean {
+    const db = getDatabase();
+    const attachment = this.getById(id);
+    if (!attachment) return false;
+
+    db.prepare('DELETE FROM attachments WHERE id = ?').run(id);
+    activityService.log(attachment.taskId, 'attachment_removed', { oldValue: attachment.fileName });
+    return true;
+  },
+
+  // Absolute path of the stored copy, or null if it's gone missing
+  getFilePath(id: string): string | null {
+    const attachment = this.getById(id);
+    if (!attachment) return null;
+
+    const storedPath = getStoredPath(attachment.hash, attachment.fileName);
+    return fs.existsSync(storedPath) ? storedPath : null;
+  },
+
+  // Small preview of an image attachment as a data URL
+  getThumbnail(id: string): string | null {
+    const attachment = this.getById(id);
+    if (!attachment?.mimeType?.startsWith('image/')) return null;
+
+    const filePath = this.getFilePath(id);
+    if (!filePath) return null;
+
+    const image = nativeImage.createFromPath(filePath);
+    if (image.isEmpty()) return null;
+    return image.resize({ width: THUMBNAIL_WIDTH }).toDataURL();
+  },
+
+  // Delete stored files that neither an attachment row nor a snapshot points at.
+  // Only safe while the undo history is empty, since undo can restore removed rows.
+  pruneUnusedFiles(): number {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT DISTINCT hash FROM attachments').all() as { hash: string }[];
+    const usedHashes = snapshotService.getAttachmentHashes();
+    rows.forEach(row => usedHashes.add(row.hash));
+
+    const dir = getAttachmentDir();
+    let removed = 0;
+    for (const file of fs.readdirSync(dir)) {
+      const hash = path.basename(file, path.extname(file));
+      if (!usedHashes.has(hash)) {
+        fs.unlinkSync(path.join(dir, file));
+        removed++;
+      }
+    }
+    return removed;
+  },
+};
@@ -0,0 +1,173 @@
+import Database from 'better-sqlite3';
+import { getDatabase } from './database';
+import { CONVERT_SUBTASKS_SQL, legacyRecurrenceRule } from './schema';
+import type { BackupData, BackupImportMode } from '../shared/types';
+
+export const BACKUP_FORMAT = 'georges-ticker-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Tables included in a backup, ordered so parents are written before children
+const BACKUP_TABLES = [
+  'folders',
+  'lists',
+  'sections',
+  'tags',
+  'saved_filters',
+  'task_templates',
+  'tasks',
+  'subtasks',
+  'task_tags',
+  'task_dependencies',
+  'attachments',
+  'reminders',
+  'task_activity',
+  'pomodoro_sessions',
+  'time_entries',
+  'pomodoro_settings',
+  'habits',
+  'habit_completions',
+  'app_settings',
+];
+
+// Single-row settings tables - restored in replace mode, kept as-is when merging
+const SETTINGS_TABLES = ['pomodoro_settings', 'app_settings'];
+
+// Get the highest applied schema migration version
+function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+// Get the column names of a table
+function getTableColumns(db: Database.Database, table: string): string[] {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return rows.map(row => row.name);
+}
+
+// Check the document shape and that this app can read it
+function validateBackup(db: Database.Database, data: BackupData): void {
+  if (!data || data.format !== BACKUP_FORMAT || typeof data.tables !== 'object' || data.tables === null) {
+    throw new Error('The selected file is not a valid backup');
+  }
+  if (data.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format v${data.formatVersion} is newer than this app supports (v${BACKUP_FORMAT_VERSION})`);
+  }
+
+  const schemaVersion = getSchemaVersion(db);
+  if (data.schemaVersion > schemaVersion) {
+    throw new Error(
+      `Backup was created with database schema v${data.schemaVersion}, but this app only knows v${schemaVersion}. Update the app first.`
+    );
+  }
+}
+
+export const backupService = {
+  // Serialize the whole database into a versioned document
+  exportData(): BackupData {
+    const db = getDatabase();
+    const tables: BackupData['tables'] = {};
+
+    for (const table of BACKUP_TABLES) {
+      tables[table] = db.prepare(`SELECT * FROM ${table}`).all() as Record<string, unknown>[];
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: getSchemaVersion(db),
+      exportedAt: new Date().toISOString(),
+      tables,
+    };
+  },
+
+  // Restore a backup document. Replace wipes existing data first; merge keeps
+  // existing rows and only overwrites them when the backup copy is newer.
+  importData(data: BackupData, mode: BackupImportMode): Record<string, number> {
+    const db = getDatabase();
+    validateBackup(db, data);
+
+    const counts: Record<string, number> = {};
+
+    const transaction = db.transaction(() => {
+      // Child tasks can come before their parent in the file; check references at commit instead
+      db.pragma('defer_foreign_keys = ON');
+
+      if (mode === 'replace') {
+        // Delete children first so foreign keys are never left dangling
+        for (const table of [...BACKUP_TABLES].reverse()) {
+          db.prepare(`DELETE FROM ${table}`).run();
+        }
+      }
+
+      // Backup tag ID -> existing tag ID for tags matched by name when merging
+      const tagIdMap = new Map<string, string>();
+      if (mode === 'merge') {
+        const existingTags = db.prepare('SELECT id, name FROM tags').all() as { id: string; name: string }[];
+        const tagIdsByName = new Map(existingTags.map(tag => [tag.name.toLowerCase(), tag.id]));
+        for (const tag of data.tables.tags ?? []) {
+          const existingId = tagIdsByName.get(String(tag.name).toLowerCase());
+          if (existingId && existingId !== tag.id) {
+            tagIdMap.set(String(tag.id), existingId);
+          }
+        }
+      }
+
+      for (const table of BACKUP_TABLES) {
+        if (mode === 'merge' && SETTINGS_TABLES.includes(table)) {
+          continue;
+        }
+
+        const rows = data.tables[table] ?? [];
+        const tableColumns = getTableColumns(db, table);
+        const canUpsert = mode === 'merge' && table !== 'tags'
+          && tableColumns.includes('id') && tableColumns.includes('updated_at');
+        let written = 0;
+
+        for (const sourceRow of rows) {
+          let row = table === 'task_tags' && tagIdMap.has(String(sourceRow.tag_id))
+            ? { ...sourceRow, tag_id: tagIdMap.get(String(sourceRow.tag_id)) }
+            : sourceRow;
+          // Backups made before recurrence rules carry the old pattern columns
+          if (table === 'tasks' && 'recurrence_pattern' in row && !('recurrence_rule' in row)) {
+            row = { ...row, recurrence_rule: legacyRecurrenceRule(row) };
+          }
+
+          // Only write columns this schema knows about; older backups fall back to column defaults
+          const columns = Object.keys(row).filter(column => tableColumns.includes(column));
+          if (columns.length === 0) continue;
+
+          const placeholders = columns.map(() => '?').join(', ');
+          let sql: string;
+          if (canUpsert) {
+            const assignments = columns
+              .filter(column => column !== 'id')
+              .map(column => `${column} = excluded.${column}`)
+              .join(', ');
+            sql = `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})
+              ON CONFLICT(id) DO UPDATE SET ${assignments}
+              WHERE excluded.updated_at > ${table}.updated_at`;
+          } else {
+            sql = `INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`;
+          }
+
+          const result = db.prepare(sql).run(...columns.map(column => row[column] as any));
+          written += result.changes;
+        }
+
+        counts[table] = written;
+      }
+
+      // Backups made before tasks could be nested carry checklist subtasks
+      db.exec(CONVERT_SUBTASKS_SQL);
+
+      // Make sure the single-row settings tables still have their row
+      for (const table of SETTINGS_TABLES) {
+        db.prepare(`INSERT OR IGNORE INTO ${table} (id) VALUES (1)`).run();
+      }
+    });
+
+    transaction();
+
+    return counts;
+  },
+};
@@ -1,7 +1,9 @@
 import Database from 'better-sqlite3';
+import fs from 'fs';
 import path from 'path';
 import { app } from 'electron';
 import { CREATE_TABLES_SQL, MIGRATIONS } from './schema';
+import { snapshotService } from './snapshotService';
 
 let db: Database.Database | null = null;
 
@@ -12,6 +14,18 @@ export function getDatabase(): Database.Database {
   return db;
 }
 
+// Raised when the database can't be brought up to the schema this app expects
+export class DatabaseMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'failed' | 'newer_schema',
+    public readonly preMigrationCopy: string | null = null
+  ) {
+    super(message);
+    this.name = 'DatabaseMigrationError';
+  }
+}
+
 function runMigrations(database: Database.Database): void {
   // Create migrations tracking table if it doesn't exist
   database.exec(`
@@ -26,35 +40,60 @@ function runMigrations(database: Database.Database): void {
   const rows = database.prepare('SELECT version FROM schema_migrations').all() as { version: number }[];
   const appliedVersions = new Set(rows.map(row => row.version));
 
-  // Run pending migrations
-  for (const migration of MIGRATIONS) {
-    if (!appliedVersions.has(migration.version)) {
-      console.log(`Running migration ${migration.version}: ${migration.name}`);
-      try {
-        database.exec(migration.sql);
-        database.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
-        console.log(`Migration ${migration.version} completed successfully`);
-      } catch (error) {
-        // Some migrations might fail if columns/tables already exist - that's OK
-        console.log(`Migration ${migration.version} had some errors (may be OK if already applied):`, error);
-        // Still mark it as applied to avoid re-running
-        try {
-          database.prepare('INSERT OR IGNORE INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
-        } catch {
-          // Ignore
+  // Refuse to touch a database written by a newer version of the app
+  const currentVersion = Math.max(0, ...appliedVersions);
+  const latestKnownVersion = Math.max(...MIGRATIONS.map(migration => migration.version));
+  if (currentVersion > latestKnownVersion) {
+    throw new DatabaseMigrationError(
+      `The database uses schema version ${currentVersion}, but this app only supports up to version ${latestKnownVersion}. Please update the app.`,
+      'newer_schema'
+    );
+  }
+
+  const pending = MIGRATIONS.filter(migration => !appliedVersions.has(migration.version));
+  if (pending.length === 0) {
+    return;
+  }
+
+  // Keep a copy of existing data so a failed upgrade can be rolled back by the user
+  const preMigrationCopy = appliedVersions.size > 0
+    ? snapshotService.createPreMigrationCopy(database, currentVersion)
+    : null;
+
+  for (const migration of pending) {
+    console.log(`Running migration ${migration.version}: ${migration.name}`);
+    try {
+      // Each migration is applied and recorded atomically
+      database.transaction(() => {
+        if (migration.sql) {
+          database.exec(migration.sql);
         }
-      }
+        migration.up?.(database);
+        database.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+      })();
+      console.log(`Migration ${migration.version} completed successfully`);
+    } catch (error) {
+      console.error(`Migration ${migration.version} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseMigrationError(
+        `Migration ${migration.version} (${migration.name}) failed: ${message}`,
+        'failed',
+        preMigrationCopy
+      );
     }
   }
 }
 
+export function getDatabasePath(): string {
+  return path.join(app.getPath('userData'), 'ticktick-clone.db');
+}
+
 export function initDatabase(): Database.Database {
   if (db) {
     return db;
   }
 
-  const userDataPath = app.getPath('userData');
-  const dbPath = path.join(userDataPath, 'ticktick-clone.db');
+  const dbPath = getDatabasePath();
 
   console.log('Initializing database at:', dbPath);
 
@@ -69,15 +108,41 @@ export function initDatabase(): Database.Database {
   // Create base tables
   db.exec(CREATE_TABLES_SQL);
 
-  // Run any pending migrations
-  runMigrations(db);
+  // Run any pending migrations - on failure close again so nothing uses a half-migrated DB
+  try {
+    runMigrations(db);
+  } catch (error) {
+    db.close();
+    db = null;
+    throw error;
+  }
 
   console.log('Database initialized successfully');
 
+  // Take a startup snapshot and keep taking one per day
+  snapshotService.startSchedule();
+
   return db;
 }
 
+// Overwrite the database file with a copy. The database must be closed first.
+export function replaceDatabaseFile(sourcePath: string): void {
+  if (db) {
+    throw new Error('Close the database before replacing it');
+  }
+
+  const dbPath = getDatabasePath();
+  // Stale WAL files would otherwise be replayed on top of the copied database
+  for (const suffix of ['-wal', '-shm']) {
+    if (fs.existsSync(dbPath + suffix)) {
+      fs.unlinkSync(dbPath + suffix);
+    }
+  }
+  fs.copyFileSync(sourcePath, dbPath);
+}
+
 export function closeDatabase(): void {
+  snapshotService.stopSchedule();
   if (db) {
     db.close();
     db = null;
@@ -0,0 +1,103 @@
+import { getDatabase } from './database';
+import { taskService, HAS_OPEN_BLOCKER_SQL } from './taskService';
+import { activityService } from './activityService';
+import type { Task, TaskDependencies, TaskDependencyLink } from '../shared/types';
+
+// Load tasks by ID, skipping ones that are in the trash
+function getTasks(ids: string[]): Task[] {
+  return ids
+    .map(id => taskService.getById(id))
+    .filter((task): task is Task => task !== null && task.deletedAt === null);
+}
+
+// Dependency Service
+export const dependencyService = {
+  getForTask(taskId: string): TaskDependencies {
+    const db = getDatabase();
+    const blockedByRows = db.prepare(
+      'SELECT depends_on_id FROM task_dependencies WHERE task_id = ? ORDER BY created_at ASC'
+    ).all(taskId) as { depends_on_id: string }[];
+    const blockingRows = db.prepare(
+      'SELECT task_id FROM task_dependencies WHERE depends_on_id = ? ORDER BY created_at ASC'
+    ).all(taskId) as { task_id: string }[];
+
+    return {
+      blockedBy: getTasks(blockedByRows.map(row => row.depends_on_id)),
+      blocking: getTasks(blockingRows.map(row => row.task_id)),
+    };
+  },
+
+  // Check whether dependsOnId already (transitively) waits on taskId
+  wouldCreateCycle(taskId: string, dependsOnId: string): boolean {
+    if (taskId === dependsOnId) return true;
+
+    const db = getDatabase();
+    const row = db.prepare(`
+      WITH RECURSIVE upstream(id) AS (
+        SELECT ?
+        UNION
+        SELECT d.depends_on_id FROM task_dependencies d JOIN upstream u ON d.task_id = u.id
+      )
+      SELECT 1 FROM upstream WHERE id = ? LIMIT 1
+    `).get(dependsOnId, taskId);
+    return row !== undefined;
+  },
+
+  // Make taskId wait on dependsOnId
+  add(taskId: string, dependsOnId: string): void {
+    const db = getDatabase();
+    const blocker = taskService.getById(dependsOnId);
+    if (!taskService.getById(taskId) || !blocker) {
+      throw new Error('Task not found');
+    }
+    if (taskId === dependsOnId) {
+      throw new Error("A task can't block itself");
+    }
+    if (this.wouldCreateCycle(taskId, dependsOnId)) {
+      throw new Error(`"${blocker.title}" already depends on this task, so it can't block it`);
+    }
+
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id, created_at)
+      VALUES (?, ?, ?)
+    `).run(taskId, dependsOnId, new Date().toISOString());
+    if (result.changes > 0) {
+      activityService.log(taskId, 'dependency_added', { newValue: blocker.title });
+    }
+  },
+
+  remove(taskId: string, dependsOnId: string): void {
+    const db = getDatabase();
+    const result = db.prepare(
+      'DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?'
+    ).run(taskId, dependsOnId);
+    if (result.changes > 0) {
+      activityService.log(taskId, 'dependency_removed', {
+        oldValue: taskService.getById(dependsOnId)?.title ?? null,
+      });
+    }
+  },
+
+  // IDs of tasks that still have at least one open blocker
+  getBlockedTaskIds(): string[] {
+    const db = getDatabase();
+    const rows = db.prepare(
+      `SELECT t.id FROM tasks t WHERE t.deleted_at IS NULL AND ${HAS_OPEN_BLOCKER_SQL}`
+    ).all() as { id: string }[];
+    return rows.map(row => row.id);
+  },
+
+  // Dependencies where both tasks are among the given ones
+  getLinks(taskIds: string[]): TaskDependencyLink[] {
+    if (taskIds.length === 0) return [];
+
+    const db = getDatabase();
+    const placeholders = taskIds.map(() => '?').join(',');
+    const rows = db.prepare(`
+      SELECT task_id, depends_on_id FROM task_dependencies
+      WHERE task_id IN (${placeholders}) AND depends_on_id IN (${placeholders})
+      ORDER BY created_at ASC
+    `).all(...taskIds, ...taskIds) as { task_id: string; depends_on_id: string }[];
+    return rows.map(row => ({ taskId: row.task_id, dependsOnId: row.depends_on_id }));
+  },
+};
@@ -0,0 +1,101 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './database';
+import { taskService } from './taskService';
+import type { Folder, Task } from '../shared/types';
+
+// Helper to convert DB row to Folder object
+function rowToFolder(row: any): Folder {
+  return {
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Folder Service
+export const folderService = {
+  create(name: string): Folder {
+    const db = getDatabase();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const maxPosResult = db.prepare(
+      'SELECT COALESCE(MAX(position), -1) as maxPos FROM folders'
+    ).get() as { maxPos: number };
+
+    db.prepare(`
+      INSERT INTO folders (id, name, position, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, name, maxPosResult.maxPos + 1, now, now);
+
+    return this.getById(id)!;
+  },
+
+  getById(id: string): Folder | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM folders WHERE id = ?').get(id);
+    return row ? rowToFolder(row) : null;
+  },
+
+  getAll(): Folder[] {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT * FROM folders ORDER BY position ASC').all();
+    return rows.map(rowToFolder);
+  },
+
+  rename(id: string, name: string): Folder | null {
+    const db = getDatabase();
+    db.prepare('UPDATE folders SET name = ?, updated_at = ? WHERE id = ?').run(
+      name,
+      new Date().toISOString(),
+      id
+    );
+    return this.getById(id);
+  },
+
+  // Delete a folder. Its lists (including trashed ones) move back to the top level.
+  delete(id: string): boolean {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const transaction = db.transaction(() => {
+      db.prepare('UPDATE lists SET folder_id = NULL, updated_at = ? WHERE folder_id = ?').run(now, id);
+      const result = db.prepare('DELETE FROM folders WHERE id = ?').run(id);
+      return result.changes > 0;
+    });
+
+    return transaction();
+  },
+
+  reorder(folderIds: string[]): void {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE folders SET position = ?, updated_at = ? WHERE id = ?');
+    const now = new Date().toISOString();
+
+    const transaction = db.transaction(() => {
+      folderIds.forEach((id, index) => {
+        stmt.run(index, now, id);
+      });
+    });
+
+    transaction();
+  },
+
+  // IDs of the lists in a folder, trashed ones included
+  getListIds(id: string): string[] {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT id FROM lists WHERE folder_id = ?').all(id) as { id: string }[];
+    return rows.map(row => row.id);
+  },
+
+  // Tasks from every list in the folder, grouped by list in sidebar order
+  getTasks(id: string): Task[] {
+    const db = getDatabase();
+    const lists = db.prepare(
+      'SELECT id FROM lists WHERE folder_id = ? AND deleted_at IS NULL ORDER BY position ASC'
+    ).all(id) as { id: string }[];
+    return lists.flatMap(list => taskService.getByListId(list.id));
+  },
+};
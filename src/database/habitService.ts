@@ -25,6 +25,7 @@ function rowToHabit(row: any): Habit {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     archived: Boolean(row.archived),
+    deletedAt: row.deleted_at ?? null,
   };
 }
 
@@ -165,8 +166,8 @@ export const habitService = {
   getAll(includeArchived = false): Habit[] {
     const db = getDatabase();
     const query = includeArchived
-      ? 'SELECT * FROM habits ORDER BY created_at DESC'
-      : 'SELECT * FROM habits WHERE archived = 0 ORDER BY created_at DESC';
+      ? 'SELECT * FROM habits WHERE deleted_at IS NULL ORDER BY created_at DESC'
+      : 'SELECT * FROM habits WHERE archived = 0 AND deleted_at IS NULL ORDER BY created_at DESC';
     const rows = db.prepare(query).all();
     return rows.map(rowToHabit);
   },
@@ -227,10 +228,13 @@ export const habitService = {
     return this.getById(id);
   },
 
-  // Delete a habit
+  // Move a habit to the trash (completions are kept for restore)
   delete(id: string): boolean {
     const db = getDatabase();
-    const result = db.prepare('DELETE FROM habits WHERE id = ?').run(id);
+    const now = new Date().toISOString();
+    const result = db.prepare(
+      'UPDATE habits SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL'
+    ).run(now, now, id);
     return result.changes > 0;
   },
 
@@ -1,9 +1,28 @@
-export { initDatabase, closeDatabase, getDatabase } from './database';
-export { taskService, subtaskService } from './taskService';
+export {
+  initDatabase,
+  closeDatabase,
+  getDatabase,
+  getDatabasePath,
+  replaceDatabaseFile,
+  DatabaseMigrationError,
+} from './database';
+export { taskService } from './taskService';
 export { listService } from './listService';
+export { folderService } from './folderService';
+export { sectionService } from './sectionService';
 export { tagService, searchService } from './tagService';
 export { recurrenceService } from './recurrenceService';
 export { reminderService } from './reminderService';
 export { pomodoroService } from './pomodoroService';
 export { habitService } from './habitService';
 export { statsService } from './statsService';
+export { settingsService } from './settingsService';
+export { backupService } from './backupService';
+export { snapshotService } from './snapshotService';
+export { trashService } from './trashService';
+export { activityService } from './activityService';
+export { savedFilterService } from './savedFilterService';
+export { dependencyService } from './dependencyService';
+export { attachmentService } from './attachmentService';
+export { timeEntryService } from './timeEntryService';
+export { templateService } from './templateService';
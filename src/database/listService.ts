@@ -10,8 +10,10 @@ function rowToList(row: any): List {
     color: row.color,
     icon: row.icon,
     position: row.position,
+    folderId: row.folder_id ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? null,
   };
 }
 
@@ -56,7 +58,7 @@ export const listService = {
 
   getAll(): List[] {
     const db = getDatabase();
-    const stmt = db.prepare('SELECT * FROM lists ORDER BY position ASC');
+    const stmt = db.prepare('SELECT * FROM lists WHERE deleted_at IS NULL ORDER BY position ASC');
     const rows = stmt.all();
     return rows.map(rowToList);
   },
@@ -84,6 +86,10 @@ export const listService = {
       updates.push('position = ?');
       values.push(data.position);
     }
+    if (data.folderId !== undefined) {
+      updates.push('folder_id = ?');
+      values.push(data.folderId);
+    }
 
     if (updates.length === 0) {
       return this.getById(id);
@@ -101,12 +107,27 @@ export const listService = {
     return this.getById(id);
   },
 
+  // Move a list and its tasks to the trash. Tasks share the list's deleted_at
+  // so restoring the list brings back exactly the tasks trashed with it.
   delete(id: string): boolean {
     const db = getDatabase();
-    // Tasks in this list will have their list_id set to NULL due to ON DELETE SET NULL
-    const stmt = db.prepare('DELETE FROM lists WHERE id = ?');
-    const result = stmt.run(id);
-    return result.changes > 0;
+    const now = new Date().toISOString();
+
+    const transaction = db.transaction(() => {
+      const result = db.prepare(
+        'UPDATE lists SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL'
+      ).run(now, now, id);
+      if (result.changes === 0) return false;
+
+      db.prepare(
+        'UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE list_id = ? AND deleted_at IS NULL'
+      ).run(now, now, id);
+      // The default list falls back to the inbox, as it did when lists were hard-deleted
+      db.prepare('UPDATE app_settings SET default_list_id = NULL WHERE default_list_id = ?').run(id);
+      return true;
+    });
+
+    return transaction();
   },
 
   reorder(listIds: string[]): void {
@@ -123,10 +144,22 @@ export const listService = {
     transaction();
   },
 
+  // Put a list in a folder (or back at the top level) and apply the new sidebar order
+  move(id: string, folderId: string | null, listIds: string[]): void {
+    const db = getDatabase();
+
+    const transaction = db.transaction(() => {
+      this.update(id, { folderId });
+      this.reorder(listIds);
+    });
+
+    transaction();
+  },
+
   getTaskCount(id: string): number {
     const db = getDatabase();
     const stmt = db.prepare(
-      'SELECT COUNT(*) as count FROM tasks WHERE list_id = ? AND completed = 0'
+      'SELECT COUNT(*) as count FROM tasks WHERE list_id = ? AND completed = 0 AND deleted_at IS NULL'
     );
     const result = stmt.get(id) as { count: number };
     return result.count;
@@ -1,138 +1,113 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from './database';
 import { taskService } from './taskService';
-import type { Task, Weekday, RecurrencePattern, RegenerateMode } from '../shared/types';
+import { activityService } from './activityService';
+import { formatDateKey } from '../shared/dates';
+import { parseRRule, formatRRule, getOccurrences, getNextOccurrence, type RRule } from '../shared/rrule';
+import type { Task } from '../shared/types';
+
+// Missed occurrences turned into instances at most, for tasks that were left for a long time
+const MAX_MISSED_INSTANCES = 100;
+
+interface NextDueDates {
+  missed: string[]; // Past occurrences that get one-off instances (each_missed catch-up)
+  next: string | null; // Due date of the instance that carries the series on
+  remaining: number | null; // COUNT for that instance, when the rule has one
+}
 
 /**
- * Calculate the next due date based on recurrence pattern
+ * Work out the due dates that follow a completed recurring task. A fixed schedule continues
+ * from the current due date, catching up on missed occurrences as the task's catch-up mode
+ * says; otherwise the series starts over from today. Returns null when the series has ended.
  */
-function calculateNextDueDate(
-  currentDueDate: string | null,
-  pattern: RecurrencePattern,
-  interval: number,
-  weekdays: Weekday[],
-  regenerateMode: RegenerateMode
-): string | null {
-  if (pattern === 'none' || !currentDueDate) {
+function calculateNextDueDates(task: Task, rule: RRule): NextDueDates | null {
+  // COUNT is the number of occurrences left, this one included
+  if (rule.count !== null && rule.count <= 1) {
     return null;
   }
 
-  // Use current due date for fixed schedule, or today for on_completion
-  const baseDate = regenerateMode === 'fixed_schedule'
-    ? new Date(currentDueDate)
-    : new Date();
-
-  // Reset time to start of day
-  baseDate.setHours(0, 0, 0, 0);
-
-  let nextDate: Date;
-
-  switch (pattern) {
-    case 'daily':
-      nextDate = new Date(baseDate);
-      nextDate.setDate(nextDate.getDate() + interval);
-      break;
-
-    case 'weekly':
-      if (weekdays.length > 0) {
-        // Find the next weekday in the list
-        nextDate = findNextWeekday(baseDate, weekdays, interval);
-      } else {
-        // Simple weekly recurrence
-        nextDate = new Date(baseDate);
-        nextDate.setDate(nextDate.getDate() + 7 * interval);
-      }
-      break;
-
-    case 'monthly':
-      nextDate = new Date(baseDate);
-      nextDate.setMonth(nextDate.getMonth() + interval);
-      break;
-
-    case 'yearly':
-      nextDate = new Date(baseDate);
-      nextDate.setFullYear(nextDate.getFullYear() + interval);
-      break;
-
-    case 'custom':
-      // For custom, use interval as days
-      nextDate = new Date(baseDate);
-      nextDate.setDate(nextDate.getDate() + interval);
-      break;
-
-    default:
-      return null;
-  }
+  // Local dates, like the ones the renderer shows and previews
+  const now = new Date();
+  const today = formatDateKey(now);
+  const series: RRule = { ...rule, count: null };
 
-  return nextDate.toISOString().split('T')[0];
-}
+  if (!task.dueDate) {
+    return { missed: [], next: null, remaining: rule.count !== null ? rule.count - 1 : null };
+  }
 
-/**
- * Find the next weekday from the list of allowed weekdays
- */
-function findNextWeekday(baseDate: Date, weekdays: Weekday[], weeksInterval: number): Date {
-  const sortedWeekdays = [...weekdays].sort((a, b) => a - b);
-  const currentWeekday = baseDate.getDay() as Weekday;
-
-  // Find the next weekday after the current day in the same week
-  const nextInWeek = sortedWeekdays.find(wd => wd > currentWeekday);
-
-  if (nextInWeek !== undefined && weeksInterval === 1) {
-    // Found a day later in the current week
-    const result = new Date(baseDate);
-    result.setDate(result.getDate() + (nextInWeek - currentWeekday));
-    return result;
+  if (task.regenerateMode !== 'fixed_schedule') {
+    const next = getNextOccurrence(series, today, today);
+    return next ? { missed: [], next, remaining: rule.count !== null ? rule.count - 1 : null } : null;
   }
 
-  // Go to the first weekday of the next applicable week
-  const firstWeekday = sortedWeekdays[0];
-  const result = new Date(baseDate);
+  const dueDate = task.dueDate.split('T')[0];
+  // The occurrences COUNT still allows, as a last date, so skipped ones use it up too
+  if (rule.count !== null) {
+    const left = getOccurrences(series, dueDate, rule.count - 1, dueDate);
+    if (left.length === 0) return null;
+    series.until = left[left.length - 1];
+  }
+  const remainingFrom = (date: string) =>
+    rule.count !== null ? getOccurrences(series, date, rule.count).length : null;
 
-  // Calculate days to add to get to the first weekday of the next week(s)
-  const daysToFirstWeekday = (7 - currentWeekday + firstWeekday) % 7 || 7;
-  result.setDate(result.getDate() + daysToFirstWeekday + (weeksInterval - 1) * 7);
+  if (task.catchUpMode === 'strict' || dueDate >= today) {
+    const next = getNextOccurrence(series, dueDate, dueDate);
+    return next ? { missed: [], next, remaining: remainingFrom(next) } : null;
+  }
 
-  return result;
+  const yesterday = formatDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+  const missed = task.catchUpMode === 'each_missed'
+    ? getOccurrences(
+        { ...series, until: series.until && series.until < yesterday ? series.until : yesterday },
+        dueDate,
+        MAX_MISSED_INSTANCES,
+        dueDate
+      )
+    : [];
+  const next = getNextOccurrence(series, dueDate, yesterday);
+  if (!next && missed.length === 0) {
+    return null;
+  }
+  // With no occurrence left from today on, the last missed one ends the series
+  return next
+    ? { missed, next, remaining: remainingFrom(next) }
+    : { missed: missed.slice(0, -1), next: missed[missed.length - 1], remaining: remainingFrom(missed[missed.length - 1]) };
 }
 
 /**
- * Create the next instance of a recurring task
+ * Keep the next instance deferred by as many days before its due date as the completed one
  */
-export function createNextRecurringTask(completedTask: Task): Task | null {
-  if (completedTask.recurrencePattern === 'none') {
+function calculateNextStartDate(completedTask: Task, nextDueDate: string | null): string | null {
+  if (!completedTask.startDate || !completedTask.dueDate || !nextDueDate) {
     return null;
   }
 
-  // Calculate the next due date
-  const nextDueDate = calculateNextDueDate(
-    completedTask.dueDate,
-    completedTask.recurrencePattern,
-    completedTask.recurrenceInterval,
-    completedTask.recurrenceWeekdays,
-    completedTask.regenerateMode
+  const leadDays = Math.round(
+    (new Date(completedTask.dueDate).getTime() - new Date(completedTask.startDate).getTime()) / 86400000
   );
+  const nextStart = new Date(nextDueDate);
+  nextStart.setUTCDate(nextStart.getUTCDate() - leadDays);
+  return nextStart.toISOString().split('T')[0];
+}
 
-  // Check if we've passed the end date
-  if (completedTask.recurrenceEndDate && nextDueDate) {
-    if (new Date(nextDueDate) > new Date(completedTask.recurrenceEndDate)) {
-      return null;
-    }
-  }
-
-  // Create the new task with the same properties but new due date
+// A copy of a completed recurring task, due on another date, with the original's tags
+function createInstance(completedTask: Task, dueDate: string | null, recurrenceRule: string | null): Task {
   const newTask = taskService.create({
     listId: completedTask.listId,
+    parentId: completedTask.parentId,
     title: completedTask.title,
     description: completedTask.description,
     notes: completedTask.notes,
-    dueDate: nextDueDate,
+    startDate: calculateNextStartDate(completedTask, dueDate),
+    dueDate,
     dueTime: completedTask.dueTime,
     priority: completedTask.priority,
-    recurrencePattern: completedTask.recurrencePattern,
-    recurrenceInterval: completedTask.recurrenceInterval,
-    recurrenceWeekdays: completedTask.recurrenceWeekdays,
-    recurrenceEndDate: completedTask.recurrenceEndDate,
+    estimatedMinutes: completedTask.estimatedMinutes,
+    sectionId: completedTask.sectionId,
+    durationMinutes: completedTask.durationMinutes,
+    recurrenceRule,
     regenerateMode: completedTask.regenerateMode,
+    catchUpMode: completedTask.catchUpMode,
   });
 
   // Copy tags from the original task
@@ -148,11 +123,32 @@ export function createNextRecurringTask(completedTask: Task): Task | null {
   return newTask;
 }
 
+/**
+ * Create the next instances of a recurring task, in due date order. Missed occurrences
+ * kept by the each_missed catch-up mode become one-off tasks; the last instance carries
+ * the series on. Returns an empty list when the series has ended.
+ */
+export function createNextRecurringTask(completedTask: Task): Task[] {
+  const rule = completedTask.recurrenceRule ? parseRRule(completedTask.recurrenceRule) : null;
+  const dueDates = rule ? calculateNextDueDates(completedTask, rule) : null;
+  if (!rule || !dueDates) {
+    return [];
+  }
+
+  const missedTasks = dueDates.missed.map(dueDate => createInstance(completedTask, dueDate, null));
+  const nextRule = dueDates.remaining !== null
+    ? formatRRule({ ...rule, count: dueDates.remaining })
+    : completedTask.recurrenceRule;
+  return [...missedTasks, createInstance(completedTask, dueDates.next, nextRule)];
+}
+
 /**
  * Complete a task and handle recurrence
- * Returns the newly created task if it's recurring, null otherwise
+ * Returns the newly created task if it's recurring, null otherwise, and the instances for missed occurrences
  */
-export function completeRecurringTask(taskId: string): { completedTask: Task; nextTask: Task | null } | null {
+export function completeRecurringTask(
+  taskId: string
+): { completedTask: Task; nextTask: Task | null; missedTasks: Task[] } | null {
   const task = taskService.getById(taskId);
   if (!task) {
     return null;
@@ -164,16 +160,49 @@ export function completeRecurringTask(taskId: string): { completedTask: Task; ne
     return null;
   }
 
-  // If it's a recurring task, create the next instance
-  const nextTask = task.recurrencePattern !== 'none'
-    ? createNextRecurringTask(completedTask)
-    : null;
+  // If it's a recurring task, create the next instance (and any missed ones before it)
+  const createdTasks = task.recurrenceRule ? createNextRecurringTask(completedTask) : [];
+  const nextTask = createdTasks[createdTasks.length - 1] ?? null;
+  const missedTasks = createdTasks.slice(0, -1);
+
+  if (nextTask) {
+    activityService.log(taskId, 'recurred', { newValue: nextTask.dueDate });
+  }
+
+  return { completedTask, nextTask, missedTasks };
+}
+
+/**
+ * Complete several tasks in one transaction. Recurring tasks get their next
+ * occurrence like completeRecurringTask; tasks already completed are skipped.
+ */
+export function completeTasks(taskIds: string[]): { completedTasks: Task[]; nextTasks: Task[] } {
+  const db = getDatabase();
+  const transaction = db.transaction(() => {
+    const completedTasks: Task[] = [];
+    const nextTasks: Task[] = [];
+
+    for (const taskId of taskIds) {
+      // Completing a parent earlier in the batch may have completed this task already
+      const task = taskService.getById(taskId);
+      if (!task || task.completed) continue;
+
+      const result = completeRecurringTask(taskId);
+      if (result) {
+        completedTasks.push(result.completedTask);
+        nextTasks.push(...result.missedTasks);
+        if (result.nextTask) nextTasks.push(result.nextTask);
+      }
+    }
 
-  return { completedTask, nextTask };
+    return { completedTasks, nextTasks };
+  });
+  return transaction();
 }
 
 export const recurrenceService = {
-  calculateNextDueDate,
+  calculateNextDueDates,
   createNextRecurringTask,
   completeRecurringTask,
+  completeTasks,
 };
@@ -53,6 +53,7 @@ export const reminderService = {
       SELECT * FROM reminders
       WHERE triggered = 0
       AND (snoozed_until IS NULL OR snoozed_until <= datetime('now'))
+      AND task_id NOT IN (SELECT id FROM tasks WHERE deleted_at IS NOT NULL)
       ORDER BY reminder_time ASC
     `);
     const rows = stmt.all();
@@ -67,6 +68,7 @@ export const reminderService = {
       WHERE triggered = 0
       AND reminder_time <= ?
       AND (snoozed_until IS NULL OR snoozed_until <= ?)
+      AND task_id NOT IN (SELECT id FROM tasks WHERE deleted_at IS NOT NULL)
       ORDER BY reminder_time ASC
     `);
     const rows = stmt.all(now, now);
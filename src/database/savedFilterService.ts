@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './database';
+import { searchService } from './tagService';
+import type { SavedFilter, CreateSavedFilterDTO, UpdateSavedFilterDTO, Task } from '../shared/types';
+
+// Helper to convert DB row to SavedFilter object
+function rowToSavedFilter(row: any): SavedFilter {
+  return {
+    id: row.id,
+    name: row.name,
+    icon: row.icon,
+    color: row.color,
+    filter: row.filter ? JSON.parse(row.filter) : {},
+    position: row.position,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Saved Filter Service
+export const savedFilterService = {
+  create(data: CreateSavedFilterDTO): SavedFilter {
+    const db = getDatabase();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const maxPosResult = db.prepare(
+      'SELECT COALESCE(MAX(position), -1) as maxPos FROM saved_filters'
+    ).get() as { maxPos: number };
+
+    db.prepare(`
+      INSERT INTO saved_filters (id, name, icon, color, filter, position, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      data.name,
+      data.icon ?? '🔍',
+      data.color ?? '#8b5cf6',
+      JSON.stringify(data.filter),
+      maxPosResult.maxPos + 1,
+      now,
+      now
+    );
+
+    return this.getById(id)!;
+  },
+
+  getById(id: string): SavedFilter | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM saved_filters WHERE id = ?').get(id);
+    return row ? rowToSavedFilter(row) : null;
+  },
+
+  getAll(): SavedFilter[] {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT * FROM saved_filters ORDER BY position ASC').all();
+    return rows.map(rowToSavedFilter);
+  },
+
+  update(id: string, data: UpdateSavedFilterDTO): SavedFilter | null {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      values.push(data.name);
+    }
+    if (data.icon !== undefined) {
+      updates.push('icon = ?');
+      values.push(data.icon);
+    }
+    if (data.color !== undefined) {
+      updates.push('color = ?');
+      values.push(data.color);
+    }
+    if (data.filter !== undefined) {
+      updates.push('filter = ?');
+      values.push(JSON.stringify(data.filter));
+    }
+    if (data.position !== undefined) {
+      updates.push('position = ?');
+      values.push(data.position);
+    }
+
+    if (updates.length === 0) {
+      return this.getById(id);
+    }
+
+    updates.push('updated_at = ?');
+    values.push(now);
+    values.push(id);
+
+    db.prepare(`UPDATE saved_filters SET ${updates.join(', ')} WHERE id = ?`).run(...values);
+
+    return this.getById(id);
+  },
+
+  delete(id: string): boolean {
+    const db = getDatabase();
+    const result = db.prepare('DELETE FROM saved_filters WHERE id = ?').run(id);
+    return result.changes > 0;
+  },
+
+  reorder(filterIds: string[]): void {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE saved_filters SET position = ?, updated_at = ? WHERE id = ?');
+    const now = new Date().toISOString();
+
+    const transaction = db.transaction(() => {
+      filterIds.forEach((id, index) => {
+        stmt.run(index, now, id);
+      });
+    });
+
+    transaction();
+  },
+
+  // Resolve a saved filter to its matching tasks, like taskService.getSmartList
+  getTasks(id: string): Task[] {
+    const savedFilter = this.getById(id);
+    return savedFilter ? searchService.searchTasks(savedFilter.filter) : [];
+  },
+};
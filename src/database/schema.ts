@@ -1,3 +1,8 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { createRRule, formatRRule, type RRuleFrequency } from '../shared/rrule';
+import type { Weekday } from '../shared/types';
+
 // Database schema creation SQL
 export const CREATE_TABLES_SQL = `
 -- Lists table
@@ -91,13 +96,103 @@ CREATE INDEX IF NOT EXISTS idx_reminders_task_id ON reminders(task_id);
 CREATE INDEX IF NOT EXISTS idx_reminders_time ON reminders(reminder_time);
 `;
 
-// Migration system for future schema updates
+// Recurrence columns replaced by recurrence_rule in v22
+const LEGACY_RECURRENCE_COLUMNS = ['recurrence_pattern', 'recurrence_interval', 'recurrence_weekdays', 'recurrence_end_date'];
+const LEGACY_FREQUENCIES: Record<string, RRuleFrequency> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+  custom: 'DAILY', // "Every N days"
+};
+
+// RRULE for a task row with the pre-v22 recurrence columns (also used for older backups)
+export function legacyRecurrenceRule(row: Record<string, unknown>): string | null {
+  const freq = LEGACY_FREQUENCIES[String(row.recurrence_pattern)];
+  if (!freq) return null;
+
+  const rule = createRRule(freq);
+  rule.interval = Math.max(1, Number(row.recurrence_interval) || 1);
+  if (freq === 'WEEKLY' && row.recurrence_weekdays) {
+    const weekdays = JSON.parse(String(row.recurrence_weekdays)) as Weekday[];
+    rule.byDay = [...new Set(weekdays)].sort((a, b) => a - b).map(weekday => ({ weekday, nth: null }));
+  }
+  if (row.recurrence_end_date) {
+    rule.until = String(row.recurrence_end_date).split('T')[0];
+  }
+  return formatRRule(rule);
+}
+
+// Migration system for future schema updates.
+// A migration provides SQL, a TypeScript data migration, or both (SQL runs first).
 export interface Migration {
   version: number;
   name: string;
-  sql: string;
+  sql?: string;
+  up?: (db: Database.Database) => void;
+}
+
+// Add a column unless it already exists (e.g. created by CREATE_TABLES_SQL on fresh installs)
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(existing => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Titles indexed in the `subtasks` search column: checklist rows before v13, child tasks after
+const SUBTASK_TITLES_SQL = `(SELECT group_concat(s.title, ' ') FROM subtasks s WHERE s.task_id = t.id)`;
+const CHILD_TASK_TITLES_SQL = `(SELECT group_concat(c.title, ' ') FROM tasks c WHERE c.parent_id = t.id)`;
+
+// Add full-text search rows (title, body, subtask titles and tag names) for the tasks matching `where`
+function indexTasksSql(where: string, subtaskTitles = SUBTASK_TITLES_SQL): string {
+  return `
+  INSERT INTO task_search (task_id, title, description, notes, subtasks, tags)
+  SELECT
+    t.id,
+    t.title,
+    COALESCE(t.description, ''),
+    COALESCE(t.notes, ''),
+    COALESCE(${subtaskTitles}, ''),
+    COALESCE((SELECT group_concat(tg.name, ' ') FROM task_tags tt JOIN tags tg ON tg.id = tt.tag_id WHERE tt.task_id = t.id), '')
+  FROM tasks t WHERE ${where};`;
+}
+
+// Rebuild the search row of one task. `taskId` is an SQL expression, e.g. NEW.task_id inside a trigger.
+function refreshTaskSearchSql(taskId: string, subtaskTitles = SUBTASK_TITLES_SQL): string {
+  return `
+  DELETE FROM task_search WHERE task_id = ${taskId};${indexTasksSql(`t.id = ${taskId}`, subtaskTitles)}`;
+}
+
+// Same as refreshTaskSearchSql, indexing child task titles
+function refreshNestedTaskSearchSql(taskId: string): string {
+  return refreshTaskSearchSql(taskId, CHILD_TASK_TITLES_SQL);
 }
 
+/**
+ * Turn checklist subtasks into child tasks of their task, then remove them.
+ * Also run after importing a backup made before tasks could be nested.
+ */
+export const CONVERT_SUBTASKS_SQL = `
+INSERT OR IGNORE INTO tasks (id, parent_id, list_id, title, completed, completed_at, position, created_at, updated_at, deleted_at)
+SELECT
+  s.id,
+  s.task_id,
+  p.list_id,
+  s.title,
+  COALESCE(s.completed, 0),
+  CASE WHEN s.completed = 1 THEN s.updated_at END,
+  s.position,
+  s.created_at,
+  s.updated_at,
+  p.deleted_at
+FROM subtasks s
+JOIN tasks p ON p.id = s.task_id
+ORDER BY s.task_id, s.position;
+
+DELETE FROM subtasks;
+`;
+
 export const MIGRATIONS: Migration[] = [
   {
     version: 1,
@@ -107,14 +202,14 @@ export const MIGRATIONS: Migration[] = [
   {
     version: 2,
     name: 'add_recurrence_fields',
-    sql: `
--- Add recurrence fields to tasks table
-ALTER TABLE tasks ADD COLUMN recurrence_pattern TEXT DEFAULT 'none' CHECK(recurrence_pattern IN ('none', 'daily', 'weekly', 'monthly', 'yearly', 'custom'));
-ALTER TABLE tasks ADD COLUMN recurrence_interval INTEGER DEFAULT 1;
-ALTER TABLE tasks ADD COLUMN recurrence_weekdays TEXT DEFAULT '[]';
-ALTER TABLE tasks ADD COLUMN recurrence_end_date TEXT;
-ALTER TABLE tasks ADD COLUMN regenerate_mode TEXT DEFAULT 'on_completion' CHECK(regenerate_mode IN ('on_completion', 'fixed_schedule'));
-`,
+    // Add recurrence fields to tasks table
+    up: (db) => {
+      addColumnIfMissing(db, 'tasks', 'recurrence_pattern', "TEXT DEFAULT 'none' CHECK(recurrence_pattern IN ('none', 'daily', 'weekly', 'monthly', 'yearly', 'custom'))");
+      addColumnIfMissing(db, 'tasks', 'recurrence_interval', 'INTEGER DEFAULT 1');
+      addColumnIfMissing(db, 'tasks', 'recurrence_weekdays', "TEXT DEFAULT '[]'");
+      addColumnIfMissing(db, 'tasks', 'recurrence_end_date', 'TEXT');
+      addColumnIfMissing(db, 'tasks', 'regenerate_mode', "TEXT DEFAULT 'on_completion' CHECK(regenerate_mode IN ('on_completion', 'fixed_schedule'))");
+    },
   },
   {
     version: 3,
@@ -218,6 +313,360 @@ ALTER TABLE habits ADD COLUMN target_count INTEGER DEFAULT 1;
 -- Add count and note to habit completions
 ALTER TABLE habit_completions ADD COLUMN count INTEGER DEFAULT 1;
 ALTER TABLE habit_completions ADD COLUMN note TEXT DEFAULT '';
+`,
+  },
+  {
+    version: 7,
+    name: 'add_app_settings_table',
+    sql: `
+-- Application settings table (single row)
+CREATE TABLE IF NOT EXISTS app_settings (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  theme TEXT NOT NULL DEFAULT 'system' CHECK(theme IN ('light', 'dark', 'system')),
+  default_list_id TEXT,
+  show_completed_tasks INTEGER NOT NULL DEFAULT 1,
+  start_minimized INTEGER NOT NULL DEFAULT 0,
+  minimize_to_tray INTEGER NOT NULL DEFAULT 1,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (default_list_id) REFERENCES lists(id) ON DELETE SET NULL
+);
+
+-- Insert default settings
+INSERT OR IGNORE INTO app_settings (id) VALUES (1);
+`,
+  },
+  {
+    version: 8,
+    name: 'add_trash',
+    sql: `
+-- Soft delete markers (NULL = not in trash)
+ALTER TABLE tasks ADD COLUMN deleted_at TEXT;
+ALTER TABLE lists ADD COLUMN deleted_at TEXT;
+ALTER TABLE habits ADD COLUMN deleted_at TEXT;
+
+-- Days to keep items in the trash before purging them (0 = keep forever)
+ALTER TABLE app_settings ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_lists_deleted_at ON lists(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_habits_deleted_at ON habits(deleted_at);
+`,
+  },
+  {
+    version: 9,
+    name: 'add_task_activity',
+    sql: `
+-- Per-task change history
+CREATE TABLE IF NOT EXISTS task_activity (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activity_task_id ON task_activity(task_id);
+`,
+  },
+  {
+    version: 10,
+    name: 'add_task_search_index',
+    sql: `
+-- Full-text index over tasks, their subtasks and tag names (one row per task)
+CREATE VIRTUAL TABLE IF NOT EXISTS task_search USING fts5(
+  task_id UNINDEXED,
+  title,
+  description,
+  notes,
+  subtasks,
+  tags,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- Keep the index in sync
+CREATE TRIGGER IF NOT EXISTS task_search_task_insert AFTER INSERT ON tasks BEGIN${refreshTaskSearchSql('NEW.id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_task_update AFTER UPDATE OF title, description, notes ON tasks BEGIN${refreshTaskSearchSql('NEW.id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_task_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_search WHERE task_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_subtask_insert AFTER INSERT ON subtasks BEGIN${refreshTaskSearchSql('NEW.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_subtask_update AFTER UPDATE OF title, task_id ON subtasks BEGIN${refreshTaskSearchSql('OLD.task_id')}${refreshTaskSearchSql('NEW.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_subtask_delete AFTER DELETE ON subtasks BEGIN${refreshTaskSearchSql('OLD.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tag_link AFTER INSERT ON task_tags BEGIN${refreshTaskSearchSql('NEW.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tag_unlink AFTER DELETE ON task_tags BEGIN${refreshTaskSearchSql('OLD.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tag_rename AFTER UPDATE OF name ON tags BEGIN
+  DELETE FROM task_search WHERE task_id IN (SELECT task_id FROM task_tags WHERE tag_id = NEW.id);${indexTasksSql('t.id IN (SELECT task_id FROM task_tags WHERE tag_id = NEW.id)')}
+END;
+
+-- Index existing tasks
+${indexTasksSql('1 = 1')}
+`,
+  },
+  {
+    version: 11,
+    name: 'add_saved_filters',
+    sql: `
+-- Filters saved as custom smart lists (filter is a JSON TaskFilter)
+CREATE TABLE IF NOT EXISTS saved_filters (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  icon TEXT DEFAULT '🔍',
+  color TEXT DEFAULT '#8b5cf6',
+  filter TEXT NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+`,
+  },
+  {
+    version: 12,
+    name: 'add_task_dependencies',
+    sql: `
+-- Task A is blocked by task B until B is completed
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id TEXT NOT NULL,
+  depends_on_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (task_id, depends_on_id),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (depends_on_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  CHECK (task_id != depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_id);
+
+-- Hide tasks with open blockers from Today and Next 7 Days
+ALTER TABLE app_settings ADD COLUMN hide_blocked_tasks INTEGER NOT NULL DEFAULT 0;
+`,
+  },
+  {
+    version: 13,
+    name: 'add_task_hierarchy',
+    sql: `
+-- Any task can be the child of another task (to any depth)
+ALTER TABLE tasks ADD COLUMN parent_id TEXT REFERENCES tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks(parent_id);
+
+-- The search index now picks up child task titles instead of checklist subtasks
+DROP TRIGGER IF EXISTS task_search_subtask_insert;
+DROP TRIGGER IF EXISTS task_search_subtask_update;
+DROP TRIGGER IF EXISTS task_search_subtask_delete;
+DROP TRIGGER IF EXISTS task_search_task_insert;
+DROP TRIGGER IF EXISTS task_search_task_update;
+DROP TRIGGER IF EXISTS task_search_task_delete;
+DROP TRIGGER IF EXISTS task_search_tag_link;
+DROP TRIGGER IF EXISTS task_search_tag_unlink;
+DROP TRIGGER IF EXISTS task_search_tag_rename;
+
+CREATE TRIGGER IF NOT EXISTS task_search_task_insert AFTER INSERT ON tasks BEGIN${refreshNestedTaskSearchSql('NEW.id')}${refreshNestedTaskSearchSql('NEW.parent_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_task_update AFTER UPDATE OF title, description, notes ON tasks BEGIN${refreshNestedTaskSearchSql('NEW.id')}${refreshNestedTaskSearchSql('NEW.parent_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_task_move AFTER UPDATE OF parent_id ON tasks BEGIN${refreshNestedTaskSearchSql('OLD.parent_id')}${refreshNestedTaskSearchSql('NEW.parent_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_task_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_search WHERE task_id = OLD.id;${refreshNestedTaskSearchSql('OLD.parent_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tag_link AFTER INSERT ON task_tags BEGIN${refreshNestedTaskSearchSql('NEW.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tag_unlink AFTER DELETE ON task_tags BEGIN${refreshNestedTaskSearchSql('OLD.task_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tag_rename AFTER UPDATE OF name ON tags BEGIN
+  DELETE FROM task_search WHERE task_id IN (SELECT task_id FROM task_tags WHERE tag_id = NEW.id);${indexTasksSql('t.id IN (SELECT task_id FROM task_tags WHERE tag_id = NEW.id)', CHILD_TASK_TITLES_SQL)}
+END;
+
+${CONVERT_SUBTASKS_SQL}`,
+  },
+  {
+    version: 14,
+    name: 'add_task_attachments',
+    sql: `
+-- Files attached to tasks. The file itself lives in the attachments folder
+-- under userData, named by its content hash so identical files are stored once.
+CREATE TABLE IF NOT EXISTS attachments (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_task ON attachments(task_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_hash ON attachments(hash);
+`,
+  },
+  {
+    version: 15,
+    name: 'add_task_start_date',
+    sql: `
+-- Deferred tasks stay hidden from Inbox, All and Today until their start date
+ALTER TABLE tasks ADD COLUMN start_date TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_start_date ON tasks(start_date);
+`,
+  },
+  {
+    version: 16,
+    name: 'add_time_tracking',
+    sql: `
+ALTER TABLE tasks ADD COLUMN estimated_minutes INTEGER;
+
+-- Start/stop time tracker entries; ended_at is NULL while running
+CREATE TABLE IF NOT EXISTS time_entries (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  ended_at TEXT,
+  minutes INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(ended_at) WHERE ended_at IS NULL;
+`,
+  },
+  {
+    version: 17,
+    name: 'add_task_templates',
+    sql: `
+-- Reusable task structures; the task tree is stored as JSON (TemplateTask)
+CREATE TABLE IF NOT EXISTS task_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  task TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+`,
+  },
+  {
+    version: 18,
+    name: 'add_list_folders',
+    sql: `
+-- Folders group lists in the sidebar; lists without a folder stay at the top level
+CREATE TABLE IF NOT EXISTS folders (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+ALTER TABLE lists ADD COLUMN folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lists_folder ON lists(folder_id);
+`,
+  },
+  {
+    version: 19,
+    name: 'add_list_sections',
+    sql: `
+-- User-defined sections of a list, shown as board columns and task list groups
+CREATE TABLE IF NOT EXISTS sections (
+  id TEXT PRIMARY KEY,
+  list_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sections_list ON sections(list_id);
+
+ALTER TABLE tasks ADD COLUMN section_id TEXT REFERENCES sections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_section ON tasks(section_id);
+`,
+  },
+  {
+    version: 20,
+    name: 'add_task_duration',
+    sql: `
+-- Length of a timed task's block in the calendar; NULL falls back to the estimate
+ALTER TABLE tasks ADD COLUMN duration_minutes INTEGER;
+`,
+  },
+  {
+    version: 21,
+    name: 'add_tag_hierarchy',
+    // Tags nest by name ("work/meetings" is under "work"); create any missing parents
+    up: (db) => {
+      const names = new Set((db.prepare('SELECT name FROM tags').all() as { name: string }[]).map(row => row.name));
+      const insert = db.prepare(`
+        INSERT INTO tags (id, name, color, created_at, updated_at)
+        SELECT ?, ?, color, datetime('now'), datetime('now') FROM tags WHERE name = ?
+      `);
+      for (const name of [...names]) {
+        const parts = name.split('/');
+        for (let depth = parts.length - 1; depth > 0; depth--) {
+          const ancestor = parts.slice(0, depth).join('/');
+          if (names.has(ancestor)) break;
+          insert.run(uuidv4(), ancestor, name);
+          names.add(ancestor);
+        }
+      }
+    },
+  },
+  {
+    version: 22,
+    name: 'use_recurrence_rules',
+    // Recurrence is stored as an RFC 5545 RRULE instead of pattern, interval, weekdays and end date
+    sql: `
+ALTER TABLE tasks ADD COLUMN recurrence_rule TEXT;
+`,
+    up: (db) => {
+      const rows = db.prepare(
+        "SELECT * FROM tasks WHERE COALESCE(recurrence_pattern, 'none') != 'none'"
+      ).all() as Record<string, unknown>[];
+      const update = db.prepare('UPDATE tasks SET recurrence_rule = ? WHERE id = ?');
+      for (const row of rows) {
+        update.run(legacyRecurrenceRule(row), row.id);
+      }
+
+      for (const column of LEGACY_RECURRENCE_COLUMNS) {
+        db.exec(`ALTER TABLE tasks DROP COLUMN ${column}`);
+      }
+    },
+  },
+  {
+    version: 23,
+    name: 'add_catch_up_mode',
+    sql: `
+-- How completing an overdue fixed-schedule task handles the occurrences it missed
+ALTER TABLE tasks ADD COLUMN catch_up_mode TEXT DEFAULT 'strict' CHECK(catch_up_mode IN ('strict', 'skip_missed', 'each_missed'));
 `,
   },
 ];
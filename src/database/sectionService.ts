@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './database';
+import { taskService } from './taskService';
+import type { Section } from '../shared/types';
+
+// Helper to convert DB row to Section object
+function rowToSection(row: any): Section {
+  return {
+    id: row.id,
+    listId: row.list_id,
+    name: row.name,
+    position: row.position,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Section Service
+export const sectionService = {
+  create(listId: string, name: string): Section {
+    const db = getDatabase();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const maxPosResult = db.prepare(
+      'SELECT COALESCE(MAX(position), -1) as maxPos FROM sections WHERE list_id = ?'
+    ).get(listId) as { maxPos: number };
+
+    db.prepare(`
+      INSERT INTO sections (id, list_id, name, position, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, listId, name, maxPosResult.maxPos + 1, now, now);
+
+    return this.getById(id)!;
+  },
+
+  getById(id: string): Section | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM sections WHERE id = ?').get(id);
+    return row ? rowToSection(row) : null;
+  },
+
+  getByList(listId: string): Section[] {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT * FROM sections WHERE list_id = ? ORDER BY position ASC').all(listId);
+    return rows.map(rowToSection);
+  },
+
+  rename(id: string, name: string): Section | null {
+    const db = getDatabase();
+    db.prepare('UPDATE sections SET name = ?, updated_at = ? WHERE id = ?').run(
+      name,
+      new Date().toISOString(),
+      id
+    );
+    return this.getById(id);
+  },
+
+  // Delete a section. Its tasks (trashed ones included) stay in the list without a section.
+  delete(id: string): boolean {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const transaction = db.transaction(() => {
+      db.prepare('UPDATE tasks SET section_id = NULL, updated_at = ? WHERE section_id = ?').run(now, id);
+      const result = db.prepare('DELETE FROM sections WHERE id = ?').run(id);
+      return result.changes > 0;
+    });
+
+    return transaction();
+  },
+
+  reorder(sectionIds: string[]): void {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE sections SET position = ?, updated_at = ? WHERE id = ?');
+    const now = new Date().toISOString();
+
+    const transaction = db.transaction(() => {
+      sectionIds.forEach((id, index) => {
+        stmt.run(index, now, id);
+      });
+    });
+
+    transaction();
+  },
+
+  // IDs of the tasks in a section, trashed ones included
+  getTaskIds(id: string): string[] {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT id FROM tasks WHERE section_id = ?').all(id) as { id: string }[];
+    return rows.map(row => row.id);
+  },
+
+  // Move a task (with its descendants) into a section, or out of any with null,
+  // and apply the new task order
+  moveTask(taskId: string, sectionId: string | null, taskIds: string[]): void {
+    const db = getDatabase();
+
+    const transaction = db.transaction(() => {
+      taskService.update(taskId, { sectionId });
+      taskService.reorder(taskIds);
+    });
+
+    transaction();
+  },
+};
@@ -0,0 +1,79 @@
+import { getDatabase } from './database';
+import type { AppSettings } from '../shared/types';
+
+// Convert database row to AppSettings
+function rowToSettings(row: any): AppSettings {
+  return {
+    theme: row.theme,
+    defaultListId: row.default_list_id,
+    showCompletedTasks: Boolean(row.show_completed_tasks),
+    startMinimized: Boolean(row.start_minimized),
+    minimizeToTray: Boolean(row.minimize_to_tray),
+    trashRetentionDays: row.trash_retention_days,
+    hideBlockedTasks: Boolean(row.hide_blocked_tasks),
+  };
+}
+
+export const settingsService = {
+  // Get application settings
+  get(): AppSettings {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM app_settings WHERE id = 1').get();
+
+    if (!row) {
+      // Create default settings if not exists
+      db.prepare(`
+        INSERT OR IGNORE INTO app_settings (id) VALUES (1)
+      `).run();
+      return this.get();
+    }
+
+    return rowToSettings(row);
+  },
+
+  // Update application settings
+  update(data: Partial<AppSettings>): AppSettings {
+    const db = getDatabase();
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.theme !== undefined) {
+      updates.push('theme = ?');
+      values.push(data.theme);
+    }
+    if (data.defaultListId !== undefined) {
+      updates.push('default_list_id = ?');
+      values.push(data.defaultListId);
+    }
+    if (data.showCompletedTasks !== undefined) {
+      updates.push('show_completed_tasks = ?');
+      values.push(data.showCompletedTasks ? 1 : 0);
+    }
+    if (data.startMinimized !== undefined) {
+      updates.push('start_minimized = ?');
+      values.push(data.startMinimized ? 1 : 0);
+    }
+    if (data.minimizeToTray !== undefined) {
+      updates.push('minimize_to_tray = ?');
+      values.push(data.minimizeToTray ? 1 : 0);
+    }
+    if (data.trashRetentionDays !== undefined) {
+      updates.push('trash_retention_days = ?');
+      values.push(data.trashRetentionDays);
+    }
+    if (data.hideBlockedTasks !== undefined) {
+      updates.push('hide_blocked_tasks = ?');
+      values.push(data.hideBlockedTasks ? 1 : 0);
+    }
+
+    if (updates.length > 0) {
+      // Make sure the settings row exists before updating it
+      this.get();
+      updates.push('updated_at = ?');
+      values.push(new Date().toISOString());
+      db.prepare(`UPDATE app_settings SET ${updates.join(', ')} WHERE id = 1`).run(...values);
+    }
+
+    return this.get();
+  },
+};
@@ -0,0 +1,212 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import { getDatabase, initDatabase, closeDatabase, replaceDatabaseFile } from './database';
+import type { SnapshotInfo, SnapshotKind } from '../shared/types';
+
+// How many snapshots of each kind to keep
+const SNAPSHOT_RETENTION: Record<SnapshotKind, number> = {
+  daily: 7,
+  weekly: 4,
+  'pre-restore': 3,
+  'pre-migration': 3,
+};
+
+// Check for a missing daily snapshot once an hour
+const SNAPSHOT_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const SNAPSHOT_FILE_PATTERN = /^(daily|weekly|pre-restore|pre-migration)-(.+)\.db$/;
+
+let snapshotTimer: NodeJS.Timeout | null = null;
+let snapshotInProgress: Promise<void> | null = null;
+
+function getSnapshotDir(): string {
+  const dir = path.join(app.getPath('userData'), 'snapshots');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// Monday of the week containing the given date (YYYY-MM-DD)
+function getWeekStart(date: Date): string {
+  const monday = new Date(date);
+  const day = monday.getDay();
+  monday.setDate(monday.getDate() - (day === 0 ? 6 : day - 1));
+  return monday.toISOString().split('T')[0];
+}
+
+// Delete the oldest snapshots of a kind beyond its retention count. Age comes from the
+// file's modification time, since older names don't sort by date; `keep` is never deleted.
+function pruneSnapshots(kind: SnapshotKind, keep?: string): void {
+  const dir = getSnapshotDir();
+  const files = fs.readdirSync(dir)
+    .filter(file => file.startsWith(`${kind}-`) && file.endsWith('.db'))
+    .map(file => ({ file, modified: fs.statSync(path.join(dir, file)).mtimeMs }))
+    .sort((a, b) => b.modified - a.modified || b.file.localeCompare(a.file))
+    .map(({ file }) => file);
+
+  const kept = keep ? path.basename(keep) : null;
+  const retained = kept ? [kept, ...files.filter(file => file !== kept)] : files;
+  for (const file of retained.slice(SNAPSHOT_RETENTION[kind])) {
+    fs.unlinkSync(path.join(dir, file));
+  }
+}
+
+// Count rows in a snapshot without touching the live database
+function readSnapshotCounts(filePath: string): { taskCount: number; habitCount: number } {
+  const snapshot = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const count = (table: string): number => {
+      try {
+        const row = snapshot.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number };
+        return row.count;
+      } catch {
+        // Table may not exist in snapshots taken before it was added
+        return 0;
+      }
+    };
+    return { taskCount: count('tasks'), habitCount: count('habits') };
+  } finally {
+    snapshot.close();
+  }
+}
+
+async function takeDailySnapshot(): Promise<void> {
+  const dir = getSnapshotDir();
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  const dailyPath = path.join(dir, `daily-${today}.db`);
+
+  if (!fs.existsSync(dailyPath)) {
+    // better-sqlite3 backup() produces a consistent copy even while the DB is in use
+    await getDatabase().backup(dailyPath);
+    console.log('Database snapshot saved:', dailyPath);
+    pruneSnapshots('daily', dailyPath);
+  }
+
+  const weeklyPath = path.join(dir, `weekly-${getWeekStart(now)}.db`);
+  if (!fs.existsSync(weeklyPath)) {
+    fs.copyFileSync(dailyPath, weeklyPath);
+    pruneSnapshots('weekly', weeklyPath);
+  }
+}
+
+export const snapshotService = {
+  // Take today's snapshot if it doesn't exist yet (safe to call repeatedly)
+  takeSnapshot(): Promise<void> {
+    if (!snapshotInProgress) {
+      snapshotInProgress = takeDailySnapshot()
+        .catch(error => {
+          console.error('Failed to take database snapshot:', error);
+        })
+        .finally(() => {
+          snapshotInProgress = null;
+        });
+    }
+    return snapshotInProgress;
+  },
+
+  // Snapshot now and keep checking so long-running sessions still get a daily copy
+  startSchedule(): void {
+    this.takeSnapshot();
+    if (!snapshotTimer) {
+      snapshotTimer = setInterval(() => this.takeSnapshot(), SNAPSHOT_CHECK_INTERVAL);
+    }
+  },
+
+  stopSchedule(): void {
+    if (snapshotTimer) {
+      clearInterval(snapshotTimer);
+      snapshotTimer = null;
+    }
+  },
+
+  // Synchronously copy the database before migrations run, returning the copy's path
+  createPreMigrationCopy(database: Database.Database, fromVersion: number): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const copyPath = path.join(getSnapshotDir(), `pre-migration-${timestamp}-v${fromVersion}.db`);
+    database.prepare('VACUUM INTO ?').run(copyPath);
+    pruneSnapshots('pre-migration', copyPath);
+    console.log('Pre-migration copy saved:', copyPath);
+    return copyPath;
+  },
+
+  // Content hashes of the attachments in any snapshot, whose files restoring it still needs
+  getAttachmentHashes(): Set<string> {
+    const dir = getSnapshotDir();
+    const hashes = new Set<string>();
+
+    for (const fileName of fs.readdirSync(dir)) {
+      if (!SNAPSHOT_FILE_PATTERN.test(fileName)) continue;
+
+      const snapshot = new Database(path.join(dir, fileName), { readonly: true, fileMustExist: true });
+      try {
+        const rows = snapshot.prepare('SELECT DISTINCT hash FROM attachments').all() as { hash: string }[];
+        rows.forEach(row => hashes.add(row.hash));
+      } catch {
+        // Snapshots taken before attachments existed have no table
+      } finally {
+        snapshot.close();
+      }
+    }
+    return hashes;
+  },
+
+  // List available snapshots, newest first
+  list(): SnapshotInfo[] {
+    const dir = getSnapshotDir();
+    const snapshots: SnapshotInfo[] = [];
+
+    for (const fileName of fs.readdirSync(dir)) {
+      const match = SNAPSHOT_FILE_PATTERN.exec(fileName);
+      if (!match) continue;
+
+      const filePath = path.join(dir, fileName);
+      try {
+        const stats = fs.statSync(filePath);
+        snapshots.push({
+          fileName,
+          kind: match[1] as SnapshotKind,
+          createdAt: stats.mtime.toISOString(),
+          sizeBytes: stats.size,
+          ...readSnapshotCounts(filePath),
+        });
+      } catch (error) {
+        console.error(`Skipping unreadable snapshot ${fileName}:`, error);
+      }
+    }
+
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  // Replace the live database with a snapshot. The current database is saved
+  // as a pre-restore snapshot first so the swap can be undone.
+  async restore(fileName: string): Promise<void> {
+    const dir = getSnapshotDir();
+    if (!SNAPSHOT_FILE_PATTERN.test(fileName) || path.basename(fileName) !== fileName) {
+      throw new Error('Invalid snapshot name');
+    }
+    const snapshotPath = path.join(dir, fileName);
+    if (!fs.existsSync(snapshotPath)) {
+      throw new Error('Snapshot not found');
+    }
+
+    // Let any running snapshot finish before closing the connection
+    if (snapshotInProgress) {
+      await snapshotInProgress;
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const preRestorePath = path.join(dir, `pre-restore-${timestamp}.db`);
+    await getDatabase().backup(preRestorePath);
+    pruneSnapshots('pre-restore', preRestorePath);
+
+    closeDatabase();
+    try {
+      replaceDatabaseFile(snapshotPath);
+    } finally {
+      // Re-open (and migrate older snapshots) even if the copy failed
+      initDatabase();
+    }
+  },
+};
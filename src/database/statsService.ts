@@ -1,7 +1,8 @@
 import { getDatabase } from './database';
 import { pomodoroService } from './pomodoroService';
 import { habitService } from './habitService';
-import type { TaskStats, DashboardStats, Priority } from '../shared/types';
+import { TASK_ACTUAL_MINUTES_SQL } from './timeEntryService';
+import type { TaskStats, DashboardStats, TimeTrackingStats, Priority } from '../shared/types';
 
 export const statsService = {
   // Get task statistics
@@ -10,12 +11,12 @@ export const statsService = {
     const today = new Date().toISOString().split('T')[0];
 
     // Basic task counts
-    const totalTasks = (db.prepare('SELECT COUNT(*) as count FROM tasks').get() as any).count;
-    const completedTasks = (db.prepare('SELECT COUNT(*) as count FROM tasks WHERE completed = 1').get() as any).count;
-    const pendingTasks = (db.prepare('SELECT COUNT(*) as count FROM tasks WHERE completed = 0').get() as any).count;
+    const totalTasks = (db.prepare('SELECT COUNT(*) as count FROM tasks WHERE deleted_at IS NULL').get() as any).count;
+    const completedTasks = (db.prepare('SELECT COUNT(*) as count FROM tasks WHERE completed = 1 AND deleted_at IS NULL').get() as any).count;
+    const pendingTasks = (db.prepare('SELECT COUNT(*) as count FROM tasks WHERE completed = 0 AND deleted_at IS NULL').get() as any).count;
     const overdueTasks = (db.prepare(`
       SELECT COUNT(*) as count FROM tasks
-      WHERE completed = 0 AND due_date IS NOT NULL AND due_date < ?
+      WHERE completed = 0 AND deleted_at IS NULL AND due_date IS NOT NULL AND due_date < ?
     `).get(today) as any).count;
 
     const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
@@ -28,7 +29,7 @@ export const statsService = {
     const tasksCompletedByDay = db.prepare(`
       SELECT date(completed_at) as date, COUNT(*) as count
       FROM tasks
-      WHERE completed = 1 AND completed_at IS NOT NULL AND date(completed_at) >= ?
+      WHERE completed = 1 AND deleted_at IS NULL AND completed_at IS NOT NULL AND date(completed_at) >= ?
       GROUP BY date(completed_at)
       ORDER BY date ASC
     `).all(thirtyDaysAgoStr) as { date: string; count: number }[];
@@ -41,7 +42,7 @@ export const statsService = {
     const tasksCompletedByWeek = db.prepare(`
       SELECT strftime('%Y-W%W', completed_at) as week, COUNT(*) as count
       FROM tasks
-      WHERE completed = 1 AND completed_at IS NOT NULL AND date(completed_at) >= ?
+      WHERE completed = 1 AND deleted_at IS NULL AND completed_at IS NOT NULL AND date(completed_at) >= ?
       GROUP BY strftime('%Y-W%W', completed_at)
       ORDER BY week ASC
     `).all(twelveWeeksAgoStr) as { week: string; count: number }[];
@@ -50,7 +51,7 @@ export const statsService = {
     const tasksByPriority = db.prepare(`
       SELECT priority, COUNT(*) as count
       FROM tasks
-      WHERE completed = 0
+      WHERE completed = 0 AND deleted_at IS NULL
       GROUP BY priority
     `).all() as { priority: Priority; count: number }[];
 
@@ -62,7 +63,7 @@ export const statsService = {
         COUNT(*) as count
       FROM tasks t
       LEFT JOIN lists l ON t.list_id = l.id
-      WHERE t.completed = 0
+      WHERE t.completed = 0 AND t.deleted_at IS NULL
       GROUP BY t.list_id
       ORDER BY count DESC
     `).all() as { listId: string; listName: string; count: number }[];
@@ -73,7 +74,7 @@ export const statsService = {
         (julianday(completed_at) - julianday(created_at)) * 24
       ) as avg_hours
       FROM tasks
-      WHERE completed = 1 AND completed_at IS NOT NULL
+      WHERE completed = 1 AND deleted_at IS NULL AND completed_at IS NOT NULL
     `).get() as { avg_hours: number | null };
 
     const averageCompletionTime = avgCompletionResult.avg_hours
@@ -94,10 +95,60 @@ export const statsService = {
     };
   },
 
+  // Get estimate vs actual time statistics
+  getTimeStats(): TimeTrackingStats {
+    const db = getDatabase();
+
+    const tracked = db.prepare(
+      'SELECT COALESCE(SUM(minutes), 0) as minutes FROM time_entries WHERE ended_at IS NOT NULL'
+    ).get() as { minutes: number };
+
+    // Estimated and actual minutes per list, including completed tasks
+    const byList = db.prepare(`
+      SELECT
+        t.list_id as listId,
+        COALESCE(l.name, 'Inbox') as listName,
+        COALESCE(SUM(t.estimated_minutes), 0) as estimatedMinutes,
+        SUM(${TASK_ACTUAL_MINUTES_SQL}) as actualMinutes
+      FROM tasks t
+      LEFT JOIN lists l ON t.list_id = l.id
+      WHERE t.deleted_at IS NULL
+      GROUP BY t.list_id
+      HAVING estimatedMinutes > 0 OR actualMinutes > 0
+      ORDER BY actualMinutes DESC
+    `).all() as TimeTrackingStats['byList'];
+
+    // Last 20 completed tasks with both an estimate and recorded time
+    const estimateAccuracy = db.prepare(`
+      SELECT * FROM (
+        SELECT
+          t.id as taskId,
+          t.title as title,
+          t.estimated_minutes as estimatedMinutes,
+          ${TASK_ACTUAL_MINUTES_SQL} as actualMinutes,
+          t.completed_at as completedAt
+        FROM tasks t
+        WHERE t.completed = 1 AND t.deleted_at IS NULL AND t.estimated_minutes > 0
+      )
+      WHERE actualMinutes > 0
+      ORDER BY completedAt DESC
+      LIMIT 20
+    `).all() as (TimeTrackingStats['estimateAccuracy'][number] & { completedAt: string })[];
+
+    return {
+      totalTrackedMinutes: tracked.minutes,
+      byList,
+      estimateAccuracy: estimateAccuracy
+        .reverse()
+        .map(({ taskId, title, estimatedMinutes, actualMinutes }) => ({ taskId, title, estimatedMinutes, actualMinutes })),
+    };
+  },
+
   // Get dashboard statistics (combined)
   getDashboard(): DashboardStats {
     const taskStats = this.getTaskStats();
     const pomodoroStats = pomodoroService.getStats();
+    const timeStats = this.getTimeStats();
     const habitsWithStats = habitService.getAllWithStats(false);
 
     // Calculate habit statistics
@@ -114,6 +165,7 @@ export const statsService = {
     return {
       tasks: taskStats,
       pomodoro: pomodoroStats,
+      time: timeStats,
       habits: {
         totalHabits,
         activeHabits,
@@ -1,6 +1,18 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from './database';
-import type { Tag, CreateTagDTO, UpdateTagDTO, TaskFilter, Task } from '../shared/types';
+import { activityService } from './activityService';
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  TAG_PATH_SEPARATOR,
+  type Tag,
+  type CreateTagDTO,
+  type UpdateTagDTO,
+  type TaskFilter,
+  type Task,
+  type TaskSearchResult,
+  type TaskSearchField,
+} from '../shared/types';
 
 // Helper to convert DB row to Tag object
 function rowToTag(row: any): Tag {
@@ -13,21 +25,90 @@ function rowToTag(row: any): Tag {
   };
 }
 
+const DEFAULT_TAG_COLOR = '#6366f1';
+
+// Saved filter fields that hold tag IDs
+const SAVED_FILTER_TAG_FIELDS = ['tagIds', 'excludeTagIds'] as const;
+
+function getSavedFilters(): { id: string; filter: TaskFilter }[] {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT id, filter FROM saved_filters').all() as { id: string; filter: string | null }[];
+  return rows.map(row => ({ id: row.id, filter: row.filter ? JSON.parse(row.filter) : {} }));
+}
+
+// Point saved filters at the tag a tag was merged into, or drop a deleted tag (null) from them
+function replaceSavedFilterTags(replacements: Map<string, string | null>): void {
+  const db = getDatabase();
+  const stmt = db.prepare('UPDATE saved_filters SET filter = ?, updated_at = ? WHERE id = ?');
+  const now = new Date().toISOString();
+
+  for (const { id, filter } of getSavedFilters()) {
+    let changed = false;
+    for (const field of SAVED_FILTER_TAG_FIELDS) {
+      const tagIds = filter[field];
+      if (!tagIds?.some(tagId => replacements.has(tagId))) continue;
+
+      const replaced = tagIds
+        .map(tagId => (replacements.has(tagId) ? replacements.get(tagId) ?? null : tagId))
+        .filter((tagId): tagId is string => tagId !== null);
+      if (replaced.length > 0) {
+        filter[field] = [...new Set(replaced)];
+      } else {
+        delete filter[field];
+      }
+      changed = true;
+    }
+    if (changed) {
+      stmt.run(JSON.stringify(filter), now, id);
+    }
+  }
+}
+
+// SQL: IDs of the tag `p` and every tag nested under it, filtered by a WHERE on `p`
+export const TAG_SUBTREE_SQL = `
+  SELECT d.id FROM tags p
+  JOIN tags d ON d.name = p.name OR substr(d.name, 1, length(p.name) + 1) = p.name || '${TAG_PATH_SEPARATOR}'`;
+
+// Trim each level of a nested name and drop empty ones: " work / meetings " → "work/meetings"
+export function normalizeTagName(name: string): string {
+  return name
+    .split(TAG_PATH_SEPARATOR)
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .join(TAG_PATH_SEPARATOR);
+}
+
+// Names of the tags above a nested tag, outermost first: "a/b/c" → ["a", "a/b"]
+export function getAncestorTagNames(name: string): string[] {
+  const parts = name.split(TAG_PATH_SEPARATOR);
+  return parts.slice(0, -1).map((_, index) => parts.slice(0, index + 1).join(TAG_PATH_SEPARATOR));
+}
+
 // Tag Service
 export const tagService = {
+  // Nested names create their missing parent tags, which a new tag takes its color from
   create(data: CreateTagDTO): Tag {
     const db = getDatabase();
-    const id = uuidv4();
-    const now = new Date().toISOString();
+    const name = normalizeTagName(data.name);
+    if (!name) {
+      throw new Error('Tag name is required');
+    }
 
-    const stmt = db.prepare(`
-      INSERT INTO tags (id, name, color, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?)
-    `);
+    return db.transaction(() => {
+      let parent: Tag | null = null;
+      for (const ancestorName of getAncestorTagNames(name)) {
+        parent = this.getOrCreate(ancestorName, parent?.color);
+      }
 
-    stmt.run(id, data.name, data.color ?? '#6366f1', now, now);
+      const id = uuidv4();
+      const now = new Date().toISOString();
+      db.prepare(`
+        INSERT INTO tags (id, name, color, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(id, name, data.color ?? parent?.color ?? DEFAULT_TAG_COLOR, now, now);
 
-    return this.getById(id)!;
+      return this.getById(id)!;
+    })();
   },
 
   getById(id: string): Tag | null {
@@ -40,7 +121,7 @@ export const tagService = {
   getByName(name: string): Tag | null {
     const db = getDatabase();
     const stmt = db.prepare('SELECT * FROM tags WHERE name = ?');
-    const row = stmt.get(name);
+    const row = stmt.get(normalizeTagName(name));
     return row ? rowToTag(row) : null;
   },
 
@@ -51,6 +132,13 @@ export const tagService = {
     return rows.map(rowToTag);
   },
 
+  // IDs of a tag and every tag nested under it
+  getSubtreeIds(id: string): string[] {
+    const db = getDatabase();
+    const rows = db.prepare(`${TAG_SUBTREE_SQL} WHERE p.id = ?`).all(id) as { id: string }[];
+    return rows.map(row => row.id);
+  },
+
   update(id: string, data: UpdateTagDTO): Tag | null {
     const db = getDatabase();
     const now = new Date().toISOString();
@@ -59,8 +147,7 @@ export const tagService = {
     const values: any[] = [];
 
     if (data.name !== undefined) {
-      updates.push('name = ?');
-      values.push(data.name);
+      this.renameSubtree(id, data.name);
     }
     if (data.color !== undefined) {
       updates.push('color = ?');
@@ -83,11 +170,113 @@ export const tagService = {
     return this.getById(id);
   },
 
+  // Renaming a tag renames the tags nested under it, so "work" → "job" turns
+  // "work/meetings" into "job/meetings". Missing parents of the new name are created.
+  renameSubtree(id: string, newName: string): void {
+    const db = getDatabase();
+    const tag = this.getById(id);
+    const name = normalizeTagName(newName);
+    if (!tag || !name || name === tag.name) return;
+    if (name.startsWith(tag.name + TAG_PATH_SEPARATOR)) {
+      throw new Error(`"${tag.name}" can't be moved inside itself`);
+    }
+
+    const subtreeIds = this.getSubtreeIds(id);
+    const renames = subtreeIds.map(subtreeId => {
+      const oldName = this.getById(subtreeId)!.name;
+      return { id: subtreeId, name: name + oldName.slice(tag.name.length) };
+    });
+    for (const rename of renames) {
+      const existing = this.getByName(rename.name);
+      if (existing && !subtreeIds.includes(existing.id)) {
+        throw new Error(`A tag named "${rename.name}" already exists`);
+      }
+    }
+
+    db.transaction(() => {
+      let parent: Tag | null = null;
+      for (const ancestorName of getAncestorTagNames(name)) {
+        parent = this.getOrCreate(ancestorName, parent?.color ?? tag.color);
+      }
+      const stmt = db.prepare('UPDATE tags SET name = ?, updated_at = ? WHERE id = ?');
+      const now = new Date().toISOString();
+      for (const rename of renames) {
+        stmt.run(rename.name, now, rename.id);
+      }
+    })();
+  },
+
+  // Move a tag's tasks to another tag and remove it. Nested tags move under
+  // the target, merging into any the target already has with the same name.
+  merge(sourceId: string, targetId: string): Tag | null {
+    const db = getDatabase();
+    const source = this.getById(sourceId);
+    const target = this.getById(targetId);
+    if (!source || !target || sourceId === targetId) {
+      return target;
+    }
+    if (this.getSubtreeIds(sourceId).includes(targetId)) {
+      throw new Error(`"${source.name}" can't be merged into a tag nested under it`);
+    }
+
+    db.transaction(() => {
+      const children = (db.prepare(`
+        SELECT * FROM tags
+        WHERE substr(name, 1, length(?) + 1) = ? || '${TAG_PATH_SEPARATOR}'
+          AND instr(substr(name, length(?) + 2), '${TAG_PATH_SEPARATOR}') = 0
+      `).all(source.name, source.name, source.name) as any[]).map(rowToTag);
+
+      for (const child of children) {
+        const childName = target.name + child.name.slice(source.name.length);
+        const existing = this.getByName(childName);
+        if (existing) {
+          this.merge(child.id, existing.id);
+        } else {
+          this.renameSubtree(child.id, childName);
+        }
+      }
+
+      db.prepare(`
+        INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at)
+        SELECT task_id, ?, created_at FROM task_tags WHERE tag_id = ?
+      `).run(targetId, sourceId);
+      db.prepare('DELETE FROM tags WHERE id = ?').run(sourceId);
+      replaceSavedFilterTags(new Map([[sourceId, targetId]]));
+    })();
+
+    return this.getById(targetId);
+  },
+
+  // Deleting a tag also deletes the tags nested under it, and takes them out of saved filters
   delete(id: string): boolean {
     const db = getDatabase();
-    const stmt = db.prepare('DELETE FROM tags WHERE id = ?');
-    const result = stmt.run(id);
-    return result.changes > 0;
+    const subtreeIds = this.getSubtreeIds(id);
+    return db.transaction(() => {
+      replaceSavedFilterTags(new Map(subtreeIds.map(tagId => [tagId, null])));
+      const stmt = db.prepare(`DELETE FROM tags WHERE id IN (${TAG_SUBTREE_SQL} WHERE p.id = ?)`);
+      return stmt.run(id).changes > 0;
+    })();
+  },
+
+  // IDs of the saved filters that include or exclude any of the tags
+  getSavedFilterIds(tagIds: string[]): string[] {
+    return getSavedFilters()
+      .filter(({ filter }) => SAVED_FILTER_TAG_FIELDS.some(field => filter[field]?.some(tagId => tagIds.includes(tagId))))
+      .map(({ id }) => id);
+  },
+
+  deleteMany(ids: string[]): number {
+    const db = getDatabase();
+    return db.transaction(() => ids.filter(id => this.delete(id)).length)();
+  },
+
+  // Number of tasks (including ones in the trash) using each tag directly
+  getUsageCounts(): Record<string, number> {
+    const db = getDatabase();
+    const rows = db.prepare(
+      'SELECT tag_id, COUNT(*) as count FROM task_tags GROUP BY tag_id'
+    ).all() as { tag_id: string; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.tag_id, row.count]));
   },
 
   // Get tags for a specific task
@@ -110,14 +299,36 @@ export const tagService = {
       INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at)
       VALUES (?, ?, ?)
     `);
-    stmt.run(taskId, tagId, new Date().toISOString());
+    const result = stmt.run(taskId, tagId, new Date().toISOString());
+    if (result.changes > 0) {
+      activityService.log(taskId, 'tag_added', { newValue: this.getById(tagId)?.name ?? null });
+    }
   },
 
   // Remove a tag from a task
   removeTagFromTask(taskId: string, tagId: string): void {
     const db = getDatabase();
     const stmt = db.prepare('DELETE FROM task_tags WHERE task_id = ? AND tag_id = ?');
-    stmt.run(taskId, tagId);
+    const result = stmt.run(taskId, tagId);
+    if (result.changes > 0) {
+      activityService.log(taskId, 'tag_removed', { oldValue: this.getById(tagId)?.name ?? null });
+    }
+  },
+
+  // Add a tag to several tasks in one transaction
+  addTagToTasks(taskIds: string[], tagId: string): void {
+    const db = getDatabase();
+    db.transaction(() => {
+      taskIds.forEach(taskId => this.addTagToTask(taskId, tagId));
+    })();
+  },
+
+  // Remove a tag from several tasks in one transaction
+  removeTagFromTasks(taskIds: string[], tagId: string): void {
+    const db = getDatabase();
+    db.transaction(() => {
+      taskIds.forEach(taskId => this.removeTagFromTask(taskId, tagId));
+    })();
   },
 
   // Get or create tag by name
@@ -136,6 +347,7 @@ function rowToTask(row: any): Task {
     title: row.title,
     description: row.description,
     notes: row.notes,
+    startDate: row.start_date ?? null,
     dueDate: row.due_date,
     dueTime: row.due_time,
     priority: row.priority,
@@ -144,35 +356,112 @@ function rowToTask(row: any): Task {
     position: row.position,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
-    recurrencePattern: row.recurrence_pattern || 'none',
-    recurrenceInterval: row.recurrence_interval || 1,
-    recurrenceWeekdays: row.recurrence_weekdays ? JSON.parse(row.recurrence_weekdays) : [],
-    recurrenceEndDate: row.recurrence_end_date,
+    recurrenceRule: row.recurrence_rule ?? null,
     regenerateMode: row.regenerate_mode || 'on_completion',
+    catchUpMode: row.catch_up_mode || 'strict',
+    deletedAt: row.deleted_at ?? null,
+    parentId: row.parent_id ?? null,
+    estimatedMinutes: row.estimated_minutes ?? null,
+    sectionId: row.section_id ?? null,
+    durationMinutes: row.duration_minutes ?? null,
   };
 }
 
+// bm25 column weights for task_search (task_id, title, description, notes, subtasks, tags)
+const SEARCH_RANK = 'bm25(task_search, 0, 10, 4, 2, 3, 5)';
+
+// Snippet columns of task_search, in the order they are preferred when several match
+const SNIPPET_FIELDS: { field: TaskSearchField; column: number }[] = [
+  { field: 'description', column: 2 },
+  { field: 'notes', column: 3 },
+  { field: 'subtasks', column: 4 },
+  { field: 'tags', column: 5 },
+];
+
+// Turn free text into an FTS5 query: every word must match as a prefix.
+// Words are quoted so user input can't be parsed as FTS operators.
+function toFtsQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .filter(term => /[\p{L}\p{N}]/u.test(term))
+    .map(term => `"${term.replace(/"/g, '""')}"*`);
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+// Condition matching tasks in any of the given lists (null = Inbox); adds its params
+function listCondition(listIds: (string | null)[], params: any[]): string {
+  const ids = listIds.filter((id): id is string => id !== null);
+  const parts: string[] = [];
+  if (ids.length > 0) {
+    parts.push(`(t.list_id IS NOT NULL AND t.list_id IN (${ids.map(() => '?').join(',')}))`);
+    params.push(...ids);
+  }
+  if (listIds.includes(null)) {
+    parts.push('t.list_id IS NULL');
+  }
+  return `(${parts.join(' OR ')})`;
+}
+
+// Use a boolean condition as-is or negated (conditions must not evaluate to NULL)
+function whenTrue(value: boolean, condition: string): string {
+  return value ? condition : `NOT ${condition}`;
+}
+
 // Search Service
 export const searchService = {
   searchTasks(filter: TaskFilter): Task[] {
     const db = getDatabase();
-    const conditions: string[] = [];
+    // Never search the trash
+    const conditions: string[] = ['t.deleted_at IS NULL'];
     const params: any[] = [];
 
-    // Text search
-    if (filter.searchQuery) {
-      conditions.push('(t.title LIKE ? OR t.description LIKE ? OR t.notes LIKE ?)');
-      const searchTerm = `%${filter.searchQuery}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
+    // Text search over the full-text index, ranked by relevance
+    const ftsQuery = filter.searchQuery ? toFtsQuery(filter.searchQuery) : null;
+    if (ftsQuery) {
+      conditions.push('task_search MATCH ?');
+      params.push(ftsQuery);
+    }
+
+    // Excluded words
+    for (const term of filter.excludeTerms ?? []) {
+      const excludeQuery = toFtsQuery(term);
+      if (excludeQuery) {
+        conditions.push('t.id NOT IN (SELECT task_id FROM task_search WHERE task_search MATCH ?)');
+        params.push(excludeQuery);
+      }
     }
 
-    // Tag filter
+    // Tag filter; a parent tag also matches the tags nested under it
     if (filter.tagIds && filter.tagIds.length > 0) {
-      const placeholders = filter.tagIds.map(() => '?').join(',');
-      conditions.push(`t.id IN (
-        SELECT DISTINCT task_id FROM task_tags WHERE tag_id IN (${placeholders})
+      if (filter.tagMatch === 'all') {
+        for (const tagId of filter.tagIds) {
+          conditions.push(`t.id IN (SELECT task_id FROM task_tags WHERE tag_id IN (${TAG_SUBTREE_SQL} WHERE p.id = ?))`);
+          params.push(tagId);
+        }
+      } else {
+        const placeholders = filter.tagIds.map(() => '?').join(',');
+        conditions.push(`t.id IN (
+          SELECT DISTINCT task_id FROM task_tags WHERE tag_id IN (${TAG_SUBTREE_SQL} WHERE p.id IN (${placeholders}))
+        )`);
+        params.push(...filter.tagIds);
+      }
+    }
+
+    if (filter.excludeTagIds && filter.excludeTagIds.length > 0) {
+      const placeholders = filter.excludeTagIds.map(() => '?').join(',');
+      conditions.push(`t.id NOT IN (
+        SELECT task_id FROM task_tags WHERE tag_id IN (${TAG_SUBTREE_SQL} WHERE p.id IN (${placeholders}))
       )`);
-      params.push(...filter.tagIds);
+      params.push(...filter.excludeTagIds);
+    }
+
+    // List filter (null = Inbox)
+    if (filter.listIds && filter.listIds.length > 0) {
+      conditions.push(listCondition(filter.listIds, params));
+    }
+
+    if (filter.excludeListIds && filter.excludeListIds.length > 0) {
+      conditions.push(`NOT ${listCondition(filter.excludeListIds, params)}`);
     }
 
     // Priority filter
@@ -182,26 +471,106 @@ export const searchService = {
       params.push(...filter.priorities);
     }
 
+    if (filter.excludePriorities && filter.excludePriorities.length > 0) {
+      const placeholders = filter.excludePriorities.map(() => '?').join(',');
+      conditions.push(`t.priority NOT IN (${placeholders})`);
+      params.push(...filter.excludePriorities);
+    }
+
     // Date range filter
     if (filter.dateRange) {
       conditions.push('t.due_date >= ? AND t.due_date <= ?');
       params.push(filter.dateRange.start, filter.dateRange.end);
     }
 
+    if (filter.dueBefore) {
+      conditions.push('t.due_date < ?');
+      params.push(filter.dueBefore);
+    }
+
+    if (filter.dueAfter) {
+      conditions.push('t.due_date > ?');
+      params.push(filter.dueAfter);
+    }
+
     // Completed filter
     if (filter.completed !== undefined) {
       conditions.push('t.completed = ?');
       params.push(filter.completed ? 1 : 0);
     }
 
-    let sql = 'SELECT t.* FROM tasks t';
+    if (filter.overdue !== undefined) {
+      conditions.push(whenTrue(filter.overdue, '(t.completed = 0 AND t.due_date IS NOT NULL AND t.due_date < ?)'));
+      params.push(new Date().toISOString().split('T')[0]);
+    }
+
+    if (filter.recurring !== undefined) {
+      conditions.push(whenTrue(filter.recurring, '(t.recurrence_rule IS NOT NULL)'));
+    }
+
+    // Presence filters
+    if (filter.hasSubtasks !== undefined) {
+      conditions.push(whenTrue(filter.hasSubtasks, 'EXISTS (SELECT 1 FROM tasks c WHERE c.parent_id = t.id AND c.deleted_at IS NULL)'));
+    }
+
+    if (filter.hasDueDate !== undefined) {
+      conditions.push(whenTrue(filter.hasDueDate, '(t.due_date IS NOT NULL)'));
+    }
+
+    if (filter.hasReminder !== undefined) {
+      conditions.push(whenTrue(filter.hasReminder, 'EXISTS (SELECT 1 FROM reminders r WHERE r.task_id = t.id)'));
+    }
+
+    if (filter.hasTags !== undefined) {
+      conditions.push(whenTrue(filter.hasTags, 'EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id)'));
+    }
+
+    let sql = ftsQuery
+      ? 'SELECT t.* FROM task_search JOIN tasks t ON t.id = task_search.task_id'
+      : 'SELECT t.* FROM tasks t';
     if (conditions.length > 0) {
       sql += ' WHERE ' + conditions.join(' AND ');
     }
-    sql += ' ORDER BY t.position ASC';
+    sql += ftsQuery ? ` ORDER BY ${SEARCH_RANK}` : ' ORDER BY t.position ASC';
 
     const stmt = db.prepare(sql);
     const rows = stmt.all(...params);
     return rows.map(rowToTask);
   },
+
+  // Best matching tasks for a free-text query with highlighted title and snippet
+  searchText(query: string, limit = 8): TaskSearchResult[] {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const db = getDatabase();
+    const markers = [SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END];
+    const snippetColumns = SNIPPET_FIELDS
+      .map(({ field, column }) => `snippet(task_search, ${column}, ?, ?, '…', 12) AS ${field}_snippet`)
+      .join(',\n        ');
+
+    const rows = db.prepare(`
+      SELECT t.*,
+        highlight(task_search, 1, ?, ?) AS title_highlight,
+        ${snippetColumns}
+      FROM task_search
+      JOIN tasks t ON t.id = task_search.task_id
+      WHERE task_search MATCH ? AND t.deleted_at IS NULL
+      ORDER BY ${SEARCH_RANK}
+      LIMIT ?
+    `).all(...markers, ...SNIPPET_FIELDS.flatMap(() => markers), ftsQuery, limit) as any[];
+
+    return rows.map(row => {
+      // snippet() returns leading text even for columns without a hit, so pick the first one with a highlight
+      const hit = SNIPPET_FIELDS.find(({ field }) => String(row[`${field}_snippet`]).includes(SEARCH_HIGHLIGHT_START));
+      const titleMatched = String(row.title_highlight).includes(SEARCH_HIGHLIGHT_START);
+
+      return {
+        task: rowToTask(row),
+        titleHighlight: row.title_highlight,
+        snippet: hit ? row[`${hit.field}_snippet`] : null,
+        matchedIn: titleMatched || !hit ? 'title' : hit.field,
+      };
+    });
+  },
 };
@@ -1,16 +1,14 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from './database';
+import { activityService } from './activityService';
+import { settingsService } from './settingsService';
 import type {
   Task,
-  Subtask,
   TaskWithSubtasks,
+  TaskProgress,
   CreateTaskDTO,
   UpdateTaskDTO,
-  CreateSubtaskDTO,
-  UpdateSubtaskDTO,
   SmartListId,
-  Weekday,
-  RecurrencePattern,
   RegenerateMode,
 } from '../shared/types';
 
@@ -22,6 +20,7 @@ function rowToTask(row: any): Task {
     title: row.title,
     description: row.description,
     notes: row.notes,
+    startDate: row.start_date ?? null,
     dueDate: row.due_date,
     dueTime: row.due_time,
     priority: row.priority,
@@ -30,24 +29,85 @@ function rowToTask(row: any): Task {
     position: row.position,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
-    recurrencePattern: row.recurrence_pattern || 'none',
-    recurrenceInterval: row.recurrence_interval || 1,
-    recurrenceWeekdays: row.recurrence_weekdays ? JSON.parse(row.recurrence_weekdays) : [],
-    recurrenceEndDate: row.recurrence_end_date,
+    recurrenceRule: row.recurrence_rule ?? null,
     regenerateMode: row.regenerate_mode || 'on_completion',
+    catchUpMode: row.catch_up_mode || 'strict',
+    deletedAt: row.deleted_at ?? null,
+    parentId: row.parent_id ?? null,
+    estimatedMinutes: row.estimated_minutes ?? null,
+    sectionId: row.section_id ?? null,
+    durationMinutes: row.duration_minutes ?? null,
   };
 }
 
-function rowToSubtask(row: any): Subtask {
-  return {
-    id: row.id,
-    taskId: row.task_id,
-    title: row.title,
-    completed: Boolean(row.completed),
-    position: row.position,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+// IDs of a task (bound as the single parameter) and all of its descendants
+export const TASK_TREE_SQL = `WITH RECURSIVE tree(id) AS (
+  SELECT ?
+  UNION
+  SELECT c.id FROM tasks c JOIN tree ON c.parent_id = tree.id
+) SELECT id FROM tree`;
+
+// SQL condition: the task aliased `t` waits on a blocker that is still open
+export const HAS_OPEN_BLOCKER_SQL = `EXISTS (
+  SELECT 1 FROM task_dependencies d
+  JOIN tasks b ON b.id = d.depends_on_id
+  WHERE d.task_id = t.id AND b.completed = 0 AND b.deleted_at IS NULL
+)`;
+
+// SQL condition: the task has no start date, or it has arrived (bound as the single parameter)
+const STARTED_SQL = '(start_date IS NULL OR start_date <= ?)';
+
+// Fields whose edits are recorded in the activity history with their values
+const TRACKED_TASK_FIELDS = ['title', 'startDate', 'dueDate', 'dueTime', 'priority', 'recurrenceRule'] as const;
+
+// Long text fields are recorded as edited without storing the text
+const TRACKED_TEXT_FIELDS = ['description', 'notes'] as const;
+
+// Write activity entries for the fields an update actually changed
+function logTaskChanges(before: Task, data: UpdateTaskDTO): void {
+  for (const field of TRACKED_TASK_FIELDS) {
+    const value = data[field];
+    if (value !== undefined && value !== before[field]) {
+      activityService.log(before.id, 'updated', {
+        field,
+        oldValue: before[field],
+        newValue: value,
+      });
+    }
+  }
+
+  for (const field of TRACKED_TEXT_FIELDS) {
+    if (data[field] !== undefined && data[field] !== before[field]) {
+      activityService.log(before.id, 'updated', { field });
+    }
+  }
+
+  if (data.listId !== undefined && data.listId !== before.listId) {
+    activityService.log(before.id, 'moved', { oldValue: before.listId, newValue: data.listId });
+  }
+
+  if (data.completed !== undefined && data.completed !== before.completed) {
+    activityService.log(before.id, data.completed ? 'completed' : 'reopened');
+  }
+
+  // Child tasks also show up in their parent's history, like the old checklist subtasks
+  if (before.parentId) {
+    if (data.title !== undefined && data.title !== before.title) {
+      activityService.log(before.parentId, 'subtask_renamed', { oldValue: before.title, newValue: data.title });
+    }
+    if (data.completed !== undefined && data.completed !== before.completed) {
+      activityService.log(before.parentId, data.completed ? 'subtask_completed' : 'subtask_reopened', {
+        newValue: data.title ?? before.title,
+      });
+    }
+  }
+}
+
+// Move a YYYY-MM-DD date (or the date part of a timestamp) by whole days
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(date.split('T')[0]);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
 }
 
 // Task Service
@@ -57,37 +117,50 @@ export const taskService = {
     const id = uuidv4();
     const now = new Date().toISOString();
 
-    // Get the max position for tasks in the same list
-    const maxPosStmt = db.prepare(
-      'SELECT COALESCE(MAX(position), -1) as maxPos FROM tasks WHERE list_id IS ?'
-    );
-    const maxPosResult = maxPosStmt.get(data.listId ?? null) as { maxPos: number };
+    // Child tasks always live in their parent's list and section
+    const parent = data.parentId ? this.getById(data.parentId) : null;
+    const listId = parent ? parent.listId : data.listId ?? null;
+    const sectionId = parent ? parent.sectionId : data.sectionId ?? null;
+
+    // Get the max position for tasks in the same list, or among the parent's children
+    const maxPosStmt = parent
+      ? db.prepare('SELECT COALESCE(MAX(position), -1) as maxPos FROM tasks WHERE parent_id = ?')
+      : db.prepare('SELECT COALESCE(MAX(position), -1) as maxPos FROM tasks WHERE list_id IS ?');
+    const maxPosResult = maxPosStmt.get(parent ? parent.id : listId) as { maxPos: number };
     const position = maxPosResult.maxPos + 1;
 
     const stmt = db.prepare(`
-      INSERT INTO tasks (id, list_id, title, description, notes, due_date, due_time, priority, position, created_at, updated_at, recurrence_pattern, recurrence_interval, recurrence_weekdays, recurrence_end_date, regenerate_mode)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO tasks (id, list_id, section_id, parent_id, title, description, notes, start_date, due_date, due_time, priority, estimated_minutes, duration_minutes, position, created_at, updated_at, recurrence_rule, regenerate_mode, catch_up_mode)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
       id,
-      data.listId ?? null,
+      listId,
+      sectionId,
+      parent?.id ?? null,
       data.title,
       data.description ?? '',
       data.notes ?? '',
+      data.startDate ?? null,
       data.dueDate ?? null,
       data.dueTime ?? null,
       data.priority ?? 'none',
+      data.estimatedMinutes ?? null,
+      data.durationMinutes ?? null,
       position,
       now,
       now,
-      data.recurrencePattern ?? 'none',
-      data.recurrenceInterval ?? 1,
-      JSON.stringify(data.recurrenceWeekdays ?? []),
-      data.recurrenceEndDate ?? null,
-      data.regenerateMode ?? 'on_completion'
+      data.recurrenceRule ?? null,
+      data.regenerateMode ?? 'on_completion',
+      data.catchUpMode ?? 'strict'
     );
 
+    activityService.log(id, 'created');
+    if (parent) {
+      activityService.log(parent.id, 'subtask_added', { newValue: data.title });
+    }
+
     return this.getById(id)!;
   },
 
@@ -102,11 +175,43 @@ export const taskService = {
     const task = this.getById(id);
     if (!task) return null;
 
-    const subtasks = subtaskService.getByTaskId(id);
+    const subtasks = this.getChildren(id);
     const tags = this.getTagsForTask(id);
     return { ...task, subtasks, tags };
   },
 
+  getChildren(parentId: string): Task[] {
+    const db = getDatabase();
+    const stmt = db.prepare(
+      'SELECT * FROM tasks WHERE parent_id = ? AND deleted_at IS NULL ORDER BY position ASC'
+    );
+    return stmt.all(parentId).map(rowToTask);
+  },
+
+  // Completed and total descendants of every task that has children
+  getProgress(): Record<string, TaskProgress> {
+    const db = getDatabase();
+    const rows = db.prepare(`
+      WITH RECURSIVE descendants(root_id, id, completed) AS (
+        SELECT c.parent_id, c.id, c.completed FROM tasks c
+        WHERE c.parent_id IS NOT NULL AND c.deleted_at IS NULL
+        UNION ALL
+        SELECT d.root_id, c.id, c.completed FROM tasks c
+        JOIN descendants d ON c.parent_id = d.id
+        WHERE c.deleted_at IS NULL
+      )
+      SELECT root_id, COUNT(*) as total, SUM(completed) as completed
+      FROM descendants
+      GROUP BY root_id
+    `).all() as { root_id: string; total: number; completed: number }[];
+
+    const progress: Record<string, TaskProgress> = {};
+    for (const row of rows) {
+      progress[row.root_id] = { completed: row.completed, total: row.total };
+    }
+    return progress;
+  },
+
   getTagsForTask(taskId: string): import('../shared/types').Tag[] {
     const db = getDatabase();
     const stmt = db.prepare(`
@@ -127,7 +232,7 @@ export const taskService = {
 
   getAll(): Task[] {
     const db = getDatabase();
-    const stmt = db.prepare('SELECT * FROM tasks ORDER BY position ASC');
+    const stmt = db.prepare('SELECT * FROM tasks WHERE deleted_at IS NULL ORDER BY position ASC');
     const rows = stmt.all();
     return rows.map(rowToTask);
   },
@@ -135,7 +240,7 @@ export const taskService = {
   getByListId(listId: string | null): Task[] {
     const db = getDatabase();
     const stmt = db.prepare(
-      'SELECT * FROM tasks WHERE list_id IS ? ORDER BY position ASC'
+      'SELECT * FROM tasks WHERE list_id IS ? AND deleted_at IS NULL ORDER BY position ASC'
     );
     const rows = stmt.all(listId);
     return rows.map(rowToTask);
@@ -146,37 +251,45 @@ export const taskService = {
     const today = new Date().toISOString().split('T')[0];
     const tomorrow = new Date(Date.now() + 86400000).toISOString().split('T')[0];
     const weekFromNow = new Date(Date.now() + 7 * 86400000).toISOString().split('T')[0];
+    // Today and Next 7 Days can leave out tasks that are still waiting on other tasks
+    const hideBlocked = settingsService.get().hideBlockedTasks ? ` AND NOT ${HAS_OPEN_BLOCKER_SQL}` : '';
 
     let stmt;
     switch (smartListId) {
+      // Inbox, Today and All leave out deferred tasks until their start date
       case 'inbox':
         stmt = db.prepare(
-          'SELECT * FROM tasks WHERE list_id IS NULL AND completed = 0 ORDER BY position ASC'
+          `SELECT * FROM tasks WHERE list_id IS NULL AND completed = 0 AND deleted_at IS NULL AND ${STARTED_SQL} ORDER BY position ASC`
         );
-        break;
+        return stmt.all(today).map(rowToTask);
       case 'today':
         stmt = db.prepare(
-          'SELECT * FROM tasks WHERE due_date = ? AND completed = 0 ORDER BY position ASC'
+          `SELECT * FROM tasks t WHERE due_date = ? AND completed = 0 AND deleted_at IS NULL AND ${STARTED_SQL}${hideBlocked} ORDER BY position ASC`
         );
-        return stmt.all(today).map(rowToTask);
+        return stmt.all(today, today).map(rowToTask);
       case 'tomorrow':
         stmt = db.prepare(
-          'SELECT * FROM tasks WHERE due_date = ? AND completed = 0 ORDER BY position ASC'
+          'SELECT * FROM tasks WHERE due_date = ? AND completed = 0 AND deleted_at IS NULL ORDER BY position ASC'
         );
         return stmt.all(tomorrow).map(rowToTask);
       case 'week':
         stmt = db.prepare(
-          'SELECT * FROM tasks WHERE due_date >= ? AND due_date <= ? AND completed = 0 ORDER BY due_date ASC, position ASC'
+          `SELECT * FROM tasks t WHERE due_date >= ? AND due_date <= ? AND completed = 0 AND deleted_at IS NULL${hideBlocked} ORDER BY due_date ASC, position ASC`
         );
         return stmt.all(today, weekFromNow).map(rowToTask);
       case 'all':
         stmt = db.prepare(
-          'SELECT * FROM tasks WHERE completed = 0 ORDER BY position ASC'
+          `SELECT * FROM tasks WHERE completed = 0 AND deleted_at IS NULL AND ${STARTED_SQL} ORDER BY position ASC`
         );
-        break;
+        return stmt.all(today).map(rowToTask);
       case 'completed':
         stmt = db.prepare(
-          'SELECT * FROM tasks WHERE completed = 1 ORDER BY completed_at DESC'
+          'SELECT * FROM tasks WHERE completed = 1 AND deleted_at IS NULL ORDER BY completed_at DESC'
+        );
+        break;
+      case 'trash':
+        stmt = db.prepare(
+          'SELECT * FROM tasks WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
         );
         break;
       default:
@@ -189,6 +302,7 @@ export const taskService = {
   update(id: string, data: UpdateTaskDTO): Task | null {
     const db = getDatabase();
     const now = new Date().toISOString();
+    const before = this.getById(id);
 
     const updates: string[] = [];
     const values: any[] = [];
@@ -197,6 +311,13 @@ export const taskService = {
       updates.push('list_id = ?');
       values.push(data.listId);
     }
+    // Sections belong to a list, so moving to another list leaves the old section
+    const listChanged = data.listId !== undefined && before !== null && data.listId !== before.listId;
+    const sectionId = data.sectionId !== undefined ? data.sectionId : listChanged ? null : undefined;
+    if (sectionId !== undefined) {
+      updates.push('section_id = ?');
+      values.push(sectionId);
+    }
     if (data.title !== undefined) {
       updates.push('title = ?');
       values.push(data.title);
@@ -209,6 +330,10 @@ export const taskService = {
       updates.push('notes = ?');
       values.push(data.notes);
     }
+    if (data.startDate !== undefined) {
+      updates.push('start_date = ?');
+      values.push(data.startDate);
+    }
     if (data.dueDate !== undefined) {
       updates.push('due_date = ?');
       values.push(data.dueDate);
@@ -221,6 +346,14 @@ export const taskService = {
       updates.push('priority = ?');
       values.push(data.priority);
     }
+    if (data.estimatedMinutes !== undefined) {
+      updates.push('estimated_minutes = ?');
+      values.push(data.estimatedMinutes);
+    }
+    if (data.durationMinutes !== undefined) {
+      updates.push('duration_minutes = ?');
+      values.push(data.durationMinutes);
+    }
     if (data.completed !== undefined) {
       updates.push('completed = ?');
       values.push(data.completed ? 1 : 0);
@@ -236,29 +369,21 @@ export const taskService = {
       updates.push('position = ?');
       values.push(data.position);
     }
-    if (data.recurrencePattern !== undefined) {
-      updates.push('recurrence_pattern = ?');
-      values.push(data.recurrencePattern);
-    }
-    if (data.recurrenceInterval !== undefined) {
-      updates.push('recurrence_interval = ?');
-      values.push(data.recurrenceInterval);
-    }
-    if (data.recurrenceWeekdays !== undefined) {
-      updates.push('recurrence_weekdays = ?');
-      values.push(JSON.stringify(data.recurrenceWeekdays));
-    }
-    if (data.recurrenceEndDate !== undefined) {
-      updates.push('recurrence_end_date = ?');
-      values.push(data.recurrenceEndDate);
+    if (data.recurrenceRule !== undefined) {
+      updates.push('recurrence_rule = ?');
+      values.push(data.recurrenceRule);
     }
     if (data.regenerateMode !== undefined) {
       updates.push('regenerate_mode = ?');
       values.push(data.regenerateMode);
     }
+    if (data.catchUpMode !== undefined) {
+      updates.push('catch_up_mode = ?');
+      values.push(data.catchUpMode);
+    }
 
     if (updates.length === 0) {
-      return this.getById(id);
+      return before;
     }
 
     updates.push('updated_at = ?');
@@ -268,127 +393,160 @@ export const taskService = {
     const stmt = db.prepare(
       `UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`
     );
-    stmt.run(...values);
+
+    const transaction = db.transaction(() => {
+      stmt.run(...values);
+
+      if (data.listId !== undefined && before) {
+        // A child moved to another list leaves its parent; descendants follow the task
+        const parent = before.parentId ? this.getById(before.parentId) : null;
+        if (parent && parent.listId !== data.listId) {
+          db.prepare('UPDATE tasks SET parent_id = NULL WHERE id = ?').run(id);
+        }
+        db.prepare(
+          `UPDATE tasks SET list_id = ?, updated_at = ? WHERE id IN (${TASK_TREE_SQL}) AND id != ?`
+        ).run(data.listId, now, id, id);
+      }
+
+      // Descendants follow the task into its section
+      if (sectionId !== undefined) {
+        db.prepare(
+          `UPDATE tasks SET section_id = ?, updated_at = ? WHERE id IN (${TASK_TREE_SQL}) AND id != ?`
+        ).run(sectionId, now, id, id);
+      }
+
+      // Completing a task completes everything nested under it
+      if (data.completed === true) {
+        db.prepare(
+          `UPDATE tasks SET completed = 1, completed_at = ?, updated_at = ? WHERE id IN (${TASK_TREE_SQL}) AND completed = 0`
+        ).run(now, now, id);
+      }
+    });
+    transaction();
+
+    if (before) {
+      logTaskChanges(before, data);
+    }
 
     return this.getById(id);
   },
 
+  // Move a task and its descendants to the trash. Tags and reminders stay attached so they can be restored.
   delete(id: string): boolean {
     const db = getDatabase();
-    const stmt = db.prepare('DELETE FROM tasks WHERE id = ?');
-    const result = stmt.run(id);
+    const now = new Date().toISOString();
+    const task = this.getById(id);
+    const stmt = db.prepare(
+      `UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE id IN (${TASK_TREE_SQL}) AND deleted_at IS NULL`
+    );
+    const result = stmt.run(now, now, id);
+    if (task?.parentId && result.changes > 0) {
+      activityService.log(task.parentId, 'subtask_deleted', { oldValue: task.title });
+    }
     return result.changes > 0;
   },
 
-  reorder(taskIds: string[]): void {
+  // Nest a task under the sibling right above it
+  indent(id: string): Task | null {
     const db = getDatabase();
-    const stmt = db.prepare('UPDATE tasks SET position = ?, updated_at = ? WHERE id = ?');
-    const now = new Date().toISOString();
+    const task = this.getById(id);
+    if (!task) return null;
 
-    const transaction = db.transaction(() => {
-      taskIds.forEach((id, index) => {
-        stmt.run(index, now, id);
-      });
-    });
+    const sibling = db.prepare(`
+      SELECT * FROM tasks
+      WHERE parent_id IS ? AND list_id IS ? AND deleted_at IS NULL AND position < ?
+      ORDER BY position DESC LIMIT 1
+    `).get(task.parentId, task.listId, task.position);
+    if (!sibling) return null;
 
-    transaction();
-  },
-};
+    const newParent = rowToTask(sibling);
+    const maxPosResult = db.prepare(
+      'SELECT COALESCE(MAX(position), -1) as maxPos FROM tasks WHERE parent_id = ?'
+    ).get(newParent.id) as { maxPos: number };
 
-// Subtask Service
-export const subtaskService = {
-  create(data: CreateSubtaskDTO): Subtask {
-    const db = getDatabase();
-    const id = uuidv4();
     const now = new Date().toISOString();
+    const transaction = db.transaction(() => {
+      db.prepare('UPDATE tasks SET parent_id = ?, position = ?, updated_at = ? WHERE id = ?')
+        .run(newParent.id, maxPosResult.maxPos + 1, now, id);
+      // The task and its descendants join the new parent's section
+      db.prepare(`UPDATE tasks SET section_id = ? WHERE id IN (${TASK_TREE_SQL})`).run(newParent.sectionId, id);
+    });
+    transaction();
+    activityService.log(newParent.id, 'subtask_added', { newValue: task.title });
 
-    // Get the max position for subtasks of this task
-    const maxPosStmt = db.prepare(
-      'SELECT COALESCE(MAX(position), -1) as maxPos FROM subtasks WHERE task_id = ?'
-    );
-    const maxPosResult = maxPosStmt.get(data.taskId) as { maxPos: number };
-    const position = maxPosResult.maxPos + 1;
-
-    const stmt = db.prepare(`
-      INSERT INTO subtasks (id, task_id, title, position, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-
-    stmt.run(id, data.taskId, data.title, position, now, now);
-
-    return this.getById(id)!;
+    return this.getById(id);
   },
 
-  getById(id: string): Subtask | null {
+  // Move a task out of its parent, right after the parent
+  outdent(id: string): Task | null {
     const db = getDatabase();
-    const stmt = db.prepare('SELECT * FROM subtasks WHERE id = ?');
-    const row = stmt.get(id);
-    return row ? rowToSubtask(row) : null;
-  },
+    const task = this.getById(id);
+    const parent = task?.parentId ? this.getById(task.parentId) : null;
+    if (!task || !parent) return null;
 
-  getByTaskId(taskId: string): Subtask[] {
-    const db = getDatabase();
-    const stmt = db.prepare(
-      'SELECT * FROM subtasks WHERE task_id = ? ORDER BY position ASC'
-    );
-    const rows = stmt.all(taskId);
-    return rows.map(rowToSubtask);
+    const now = new Date().toISOString();
+    const transaction = db.transaction(() => {
+      // Make room after the parent among its siblings
+      db.prepare(`
+        UPDATE tasks SET position = position + 1, updated_at = ?
+        WHERE parent_id IS ? AND list_id IS ? AND position > ?
+      `).run(now, parent.parentId, parent.listId, parent.position);
+      db.prepare('UPDATE tasks SET parent_id = ?, position = ?, updated_at = ? WHERE id = ?')
+        .run(parent.parentId, parent.position + 1, now, id);
+    });
+    transaction();
+
+    return this.getById(id);
   },
 
-  update(id: string, data: UpdateSubtaskDTO): Subtask | null {
+  reorder(taskIds: string[]): void {
     const db = getDatabase();
+    const stmt = db.prepare('UPDATE tasks SET position = ?, updated_at = ? WHERE id = ?');
     const now = new Date().toISOString();
 
-    const updates: string[] = [];
-    const values: any[] = [];
-
-    if (data.title !== undefined) {
-      updates.push('title = ?');
-      values.push(data.title);
-    }
-    if (data.completed !== undefined) {
-      updates.push('completed = ?');
-      values.push(data.completed ? 1 : 0);
-    }
-    if (data.position !== undefined) {
-      updates.push('position = ?');
-      values.push(data.position);
-    }
-
-    if (updates.length === 0) {
-      return this.getById(id);
-    }
+    const transaction = db.transaction(() => {
+      taskIds.forEach((id, index) => {
+        stmt.run(index, now, id);
+      });
+    });
 
-    updates.push('updated_at = ?');
-    values.push(now);
-    values.push(id);
+    transaction();
+  },
 
-    const stmt = db.prepare(
-      `UPDATE subtasks SET ${updates.join(', ')} WHERE id = ?`
+  // Apply the same update to several tasks in one transaction
+  updateMany(ids: string[], data: UpdateTaskDTO): Task[] {
+    const db = getDatabase();
+    const transaction = db.transaction(() =>
+      ids.map(id => this.update(id, data)).filter((task): task is Task => task !== null)
     );
-    stmt.run(...values);
-
-    return this.getById(id);
+    return transaction();
   },
 
-  delete(id: string): boolean {
+  // Move several tasks to the trash in one transaction
+  deleteMany(ids: string[]): number {
     const db = getDatabase();
-    const stmt = db.prepare('DELETE FROM subtasks WHERE id = ?');
-    const result = stmt.run(id);
-    return result.changes > 0;
+    const transaction = db.transaction(() => ids.filter(id => this.delete(id)).length);
+    return transaction();
   },
 
-  reorder(subtaskIds: string[]): void {
+  // Move the start and due dates of several tasks by a number of days (negative moves them earlier).
+  // Tasks without either date are left alone.
+  shiftDates(ids: string[], days: number): Task[] {
     const db = getDatabase();
-    const stmt = db.prepare('UPDATE subtasks SET position = ?, updated_at = ? WHERE id = ?');
-    const now = new Date().toISOString();
-
     const transaction = db.transaction(() => {
-      subtaskIds.forEach((id, index) => {
-        stmt.run(index, now, id);
-      });
+      const shifted: Task[] = [];
+      for (const id of ids) {
+        const task = this.getById(id);
+        if (!task || (!task.startDate && !task.dueDate)) continue;
+
+        const updated = this.update(id, {
+          ...(task.startDate ? { startDate: shiftDate(task.startDate, days) } : {}),
+          ...(task.dueDate ? { dueDate: shiftDate(task.dueDate, days) } : {}),
+        });
+        if (updated) shifted.push(updated);
+      }
+      return shifted;
     });
-
-    transaction();
+    return transaction();
   },
 };
@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './database';
+import { taskService } from './taskService';
+import { tagService } from './tagService';
+import { reminderService } from './reminderService';
+import { formatDateKey } from '../shared/dates';
+import type { Task, TaskTemplate, TemplateTask, InstantiateTemplateOptions } from '../shared/types';
+
+const DAY_MS = 86400000;
+
+// Today's local date as YYYY-MM-DD, like the dates the renderer picks
+function todayKey(): string {
+  return formatDateKey(new Date());
+}
+
+// Whole days from today to a YYYY-MM-DD date (negative in the past)
+function daysFromToday(date: string | null): number | null {
+  if (!date) return null;
+  return Math.round((new Date(date.split('T')[0]).getTime() - new Date(todayKey()).getTime()) / DAY_MS);
+}
+
+// YYYY-MM-DD date a number of days after today
+function dateAfterToday(days: number | null): string | null {
+  if (days === null) return null;
+  const date = new Date(todayKey());
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// Local midnight today, the anchor for reminder offsets
+function startOfToday(): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+// Capture a task and its open children, tags and pending reminders
+function captureTask(task: Task): TemplateTask {
+  const midnight = startOfToday().getTime();
+  const reminders = reminderService.getByTaskId(task.id).filter(reminder => !reminder.triggered);
+
+  return {
+    title: task.title,
+    description: task.description,
+    notes: task.notes,
+    priority: task.priority,
+    estimatedMinutes: task.estimatedMinutes,
+    tags: taskService.getTagsForTask(task.id).map(tag => tag.name),
+    startOffsetDays: daysFromToday(task.startDate),
+    dueOffsetDays: daysFromToday(task.dueDate),
+    dueTime: task.dueTime,
+    durationMinutes: task.durationMinutes,
+    reminderOffsetMinutes: reminders.map(reminder =>
+      Math.round((new Date(reminder.reminderTime).getTime() - midnight) / 60000)
+    ),
+    subtasks: taskService.getChildren(task.id).map(captureTask),
+  };
+}
+
+// Create a task (and its subtasks) from a template entry
+function createFromTemplate(
+  template: TemplateTask,
+  placement: { listId?: string | null; parentId?: string | null },
+  overrides: InstantiateTemplateOptions = {}
+): Task {
+  const task = taskService.create({
+    ...placement,
+    title: template.title,
+    description: template.description,
+    notes: template.notes,
+    priority: overrides.priority ?? template.priority,
+    estimatedMinutes: template.estimatedMinutes,
+    startDate: dateAfterToday(template.startOffsetDays),
+    dueDate: overrides.dueDate !== undefined ? overrides.dueDate : dateAfterToday(template.dueOffsetDays),
+    dueTime: template.dueTime,
+    durationMinutes: template.durationMinutes ?? null,
+  });
+
+  for (const name of template.tags) {
+    tagService.addTagToTask(task.id, tagService.getOrCreate(name).id);
+  }
+
+  // Reminders that would already be in the past are dropped
+  const midnight = startOfToday().getTime();
+  for (const offset of template.reminderOffsetMinutes) {
+    const reminderTime = new Date(midnight + offset * 60000);
+    if (reminderTime.getTime() > Date.now()) {
+      reminderService.create({ taskId: task.id, reminderTime: reminderTime.toISOString() });
+    }
+  }
+
+  for (const subtask of template.subtasks) {
+    createFromTemplate(subtask, { parentId: task.id });
+  }
+
+  return task;
+}
+
+// Helper to convert DB row to TaskTemplate object
+function rowToTemplate(row: any): TaskTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    task: JSON.parse(row.task),
+    position: row.position,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Task Template Service
+export const templateService = {
+  // Save a task and everything nested under it as a template
+  createFromTask(taskId: string, name: string): TaskTemplate {
+    const db = getDatabase();
+    const task = taskService.getById(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const maxPosResult = db.prepare(
+      'SELECT COALESCE(MAX(position), -1) as maxPos FROM task_templates'
+    ).get() as { maxPos: number };
+
+    db.prepare(`
+      INSERT INTO task_templates (id, name, task, position, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, name.trim() || task.title, JSON.stringify(captureTask(task)), maxPosResult.maxPos + 1, now, now);
+
+    return this.getById(id)!;
+  },
+
+  getById(id: string): TaskTemplate | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM task_templates WHERE id = ?').get(id);
+    return row ? rowToTemplate(row) : null;
+  },
+
+  getAll(): TaskTemplate[] {
+    const db = getDatabase();
+    const rows = db.prepare('SELECT * FROM task_templates ORDER BY position ASC').all();
+    return rows.map(rowToTemplate);
+  },
+
+  rename(id: string, name: string): TaskTemplate | null {
+    const db = getDatabase();
+    db.prepare('UPDATE task_templates SET name = ?, updated_at = ? WHERE id = ?').run(
+      name,
+      new Date().toISOString(),
+      id
+    );
+    return this.getById(id);
+  },
+
+  delete(id: string): boolean {
+    const db = getDatabase();
+    const result = db.prepare('DELETE FROM task_templates WHERE id = ?').run(id);
+    return result.changes > 0;
+  },
+
+  // Create the template's tasks, with dates counted from today
+  instantiate(id: string, options: InstantiateTemplateOptions = {}): Task {
+    const db = getDatabase();
+    const template = this.getById(id);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return db.transaction(() =>
+      createFromTemplate(template.task, { listId: options.listId ?? null }, options)
+    )();
+  },
+};
@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './database';
+import type { TimeEntry, TaskTimeSummary } from '../shared/types';
+
+// SQL expression: minutes spent on the task aliased `t`, from stopped
+// time entries plus completed pomodoro sessions linked to it
+export const TASK_ACTUAL_MINUTES_SQL = `(
+  COALESCE((SELECT SUM(e.minutes) FROM time_entries e WHERE e.task_id = t.id AND e.ended_at IS NOT NULL), 0) +
+  COALESCE((SELECT SUM(ps.actual_minutes) FROM pomodoro_sessions ps WHERE ps.task_id = t.id AND ps.status = 'completed'), 0)
+)`;
+
+// Helper to convert DB row to TimeEntry object
+function rowToTimeEntry(row: any): TimeEntry {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    minutes: row.minutes,
+    createdAt: row.created_at,
+  };
+}
+
+// Time Entry Service
+export const timeEntryService = {
+  // Start tracking a task. Only one tracker runs at a time, so any other is stopped first.
+  start(taskId: string): TimeEntry {
+    const db = getDatabase();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      this.stop();
+      db.prepare(`
+        INSERT INTO time_entries (id, task_id, started_at, ended_at, minutes, created_at)
+        VALUES (?, ?, ?, NULL, 0, ?)
+      `).run(id, taskId, now, now);
+    })();
+
+    return this.getById(id)!;
+  },
+
+  // Stop the running tracker, if any, and record its length
+  stop(): TimeEntry | null {
+    const db = getDatabase();
+    const running = this.getRunning();
+    if (!running) return null;
+
+    const endedAt = new Date();
+    const minutes = Math.round((endedAt.getTime() - new Date(running.startedAt).getTime()) / 60000);
+    db.prepare('UPDATE time_entries SET ended_at = ?, minutes = ? WHERE id = ?').run(
+      endedAt.toISOString(),
+      Math.max(minutes, 0),
+      running.id
+    );
+
+    return this.getById(running.id);
+  },
+
+  getById(id: string): TimeEntry | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM time_entries WHERE id = ?').get(id);
+    return row ? rowToTimeEntry(row) : null;
+  },
+
+  getRunning(): TimeEntry | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM time_entries WHERE ended_at IS NULL ORDER BY started_at DESC LIMIT 1').get();
+    return row ? rowToTimeEntry(row) : null;
+  },
+
+  getSummary(taskId: string): TaskTimeSummary {
+    const db = getDatabase();
+    const rows = db.prepare(
+      'SELECT * FROM time_entries WHERE task_id = ? ORDER BY started_at DESC'
+    ).all(taskId);
+    const entries = rows.map(rowToTimeEntry);
+
+    const task = db.prepare('SELECT estimated_minutes FROM tasks WHERE id = ?').get(taskId) as
+      | { estimated_minutes: number | null }
+      | undefined;
+    const pomodoro = db.prepare(`
+      SELECT COALESCE(SUM(actual_minutes), 0) as minutes
+      FROM pomodoro_sessions
+      WHERE task_id = ? AND status = 'completed'
+    `).get(taskId) as { minutes: number };
+
+    const trackedMinutes = entries
+      .filter(entry => entry.endedAt !== null)
+      .reduce((sum, entry) => sum + entry.minutes, 0);
+
+    return {
+      estimatedMinutes: task?.estimated_minutes ?? null,
+      trackedMinutes,
+      pomodoroMinutes: pomodoro.minutes,
+      actualMinutes: trackedMinutes + pomodoro.minutes,
+      entries: entries.filter(entry => entry.endedAt !== null),
+      running: entries.find(entry => entry.endedAt === null) ?? null,
+    };
+  },
+
+  delete(id: string): boolean {
+    const db = getDatabase();
+    const result = db.prepare('DELETE FROM time_entries WHERE id = ?').run(id);
+    return result.changes > 0;
+  },
+};
@@ -0,0 +1,174 @@
+import { getDatabase } from './database';
+import { taskService, TASK_TREE_SQL } from './taskService';
+import { listService } from './listService';
+import { habitService } from './habitService';
+import type { TrashContents, TrashItemType } from '../shared/types';
+
+export const trashService = {
+  // Get everything currently in the trash, most recently deleted first
+  getAll(): TrashContents {
+    const db = getDatabase();
+
+    // Tasks trashed together with their list or parent task are shown under that instead
+    const taskRows = db.prepare(`
+      SELECT t.id FROM tasks t
+      LEFT JOIN lists l ON t.list_id = l.id
+      LEFT JOIN tasks p ON t.parent_id = p.id
+      WHERE t.deleted_at IS NOT NULL AND (l.id IS NULL OR l.deleted_at IS NULL)
+      AND (p.id IS NULL OR p.deleted_at IS NULL)
+      ORDER BY t.deleted_at DESC
+    `).all() as { id: string }[];
+
+    const listRows = db.prepare(`
+      SELECT l.id, COUNT(t.id) as task_count FROM lists l
+      LEFT JOIN tasks t ON t.list_id = l.id AND t.deleted_at IS NOT NULL
+      WHERE l.deleted_at IS NOT NULL
+      GROUP BY l.id
+      ORDER BY l.deleted_at DESC
+    `).all() as { id: string; task_count: number }[];
+
+    const habitRows = db.prepare(
+      'SELECT id FROM habits WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
+    ).all() as { id: string }[];
+
+    return {
+      tasks: taskRows.map(row => taskService.getById(row.id)!),
+      lists: listRows.map(row => ({ ...listService.getById(row.id)!, taskCount: row.task_count })),
+      habits: habitRows.map(row => habitService.getById(row.id)!),
+    };
+  },
+
+  // Take an item back out of the trash
+  restore(type: TrashItemType, id: string): boolean {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    switch (type) {
+      case 'task': {
+        const transaction = db.transaction(() => {
+          const task = db.prepare('SELECT deleted_at FROM tasks WHERE id = ?').get(id) as { deleted_at: string | null } | undefined;
+          if (!task?.deleted_at) return false;
+
+          // Bring back the descendants that were trashed along with the task
+          db.prepare(`
+            UPDATE tasks SET deleted_at = NULL, updated_at = ?
+            WHERE id IN (${TASK_TREE_SQL}) AND id != ? AND deleted_at = ?
+          `).run(now, id, id, task.deleted_at);
+
+          // A task whose list is still in the trash is restored to the inbox,
+          // one whose parent is still in the trash is restored to the top level
+          db.prepare(`
+            UPDATE tasks SET
+              deleted_at = NULL,
+              updated_at = ?,
+              list_id = CASE
+                WHEN list_id IN (SELECT id FROM lists WHERE deleted_at IS NOT NULL) THEN NULL
+                ELSE list_id
+              END,
+              parent_id = CASE
+                WHEN parent_id IN (SELECT id FROM tasks WHERE deleted_at IS NOT NULL) THEN NULL
+                ELSE parent_id
+              END
+            WHERE id = ?
+          `).run(now, id);
+
+          // Descendants follow the task if it moved to the inbox
+          db.prepare(`
+            UPDATE tasks SET list_id = (SELECT list_id FROM tasks WHERE id = ?)
+            WHERE id IN (${TASK_TREE_SQL}) AND id != ?
+          `).run(id, id, id);
+          return true;
+        });
+        return transaction();
+      }
+      case 'list': {
+        const transaction = db.transaction(() => {
+          const list = db.prepare('SELECT deleted_at FROM lists WHERE id = ?').get(id) as { deleted_at: string | null } | undefined;
+          if (!list?.deleted_at) return false;
+
+          // Bring back the tasks that were trashed along with the list
+          db.prepare(
+            'UPDATE tasks SET deleted_at = NULL, updated_at = ? WHERE list_id = ? AND deleted_at = ?'
+          ).run(now, id, list.deleted_at);
+          db.prepare('UPDATE lists SET deleted_at = NULL, updated_at = ? WHERE id = ?').run(now, id);
+          return true;
+        });
+        return transaction();
+      }
+      case 'habit': {
+        const result = db.prepare(
+          'UPDATE habits SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL'
+        ).run(now, id);
+        return result.changes > 0;
+      }
+      default:
+        return false;
+    }
+  },
+
+  // Permanently delete an item that is in the trash (cascades child tasks, tags, reminders, completions)
+  purge(type: TrashItemType, id: string): boolean {
+    const db = getDatabase();
+
+    switch (type) {
+      case 'task': {
+        const result = db.prepare('DELETE FROM tasks WHERE id = ? AND deleted_at IS NOT NULL').run(id);
+        return result.changes > 0;
+      }
+      case 'list': {
+        const transaction = db.transaction(() => {
+          db.prepare(`
+            DELETE FROM tasks
+            WHERE list_id = ? AND deleted_at IS NOT NULL
+            AND EXISTS (SELECT 1 FROM lists WHERE id = ? AND deleted_at IS NOT NULL)
+          `).run(id, id);
+          const result = db.prepare('DELETE FROM lists WHERE id = ? AND deleted_at IS NOT NULL').run(id);
+          return result.changes > 0;
+        });
+        return transaction();
+      }
+      case 'habit': {
+        const result = db.prepare('DELETE FROM habits WHERE id = ? AND deleted_at IS NOT NULL').run(id);
+        return result.changes > 0;
+      }
+      default:
+        return false;
+    }
+  },
+
+  // Permanently delete everything in the trash
+  empty(): void {
+    const db = getDatabase();
+
+    const transaction = db.transaction(() => {
+      db.prepare('DELETE FROM tasks WHERE deleted_at IS NOT NULL').run();
+      db.prepare('DELETE FROM lists WHERE deleted_at IS NOT NULL').run();
+      db.prepare('DELETE FROM habits WHERE deleted_at IS NOT NULL').run();
+    });
+
+    transaction();
+  },
+
+  // Permanently delete items that have been in the trash longer than the given number of days
+  purgeExpired(retentionDays: number): number {
+    if (retentionDays <= 0) return 0;
+
+    const db = getDatabase();
+    const cutoff = new Date(Date.now() - retentionDays * 86400000).toISOString();
+
+    const transaction = db.transaction(() => {
+      let purged = 0;
+      // Tasks first so expired lists take their trashed tasks with them
+      purged += db.prepare(`
+        DELETE FROM tasks
+        WHERE deleted_at IS NOT NULL
+        AND (deleted_at < ? OR list_id IN (SELECT id FROM lists WHERE deleted_at < ?))
+      `).run(cutoff, cutoff).changes;
+      purged += db.prepare('DELETE FROM lists WHERE deleted_at < ?').run(cutoff).changes;
+      purged += db.prepare('DELETE FROM habits WHERE deleted_at < ?').run(cutoff).changes;
+      return purged;
+    });
+
+    return transaction();
+  },
+};
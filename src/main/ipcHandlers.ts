@@ -1,22 +1,134 @@
-import { ipcMain, nativeTheme } from 'electron';
-import { IPC_CHANNELS, DEFAULT_SETTINGS, type AppSettings, type PomodoroSettings } from '../shared/types';
-import { taskService, subtaskService } from '../database/taskService';
+import { ipcMain, nativeTheme, dialog, app, shell, BrowserWindow } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import {
+  IPC_CHANNELS,
+  type AppSettings,
+  type PomodoroSettings,
+  type BackupData,
+  type BackupImportMode,
+  type BackupResult,
+  type TrashItemType,
+} from '../shared/types';
+import { taskService, TASK_TREE_SQL } from '../database/taskService';
 import { listService } from '../database/listService';
-import { tagService, searchService } from '../database/tagService';
+import { folderService } from '../database/folderService';
+import { sectionService } from '../database/sectionService';
+import { tagService, searchService, normalizeTagName, getAncestorTagNames } from '../database/tagService';
 import { recurrenceService } from '../database/recurrenceService';
 import { reminderService } from '../database/reminderService';
 import { pomodoroService } from '../database/pomodoroService';
 import { habitService } from '../database/habitService';
 import { statsService } from '../database/statsService';
-import { addAndScheduleReminder, snoozeReminder, deleteReminder } from './reminderManager';
+import { settingsService } from '../database/settingsService';
+import { activityService } from '../database/activityService';
+import { backupService } from '../database/backupService';
+import { snapshotService } from '../database/snapshotService';
+import { trashService } from '../database/trashService';
+import { savedFilterService } from '../database/savedFilterService';
+import { dependencyService } from '../database/dependencyService';
+import { attachmentService } from '../database/attachmentService';
+import { timeEntryService } from '../database/timeEntryService';
+import { templateService } from '../database/templateService';
+import {
+  addAndScheduleReminder,
+  snoozeReminder,
+  deleteReminder,
+  scheduleAllPendingReminders,
+  scheduleAllHabitReminders,
+  scheduleHabitReminder,
+  cancelHabitReminder,
+} from './reminderManager';
+import { recordUndoable, byId, undo, redo, getUndoState, clearUndoHistory, type UndoScope } from './undoManager';
+
+// Quote a name for undo labels, e.g. Delete "Groceries"
+function quoted(name: string | undefined): string {
+  return name ? `"${name}"` : '';
+}
+
+// Count for undo labels, e.g. Delete 3 tasks
+function counted(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`;
+}
+
+// Scope for a task and everything nested under it
+function taskTreeScope(id: string): UndoScope {
+  return { table: 'tasks', where: `id IN (${TASK_TREE_SQL})`, params: [id] };
+}
+
+// Scope for every task in a list (or the inbox), used when a move shifts sibling positions
+function listTasksScope(listId: string | null): UndoScope {
+  return { table: 'tasks', where: 'list_id IS ?', params: [listId] };
+}
+
+// Scope for the rows of a table whose IDs are listed, used for reorders
+function byIds(table: string, ids: string[]): UndoScope {
+  return { table, where: `id IN (${ids.map(() => '?').join(', ')})`, params: ids };
+}
+
+// Scope for a tag name and the parent tags that creating or renaming to it may add
+function tagPathScope(name: string): UndoScope {
+  const normalized = normalizeTagName(name);
+  const names = [...getAncestorTagNames(normalized), normalized];
+  return { table: 'tags', where: `name IN (${names.map(() => '?').join(', ')})`, params: names };
+}
+
+// Scope for the task links of the given tags
+function tagLinksScope(tagIds: string[]): UndoScope {
+  return { table: 'task_tags', where: `tag_id IN (${tagIds.map(() => '?').join(', ')})`, params: tagIds };
+}
+
+// Scope for the saved filters that use the given tags, which merging or deleting them rewrites
+function savedFiltersScope(tagIds: string[]): UndoScope {
+  return byIds('saved_filters', tagService.getSavedFilterIds(tagIds));
+}
+
+// Scope for one tag's links to the given tasks
+function taskTagsScope(taskIds: string[], tagId: string): UndoScope {
+  return {
+    table: 'task_tags',
+    where: `task_id IN (${taskIds.map(() => '?').join(', ')}) AND tag_id = ?`,
+    params: [...taskIds, tagId],
+  };
+}
+
+// Scope for one habit's completion on a given day (defaults to today like habitService)
+function habitCompletionScope(habitId: string, date?: string): UndoScope {
+  return {
+    table: 'habit_completions',
+    where: 'habit_id = ? AND completed_date = ?',
+    params: [habitId, date || new Date().toISOString().split('T')[0]],
+  };
+}
+
+// Reminder and habit jobs follow the database after undo/redo rewrote rows
+function rescheduleAfterUndo(): void {
+  scheduleAllPendingReminders();
+  scheduleAllHabitReminders();
+}
 
-// Settings stored in memory (will be persisted to database later)
-let settings: AppSettings = { ...DEFAULT_SETTINGS };
+/**
+ * Drop the undo history after rows were deleted for good. Nothing can bring removed
+ * attachments back after that, so their stored files are cleaned up too.
+ */
+export function clearHistoryAndPruneFiles(): void {
+  clearUndoHistory();
+  try {
+    const removed = attachmentService.pruneUnusedFiles();
+    if (removed > 0) {
+      console.log(`Removed ${removed} unused attachment files`);
+    }
+  } catch (error) {
+    console.error('Failed to prune attachment files:', error);
+  }
+}
 
 export function setupIpcHandlers(): void {
   // Task handlers
   ipcMain.handle(IPC_CHANNELS.TASK_CREATE, (_event, data) => {
-    return taskService.create(data);
+    return recordUndoable(`Add ${quoted(data.title)}`, [], () => taskService.create(data), task => [
+      byId('tasks', task.id),
+    ]);
   });
 
   ipcMain.handle(IPC_CHANNELS.TASK_GET_ALL, () => {
@@ -36,41 +148,132 @@ export function setupIpcHandlers(): void {
   });
 
   ipcMain.handle(IPC_CHANNELS.TASK_UPDATE, (_event, id, data) => {
-    return taskService.update(id, data);
+    const title = quoted(taskService.getById(id)?.title);
+    const action = data.completed === true ? 'Complete' : data.completed === false ? 'Reopen' : 'Edit';
+    // Completing or moving a task also changes its descendants
+    return recordUndoable(`${action} ${title}`, [taskTreeScope(id)], () => taskService.update(id, data));
   });
 
   ipcMain.handle(IPC_CHANNELS.TASK_DELETE, (_event, id) => {
-    return taskService.delete(id);
+    const title = quoted(taskService.getById(id)?.title);
+    return recordUndoable(`Delete ${title}`, [taskTreeScope(id)], () => taskService.delete(id));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_INDENT, (_event, id) => {
+    const task = taskService.getById(id);
+    if (!task) return null;
+    return recordUndoable(`Indent ${quoted(task.title)}`, [listTasksScope(task.listId)], () => taskService.indent(id));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_OUTDENT, (_event, id) => {
+    const task = taskService.getById(id);
+    if (!task) return null;
+    return recordUndoable(`Outdent ${quoted(task.title)}`, [listTasksScope(task.listId)], () => taskService.outdent(id));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_GET_PROGRESS, () => {
+    return taskService.getProgress();
+  });
+
+  // Bulk task handlers; each runs in one transaction and undoes as one step
+  ipcMain.handle(IPC_CHANNELS.TASK_UPDATE_MANY, (_event, ids: string[], data) => {
+    const action = data.completed === false ? 'Reopen' : data.listId !== undefined ? 'Move' : 'Edit';
+    return recordUndoable(`${action} ${counted(ids.length, 'task')}`, ids.map(taskTreeScope), () =>
+      taskService.updateMany(ids, data)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_DELETE_MANY, (_event, ids: string[]) => {
+    return recordUndoable(`Delete ${counted(ids.length, 'task')}`, ids.map(taskTreeScope), () =>
+      taskService.deleteMany(ids)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_COMPLETE_MANY, (_event, ids: string[]) => {
+    return recordUndoable(
+      `Complete ${counted(ids.length, 'task')}`,
+      ids.map(taskTreeScope),
+      () => recurrenceService.completeTasks(ids),
+      // Next occurrences of recurring tasks are removed on undo, like TASK_COMPLETE_RECURRING
+      result => result.nextTasks.flatMap(nextTask => [
+        byId('tasks', nextTask.id),
+        { table: 'task_tags', where: 'task_id = ?', params: [nextTask.id] },
+      ])
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_SHIFT_DATES, (_event, ids: string[], days: number) => {
+    return recordUndoable(`Reschedule ${counted(ids.length, 'task')}`, [byIds('tasks', ids)], () =>
+      taskService.shiftDates(ids, days)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.TASK_REORDER, (_event, taskIds) => {
-    return taskService.reorder(taskIds);
+    return recordUndoable('Reorder tasks', [byIds('tasks', taskIds)], () => taskService.reorder(taskIds));
   });
 
-  ipcMain.handle(IPC_CHANNELS.TASK_COMPLETE_RECURRING, (_event, taskId) => {
-    return recurrenceService.completeRecurringTask(taskId);
+  ipcMain.handle(IPC_CHANNELS.TASK_GET_ACTIVITY, (_event, taskId) => {
+    return activityService.getByTaskId(taskId);
+  });
+
+  // Dependency handlers
+  ipcMain.handle(IPC_CHANNELS.TASK_GET_DEPENDENCIES, (_event, taskId) => {
+    return dependencyService.getForTask(taskId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TASK_ADD_DEPENDENCY, (_event, taskId, dependsOnId) => {
+    const title = quoted(taskService.getById(dependsOnId)?.title);
+    try {
+      recordUndoable(
+        `Add blocker ${title}`,
+        [{ table: 'task_dependencies', where: 'task_id = ? AND depends_on_id = ?', params: [taskId, dependsOnId] }],
+        () => dependencyService.add(taskId, dependsOnId)
+      );
+      return { success: true };
+    } catch (error) {
+      // Rejected links (e.g. cycles) are reported back instead of thrown across IPC
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
   });
 
-  // Subtask handlers
-  ipcMain.handle(IPC_CHANNELS.SUBTASK_CREATE, (_event, data) => {
-    return subtaskService.create(data);
+  ipcMain.handle(IPC_CHANNELS.TASK_REMOVE_DEPENDENCY, (_event, taskId, dependsOnId) => {
+    const title = quoted(taskService.getById(dependsOnId)?.title);
+    return recordUndoable(
+      `Remove blocker ${title}`,
+      [{ table: 'task_dependencies', where: 'task_id = ? AND depends_on_id = ?', params: [taskId, dependsOnId] }],
+      () => dependencyService.remove(taskId, dependsOnId)
+    );
   });
 
-  ipcMain.handle(IPC_CHANNELS.SUBTASK_UPDATE, (_event, id, data) => {
-    return subtaskService.update(id, data);
+  ipcMain.handle(IPC_CHANNELS.TASK_GET_BLOCKED_IDS, () => {
+    return dependencyService.getBlockedTaskIds();
   });
 
-  ipcMain.handle(IPC_CHANNELS.SUBTASK_DELETE, (_event, id) => {
-    return subtaskService.delete(id);
+  ipcMain.handle(IPC_CHANNELS.TASK_GET_DEPENDENCY_LINKS, (_event, taskIds) => {
+    return dependencyService.getLinks(taskIds);
   });
 
-  ipcMain.handle(IPC_CHANNELS.SUBTASK_REORDER, (_event, subtaskIds) => {
-    return subtaskService.reorder(subtaskIds);
+  ipcMain.handle(IPC_CHANNELS.TASK_COMPLETE_RECURRING, (_event, taskId) => {
+    const title = quoted(taskService.getById(taskId)?.title);
+    return recordUndoable(
+      `Complete ${title}`,
+      [taskTreeScope(taskId)],
+      () => recurrenceService.completeRecurringTask(taskId),
+      // The next occurrence, any missed ones and the tags copied onto them are removed on undo
+      result => result
+        ? [...result.missedTasks, ...(result.nextTask ? [result.nextTask] : [])].flatMap(task => [
+            byId('tasks', task.id),
+            { table: 'task_tags', where: 'task_id = ?', params: [task.id] },
+          ])
+        : []
+    );
   });
 
   // List handlers
   ipcMain.handle(IPC_CHANNELS.LIST_CREATE, (_event, data) => {
-    return listService.create(data);
+    return recordUndoable(`Add list ${quoted(data.name)}`, [], () => listService.create(data), list => [
+      byId('lists', list.id),
+    ]);
   });
 
   ipcMain.handle(IPC_CHANNELS.LIST_GET_ALL, () => {
@@ -82,20 +285,108 @@ export function setupIpcHandlers(): void {
   });
 
   ipcMain.handle(IPC_CHANNELS.LIST_UPDATE, (_event, id, data) => {
-    return listService.update(id, data);
+    const name = quoted(listService.getById(id)?.name);
+    return recordUndoable(`Edit list ${name}`, [byId('lists', id)], () => listService.update(id, data));
   });
 
   ipcMain.handle(IPC_CHANNELS.LIST_DELETE, (_event, id) => {
-    return listService.delete(id);
+    const name = quoted(listService.getById(id)?.name);
+    // Deleting a list also trashes its tasks and may clear the default list setting
+    return recordUndoable(
+      `Delete list ${name}`,
+      [
+        byId('lists', id),
+        { table: 'tasks', where: 'list_id = ?', params: [id] },
+        { table: 'app_settings', where: 'id = 1', params: [] },
+      ],
+      () => listService.delete(id)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.LIST_REORDER, (_event, listIds) => {
-    return listService.reorder(listIds);
+    return recordUndoable('Reorder lists', [byIds('lists', listIds)], () => listService.reorder(listIds));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LIST_MOVE, (_event, id: string, folderId: string | null, listIds: string[]) => {
+    const name = quoted(listService.getById(id)?.name);
+    return recordUndoable(`Move list ${name}`, [byIds('lists', [id, ...listIds])], () =>
+      listService.move(id, folderId, listIds)
+    );
+  });
+
+  // Folder handlers
+  ipcMain.handle(IPC_CHANNELS.FOLDER_CREATE, (_event, name: string) => {
+    return recordUndoable(`Add folder ${quoted(name)}`, [], () => folderService.create(name), folder => [
+      byId('folders', folder.id),
+    ]);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FOLDER_GET_ALL, () => {
+    return folderService.getAll();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FOLDER_RENAME, (_event, id: string, name: string) => {
+    return recordUndoable(`Rename folder ${quoted(name)}`, [byId('folders', id)], () => folderService.rename(id, name));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FOLDER_DELETE, (_event, id: string) => {
+    const name = quoted(folderService.getById(id)?.name);
+    // The folder's lists are captured by ID since deleting moves them out of it
+    return recordUndoable(
+      `Delete folder ${name}`,
+      [byId('folders', id), byIds('lists', folderService.getListIds(id))],
+      () => folderService.delete(id)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FOLDER_REORDER, (_event, folderIds: string[]) => {
+    return recordUndoable('Reorder folders', [byIds('folders', folderIds)], () => folderService.reorder(folderIds));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FOLDER_GET_TASKS, (_event, id: string) => {
+    return folderService.getTasks(id);
+  });
+
+  // Section handlers
+  ipcMain.handle(IPC_CHANNELS.SECTION_CREATE, (_event, listId: string, name: string) => {
+    return recordUndoable(`Add section ${quoted(name)}`, [], () => sectionService.create(listId, name), section => [
+      byId('sections', section.id),
+    ]);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECTION_GET_BY_LIST, (_event, listId: string) => {
+    return sectionService.getByList(listId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECTION_RENAME, (_event, id: string, name: string) => {
+    return recordUndoable(`Rename section ${quoted(name)}`, [byId('sections', id)], () => sectionService.rename(id, name));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECTION_DELETE, (_event, id: string) => {
+    const name = quoted(sectionService.getById(id)?.name);
+    // The section's tasks are captured by ID since deleting moves them out of it
+    return recordUndoable(
+      `Delete section ${name}`,
+      [byId('sections', id), byIds('tasks', sectionService.getTaskIds(id))],
+      () => sectionService.delete(id)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECTION_REORDER, (_event, sectionIds: string[]) => {
+    return recordUndoable('Reorder sections', [byIds('sections', sectionIds)], () => sectionService.reorder(sectionIds));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECTION_MOVE_TASK, (_event, taskId: string, sectionId: string | null, taskIds: string[]) => {
+    const task = taskService.getById(taskId);
+    if (!task) return;
+    return recordUndoable(`Move ${quoted(task.title)}`, [listTasksScope(task.listId)], () =>
+      sectionService.moveTask(taskId, sectionId, taskIds)
+    );
   });
 
   // Tag handlers
   ipcMain.handle(IPC_CHANNELS.TAG_CREATE, (_event, data) => {
-    return tagService.create(data);
+    return recordUndoable(`Add tag ${quoted(data.name)}`, [tagPathScope(data.name)], () => tagService.create(data));
   });
 
   ipcMain.handle(IPC_CHANNELS.TAG_GET_ALL, () => {
@@ -103,19 +394,82 @@ export function setupIpcHandlers(): void {
   });
 
   ipcMain.handle(IPC_CHANNELS.TAG_UPDATE, (_event, id, data) => {
-    return tagService.update(id, data);
+    const name = quoted(tagService.getById(id)?.name);
+    // A rename also renames nested tags and may add parents of the new name
+    const scopes = [byIds('tags', tagService.getSubtreeIds(id))];
+    if (data.name !== undefined) {
+      scopes.push(tagPathScope(data.name));
+    }
+    return recordUndoable(`Edit tag ${name}`, scopes, () => tagService.update(id, data));
   });
 
   ipcMain.handle(IPC_CHANNELS.TAG_DELETE, (_event, id) => {
-    return tagService.delete(id);
+    const name = quoted(tagService.getById(id)?.name);
+    const tagIds = tagService.getSubtreeIds(id);
+    return recordUndoable(
+      `Delete tag ${name}`,
+      [byIds('tags', tagIds), tagLinksScope(tagIds), savedFiltersScope(tagIds)],
+      () => tagService.delete(id)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TAG_MERGE, (_event, sourceId, targetId) => {
+    const name = quoted(tagService.getById(sourceId)?.name);
+    const tagIds = [...tagService.getSubtreeIds(sourceId), ...tagService.getSubtreeIds(targetId)];
+    return recordUndoable(
+      `Merge tag ${name}`,
+      [byIds('tags', tagIds), tagLinksScope(tagIds), savedFiltersScope(tagIds)],
+      () => tagService.merge(sourceId, targetId)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TAG_DELETE_MANY, (_event, ids: string[]) => {
+    const tagIds = ids.flatMap(id => tagService.getSubtreeIds(id));
+    return recordUndoable(
+      `Delete ${counted(ids.length, 'tag')}`,
+      [byIds('tags', tagIds), tagLinksScope(tagIds), savedFiltersScope(tagIds)],
+      () => tagService.deleteMany(ids)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TAG_GET_USAGE, () => {
+    return tagService.getUsageCounts();
   });
 
   ipcMain.handle(IPC_CHANNELS.TAG_ADD_TO_TASK, (_event, taskId, tagId) => {
-    return tagService.addTagToTask(taskId, tagId);
+    const name = quoted(tagService.getById(tagId)?.name);
+    return recordUndoable(
+      `Add tag ${name}`,
+      [{ table: 'task_tags', where: 'task_id = ? AND tag_id = ?', params: [taskId, tagId] }],
+      () => tagService.addTagToTask(taskId, tagId)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.TAG_REMOVE_FROM_TASK, (_event, taskId, tagId) => {
-    return tagService.removeTagFromTask(taskId, tagId);
+    const name = quoted(tagService.getById(tagId)?.name);
+    return recordUndoable(
+      `Remove tag ${name}`,
+      [{ table: 'task_tags', where: 'task_id = ? AND tag_id = ?', params: [taskId, tagId] }],
+      () => tagService.removeTagFromTask(taskId, tagId)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TAG_ADD_TO_TASKS, (_event, taskIds: string[], tagId: string) => {
+    const name = quoted(tagService.getById(tagId)?.name);
+    return recordUndoable(
+      `Add tag ${name} to ${counted(taskIds.length, 'task')}`,
+      [taskTagsScope(taskIds, tagId)],
+      () => tagService.addTagToTasks(taskIds, tagId)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TAG_REMOVE_FROM_TASKS, (_event, taskIds: string[], tagId: string) => {
+    const name = quoted(tagService.getById(tagId)?.name);
+    return recordUndoable(
+      `Remove tag ${name} from ${counted(taskIds.length, 'task')}`,
+      [taskTagsScope(taskIds, tagId)],
+      () => tagService.removeTagFromTasks(taskIds, tagId)
+    );
   });
 
   // Search handlers
@@ -123,9 +477,130 @@ export function setupIpcHandlers(): void {
     return searchService.searchTasks(filter);
   });
 
+  ipcMain.handle(IPC_CHANNELS.TASK_SEARCH_TEXT, (_event, query, limit) => {
+    return searchService.searchText(query, limit);
+  });
+
+  // Saved filter handlers
+  ipcMain.handle(IPC_CHANNELS.SAVED_FILTER_CREATE, (_event, data) => {
+    return recordUndoable(`Add smart list ${quoted(data.name)}`, [], () => savedFilterService.create(data), savedFilter => [
+      byId('saved_filters', savedFilter.id),
+    ]);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SAVED_FILTER_GET_ALL, () => {
+    return savedFilterService.getAll();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SAVED_FILTER_UPDATE, (_event, id, data) => {
+    const name = quoted(savedFilterService.getById(id)?.name);
+    return recordUndoable(`Edit smart list ${name}`, [byId('saved_filters', id)], () => savedFilterService.update(id, data));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SAVED_FILTER_DELETE, (_event, id) => {
+    const name = quoted(savedFilterService.getById(id)?.name);
+    return recordUndoable(`Delete smart list ${name}`, [byId('saved_filters', id)], () => savedFilterService.delete(id));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SAVED_FILTER_REORDER, (_event, filterIds) => {
+    return recordUndoable('Reorder smart lists', [byIds('saved_filters', filterIds)], () =>
+      savedFilterService.reorder(filterIds)
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SAVED_FILTER_GET_TASKS, (_event, id) => {
+    return savedFilterService.getTasks(id);
+  });
+
+  // Task template handlers
+  ipcMain.handle(IPC_CHANNELS.TEMPLATE_CREATE, (_event, taskId: string, name: string) => {
+    return recordUndoable(`Save template ${quoted(name)}`, [], () => templateService.createFromTask(taskId, name), template => [
+      byId('task_templates', template.id),
+    ]);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TEMPLATE_GET_ALL, () => {
+    return templateService.getAll();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TEMPLATE_RENAME, (_event, id: string, name: string) => {
+    return recordUndoable(`Rename template ${quoted(name)}`, [byId('task_templates', id)], () => templateService.rename(id, name));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TEMPLATE_DELETE, (_event, id) => {
+    const name = quoted(templateService.getById(id)?.name);
+    return recordUndoable(`Delete template ${name}`, [byId('task_templates', id)], () => templateService.delete(id));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TEMPLATE_INSTANTIATE, (_event, id: string, options) => {
+    const name = quoted(templateService.getById(id)?.name);
+    const task = recordUndoable(`Add from template ${name}`, [], () => templateService.instantiate(id, options), root => [
+      taskTreeScope(root.id),
+      { table: 'task_tags', where: `task_id IN (${TASK_TREE_SQL})`, params: [root.id] },
+      { table: 'reminders', where: `task_id IN (${TASK_TREE_SQL})`, params: [root.id] },
+    ]);
+    scheduleAllPendingReminders();
+    return task;
+  });
+
+  // Attachment handlers
+  ipcMain.handle(IPC_CHANNELS.ATTACHMENT_ADD, async (_event, taskId: string, filePaths: string[]) => {
+    const label = filePaths.length === 1 ? `Attach ${quoted(path.basename(filePaths[0]))}` : `Attach ${filePaths.length} files`;
+    try {
+      // Files are copied in first; only linking them to the task is undoable
+      const hashes = await Promise.all(filePaths.map(filePath => attachmentService.storeFile(filePath)));
+      recordUndoable(
+        label,
+        [{ table: 'attachments', where: 'task_id = ?', params: [taskId] }],
+        () => filePaths.map((filePath, index) => attachmentService.add(taskId, filePath, hashes[index]))
+      );
+      return { success: true };
+    } catch (error) {
+      // Unreadable files are reported back instead of thrown across IPC
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.ATTACHMENT_GET_BY_TASK, (_event, taskId) => {
+    return attachmentService.getByTask(taskId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.ATTACHMENT_REMOVE, (_event, id) => {
+    const fileName = quoted(attachmentService.getById(id)?.fileName);
+    return recordUndoable(`Remove attachment ${fileName}`, [byId('attachments', id)], () => attachmentService.remove(id));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.ATTACHMENT_OPEN, async (_event, id) => {
+    const filePath = attachmentService.getFilePath(id);
+    if (!filePath) {
+      return { success: false, error: 'The attached file is missing' };
+    }
+    // openPath resolves to an error message, or an empty string on success
+    const error = await shell.openPath(filePath);
+    return error ? { success: false, error } : { success: true };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.ATTACHMENT_GET_THUMBNAIL, (_event, id) => {
+    return attachmentService.getThumbnail(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.ATTACHMENT_CHOOSE_FILES, async (event): Promise<string[]> => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options = {
+      title: 'Attach Files',
+      properties: ['openFile' as const, 'multiSelections' as const],
+    };
+    const { canceled, filePaths } = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    return canceled ? [] : filePaths;
+  });
+
   // Reminder handlers
   ipcMain.handle(IPC_CHANNELS.REMINDER_CREATE, (_event, taskId, reminderTime) => {
-    return addAndScheduleReminder(taskId, reminderTime);
+    return recordUndoable('Add reminder', [], () => addAndScheduleReminder(taskId, reminderTime), reminder => [
+      byId('reminders', reminder.id),
+    ]);
   });
 
   ipcMain.handle(IPC_CHANNELS.REMINDER_GET_BY_TASK, (_event, taskId) => {
@@ -137,34 +612,37 @@ export function setupIpcHandlers(): void {
   });
 
   ipcMain.handle(IPC_CHANNELS.REMINDER_UPDATE, (_event, id, data) => {
-    return reminderService.update(id, data);
+    return recordUndoable('Edit reminder', [byId('reminders', id)], () => reminderService.update(id, data));
   });
 
   ipcMain.handle(IPC_CHANNELS.REMINDER_DELETE, (_event, id) => {
-    return deleteReminder(id);
+    return recordUndoable('Delete reminder', [byId('reminders', id)], () => deleteReminder(id));
   });
 
   ipcMain.handle(IPC_CHANNELS.REMINDER_SNOOZE, (_event, id, durationMinutes) => {
-    return snoozeReminder(id, durationMinutes);
+    return recordUndoable('Snooze reminder', [byId('reminders', id)], () => snoozeReminder(id, durationMinutes));
   });
 
   // Settings handlers
   ipcMain.handle(IPC_CHANNELS.SETTINGS_GET, () => {
-    return settings;
+    return settingsService.get();
   });
 
   ipcMain.handle(IPC_CHANNELS.SETTINGS_SET, (_event, newSettings: Partial<AppSettings>) => {
-    settings = { ...settings, ...newSettings };
+    const settings = settingsService.update(newSettings);
+    if (newSettings.theme !== undefined) {
+      nativeTheme.themeSource = settings.theme;
+    }
     return settings;
   });
 
   // Theme handlers
   ipcMain.handle(IPC_CHANNELS.THEME_GET, () => {
-    return settings.theme;
+    return settingsService.get().theme;
   });
 
   ipcMain.handle(IPC_CHANNELS.THEME_SET, (_event, theme: 'light' | 'dark' | 'system') => {
-    settings.theme = theme;
+    settingsService.update({ theme });
     // Update native theme source
     if (theme === 'system') {
       nativeTheme.themeSource = 'system';
@@ -210,9 +688,34 @@ export function setupIpcHandlers(): void {
     return pomodoroService.updateSettings(data);
   });
 
+  // Time tracking handlers (tracker runs aren't undoable, like pomodoro sessions)
+  ipcMain.handle(IPC_CHANNELS.TIME_START, (_event, taskId) => {
+    return timeEntryService.start(taskId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TIME_STOP, () => {
+    return timeEntryService.stop();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TIME_GET_RUNNING, () => {
+    return timeEntryService.getRunning();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TIME_GET_SUMMARY, (_event, taskId) => {
+    return timeEntryService.getSummary(taskId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TIME_DELETE_ENTRY, (_event, id) => {
+    return recordUndoable('Delete time entry', [byId('time_entries', id)], () => timeEntryService.delete(id));
+  });
+
   // Habit handlers
   ipcMain.handle(IPC_CHANNELS.HABIT_CREATE, (_event, data) => {
-    return habitService.create(data);
+    const habit = recordUndoable(`Add habit ${quoted(data.name)}`, [], () => habitService.create(data), created => [
+      byId('habits', created.id),
+    ]);
+    scheduleHabitReminder(habit);
+    return habit;
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_GET_ALL, (_event, includeArchived) => {
@@ -224,27 +727,47 @@ export function setupIpcHandlers(): void {
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_UPDATE, (_event, id, data) => {
-    return habitService.update(id, data);
+    const name = quoted(habitService.getById(id)?.name);
+    const habit = recordUndoable(`Edit habit ${name}`, [byId('habits', id)], () => habitService.update(id, data));
+    if (habit) {
+      // Reschedule to pick up reminder time, frequency or archive changes
+      scheduleHabitReminder(habit);
+    }
+    return habit;
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_DELETE, (_event, id) => {
-    return habitService.delete(id);
+    cancelHabitReminder(id);
+    const name = quoted(habitService.getById(id)?.name);
+    return recordUndoable(`Delete habit ${name}`, [byId('habits', id)], () => habitService.delete(id));
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_COMPLETE, (_event, habitId, date, note) => {
-    return habitService.complete(habitId, date, note);
+    const name = quoted(habitService.getById(habitId)?.name);
+    return recordUndoable(`Check in ${name}`, [habitCompletionScope(habitId, date)], () =>
+      habitService.complete(habitId, date, note)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_UNCOMPLETE, (_event, habitId, date) => {
-    return habitService.uncomplete(habitId, date);
+    const name = quoted(habitService.getById(habitId)?.name);
+    return recordUndoable(`Clear check-in ${name}`, [habitCompletionScope(habitId, date)], () =>
+      habitService.uncomplete(habitId, date)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_DECREMENT, (_event, habitId, date) => {
-    return habitService.decrementCompletion(habitId, date);
+    const name = quoted(habitService.getById(habitId)?.name);
+    return recordUndoable(`Remove check-in ${name}`, [habitCompletionScope(habitId, date)], () =>
+      habitService.decrementCompletion(habitId, date)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_UPDATE_NOTE, (_event, habitId, date, note) => {
-    return habitService.updateCompletionNote(habitId, date, note);
+    const name = quoted(habitService.getById(habitId)?.name);
+    return recordUndoable(`Edit note ${name}`, [habitCompletionScope(habitId, date)], () =>
+      habitService.updateCompletionNote(habitId, date, note)
+    );
   });
 
   ipcMain.handle(IPC_CHANNELS.HABIT_GET_COMPLETIONS, (_event, habitId, startDate, endDate) => {
@@ -263,4 +786,136 @@ export function setupIpcHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.STATS_GET_DASHBOARD, () => {
     return statsService.getDashboard();
   });
+
+  // Backup handlers
+  ipcMain.handle(IPC_CHANNELS.BACKUP_EXPORT, async (event): Promise<BackupResult> => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const date = new Date().toISOString().split('T')[0];
+    const options = {
+      title: 'Export Backup',
+      defaultPath: path.join(app.getPath('documents'), `georges-ticker-backup-${date}.json`),
+      filters: [{ name: 'Backup Files', extensions: ['json'] }],
+    };
+    const { canceled, filePath } = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+
+    if (canceled || !filePath) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      const data = backupService.exportData();
+      fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+      const counts = Object.fromEntries(
+        Object.entries(data.tables).map(([table, rows]) => [table, rows.length])
+      );
+      return { success: true, filePath, counts };
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.BACKUP_IMPORT, async (event, mode: BackupImportMode): Promise<BackupResult> => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options = {
+      title: mode === 'replace' ? 'Restore Backup' : 'Merge Backup',
+      properties: ['openFile' as const],
+      filters: [{ name: 'Backup Files', extensions: ['json'] }],
+    };
+    const { canceled, filePaths } = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+
+    if (canceled || filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(filePaths[0], 'utf-8')) as BackupData;
+      const counts = backupService.importData(data, mode);
+      clearUndoHistory();
+
+      // Pick up restored reminders, habits and theme
+      scheduleAllPendingReminders();
+      scheduleAllHabitReminders();
+      nativeTheme.themeSource = settingsService.get().theme;
+
+      return { success: true, filePath: filePaths[0], counts };
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Trash handlers
+  ipcMain.handle(IPC_CHANNELS.TRASH_GET_ALL, () => {
+    return trashService.getAll();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TRASH_RESTORE, (_event, type: TrashItemType, id: string) => {
+    const restored = trashService.restore(type, id);
+    if (restored) {
+      // Reminders of restored tasks and habits become active again
+      if (type === 'habit') {
+        const habit = habitService.getById(id);
+        if (habit) scheduleHabitReminder(habit);
+      } else {
+        scheduleAllPendingReminders();
+      }
+    }
+    return restored;
+  });
+
+  // Purged rows can't be brought back, so history pointing at them is dropped
+  ipcMain.handle(IPC_CHANNELS.TRASH_PURGE, (_event, type: TrashItemType, id: string) => {
+    const purged = trashService.purge(type, id);
+    if (purged) clearHistoryAndPruneFiles();
+    return purged;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TRASH_EMPTY, () => {
+    trashService.empty();
+    clearHistoryAndPruneFiles();
+  });
+
+  // Snapshot handlers
+  ipcMain.handle(IPC_CHANNELS.SNAPSHOT_LIST, () => {
+    return snapshotService.list();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SNAPSHOT_RESTORE, async (_event, fileName: string): Promise<BackupResult> => {
+    try {
+      await snapshotService.restore(fileName);
+      clearUndoHistory();
+
+      // Pick up restored reminders, habits and theme
+      scheduleAllPendingReminders();
+      scheduleAllHabitReminders();
+      nativeTheme.themeSource = settingsService.get().theme;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Undo/redo handlers
+  ipcMain.handle(IPC_CHANNELS.UNDO, () => {
+    const label = undo();
+    if (label) rescheduleAfterUndo();
+    return label;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.REDO, () => {
+    const label = redo();
+    if (label) rescheduleAfterUndo();
+    return label;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.UNDO_GET_STATE, () => {
+    return getUndoState();
+  });
 }
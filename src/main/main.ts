@@ -1,16 +1,126 @@
-import { app, BrowserWindow, globalShortcut } from 'electron';
+import { app, BrowserWindow, dialog, globalShortcut, Menu, Tray, nativeImage, nativeTheme } from 'electron';
 import path from 'path';
-import { initDatabase, closeDatabase } from '../database';
-import { setupIpcHandlers } from './ipcHandlers';
+import {
+  initDatabase,
+  closeDatabase,
+  replaceDatabaseFile,
+  DatabaseMigrationError,
+  settingsService,
+  trashService,
+} from '../database';
+import { setupIpcHandlers, clearHistoryAndPruneFiles } from './ipcHandlers';
 import { initReminderManager } from './reminderManager';
 
 let mainWindow: BrowserWindow | null = null;
+let tray: Tray | null = null;
+let trashPurgeTimer: NodeJS.Timeout | null = null;
 
 const isDev = !app.isPackaged;
 
+/**
+ * Bring the main window back from the tray or taskbar
+ */
+function showMainWindow(): void {
+  if (mainWindow) {
+    if (mainWindow.isMinimized()) {
+      mainWindow.restore();
+    }
+    mainWindow.show();
+    mainWindow.focus();
+  }
+}
+
+/**
+ * Create the tray icon on first use
+ */
+function ensureTray(): void {
+  if (tray) return;
+
+  // The packaged app ships the icon as an extra resource
+  const iconPath = isDev
+    ? path.join(__dirname, '../../build/icon-32.png')
+    : path.join(process.resourcesPath, 'icon-32.png');
+
+  tray = new Tray(nativeImage.createFromPath(iconPath));
+  tray.setToolTip("George's Ticker");
+  tray.setContextMenu(Menu.buildFromTemplate([
+    { label: 'Show', click: showMainWindow },
+    { type: 'separator' },
+    { label: 'Quit', click: () => app.quit() },
+  ]));
+  tray.on('click', showMainWindow);
+}
+
+/**
+ * Open the database, or explain why it can't be opened and quit.
+ * Returns false when startup has been aborted.
+ */
+function openDatabaseOrQuit(): boolean {
+  try {
+    initDatabase();
+    return true;
+  } catch (error) {
+    console.error('Failed to open database:', error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof DatabaseMigrationError && error.reason === 'newer_schema') {
+      dialog.showErrorBox('Database Is Newer Than This App', message);
+    } else if (error instanceof DatabaseMigrationError && error.preMigrationCopy) {
+      const choice = dialog.showMessageBoxSync({
+        type: 'error',
+        title: 'Database Upgrade Failed',
+        message: 'Your data could not be upgraded to this version of the app.',
+        detail: `${message}\n\nA copy of your data was saved before the upgrade started. Restore it to undo any partial changes, then install a fixed version of the app.`,
+        buttons: ['Restore Copy and Quit', 'Quit'],
+        defaultId: 0,
+        cancelId: 1,
+      });
+      if (choice === 0) {
+        try {
+          replaceDatabaseFile(error.preMigrationCopy);
+        } catch (restoreError) {
+          console.error('Failed to restore pre-migration copy:', restoreError);
+          dialog.showErrorBox(
+            'Restore Failed',
+            `The copy could not be restored automatically. It is saved at:\n${error.preMigrationCopy}`
+          );
+        }
+      }
+    } else {
+      dialog.showErrorBox('Database Error', message);
+    }
+
+    app.exit(1);
+    return false;
+  }
+}
+
+/**
+ * Permanently delete items that have outlived the trash retention period
+ */
+function purgeExpiredTrash(): void {
+  const purged = trashService.purgeExpired(settingsService.get().trashRetentionDays);
+  if (purged > 0) {
+    console.log(`Purged ${purged} expired items from the trash`);
+    clearHistoryAndPruneFiles();
+  }
+}
+
 function createWindow(): void {
   // Initialize database before creating window
-  initDatabase();
+  if (!openDatabaseOrQuit()) {
+    return;
+  }
+
+  // Apply the saved theme before any window is shown
+  const settings = settingsService.get();
+  nativeTheme.themeSource = settings.theme;
+
+  // Purge the trash on startup and once a day after that
+  if (!trashPurgeTimer) {
+    purgeExpiredTrash();
+    trashPurgeTimer = setInterval(purgeExpiredTrash, 24 * 60 * 60 * 1000);
+  }
 
   // Setup IPC handlers
   setupIpcHandlers();
@@ -31,9 +141,15 @@ function createWindow(): void {
     show: false,
   });
 
-  // Show window when ready
+  // Show window when ready (unless the user asked to start minimized)
   mainWindow.once('ready-to-show', () => {
-    mainWindow?.show();
+    if (!settings.startMinimized) {
+      mainWindow?.show();
+    } else if (settings.minimizeToTray) {
+      ensureTray();
+    } else {
+      mainWindow?.minimize();
+    }
 
     // Initialize reminder manager after window is ready
     if (mainWindow) {
@@ -52,14 +168,19 @@ function createWindow(): void {
   // Register global shortcut for quick add (Ctrl/Cmd+Shift+A)
   globalShortcut.register('CommandOrControl+Shift+A', () => {
     if (mainWindow) {
-      if (mainWindow.isMinimized()) {
-        mainWindow.restore();
-      }
-      mainWindow.focus();
+      showMainWindow();
       mainWindow.webContents.send('quick-add-task');
     }
   });
 
+  // Hide to the tray instead of the taskbar when enabled
+  mainWindow.on('minimize', () => {
+    if (settingsService.get().minimizeToTray) {
+      ensureTray();
+      mainWindow?.hide();
+    }
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
@@ -89,6 +210,9 @@ app.on('window-all-closed', () => {
 app.on('will-quit', () => {
   // Unregister all shortcuts
   globalShortcut.unregisterAll();
+  // Remove the tray icon
+  tray?.destroy();
+  tray = null;
   // Close database
   closeDatabase();
 });
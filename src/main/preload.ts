@@ -1,16 +1,20 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 import { IPC_CHANNELS } from '../shared/types';
 import type {
   Task,
-  Subtask,
+  TaskTemplate,
+  InstantiateTemplateOptions,
+  Attachment,
+  TimeEntry,
+  TaskTimeSummary,
   TaskWithSubtasks,
   List,
+  Folder,
+  Section,
   Tag,
   Reminder,
   CreateTaskDTO,
   UpdateTaskDTO,
-  CreateSubtaskDTO,
-  UpdateSubtaskDTO,
   CreateListDTO,
   UpdateListDTO,
   CreateTagDTO,
@@ -31,6 +35,20 @@ import type {
   UpdateHabitDTO,
   TaskStats,
   DashboardStats,
+  BackupImportMode,
+  BackupResult,
+  SnapshotInfo,
+  TrashContents,
+  TrashItemType,
+  TaskActivity,
+  UndoState,
+  TaskDependencies,
+  TaskDependencyLink,
+  TaskProgress,
+  TaskSearchResult,
+  SavedFilter,
+  CreateSavedFilterDTO,
+  UpdateSavedFilterDTO,
 } from '../shared/types';
 
 // Expose protected methods that allow the renderer process to use
@@ -56,20 +74,38 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.TASK_REORDER, taskIds),
     search: (filter: TaskFilter): Promise<Task[]> =>
       ipcRenderer.invoke(IPC_CHANNELS.TASK_SEARCH, filter),
-    completeRecurring: (taskId: string): Promise<{ completedTask: Task; nextTask: Task | null } | null> =>
+    searchText: (query: string, limit?: number): Promise<TaskSearchResult[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_SEARCH_TEXT, query, limit),
+    completeRecurring: (
+      taskId: string
+    ): Promise<{ completedTask: Task; nextTask: Task | null; missedTasks: Task[] } | null> =>
       ipcRenderer.invoke(IPC_CHANNELS.TASK_COMPLETE_RECURRING, taskId),
-  },
-
-  // Subtask operations
-  subtask: {
-    create: (data: CreateSubtaskDTO): Promise<Subtask> =>
-      ipcRenderer.invoke(IPC_CHANNELS.SUBTASK_CREATE, data),
-    update: (id: string, data: UpdateSubtaskDTO): Promise<Subtask | null> =>
-      ipcRenderer.invoke(IPC_CHANNELS.SUBTASK_UPDATE, id, data),
-    delete: (id: string): Promise<boolean> =>
-      ipcRenderer.invoke(IPC_CHANNELS.SUBTASK_DELETE, id),
-    reorder: (subtaskIds: string[]): Promise<void> =>
-      ipcRenderer.invoke(IPC_CHANNELS.SUBTASK_REORDER, subtaskIds),
+    getActivity: (taskId: string): Promise<TaskActivity[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_GET_ACTIVITY, taskId),
+    getDependencies: (taskId: string): Promise<TaskDependencies> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_GET_DEPENDENCIES, taskId),
+    addDependency: (taskId: string, dependsOnId: string): Promise<{ success: boolean; error?: string }> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_ADD_DEPENDENCY, taskId, dependsOnId),
+    removeDependency: (taskId: string, dependsOnId: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_REMOVE_DEPENDENCY, taskId, dependsOnId),
+    getBlockedIds: (): Promise<string[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_GET_BLOCKED_IDS),
+    getDependencyLinks: (taskIds: string[]): Promise<TaskDependencyLink[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_GET_DEPENDENCY_LINKS, taskIds),
+    indent: (id: string): Promise<Task | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_INDENT, id),
+    outdent: (id: string): Promise<Task | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_OUTDENT, id),
+    getProgress: (): Promise<Record<string, TaskProgress>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_GET_PROGRESS),
+    updateMany: (ids: string[], data: UpdateTaskDTO): Promise<Task[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_UPDATE_MANY, ids, data),
+    deleteMany: (ids: string[]): Promise<number> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_DELETE_MANY, ids),
+    completeMany: (ids: string[]): Promise<{ completedTasks: Task[]; nextTasks: Task[] }> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_COMPLETE_MANY, ids),
+    shiftDates: (ids: string[], days: number): Promise<Task[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASK_SHIFT_DATES, ids, days),
   },
 
   // List operations
@@ -86,6 +122,56 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.LIST_DELETE, id),
     reorder: (listIds: string[]): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.LIST_REORDER, listIds),
+    move: (id: string, folderId: string | null, listIds: string[]): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.LIST_MOVE, id, folderId, listIds),
+  },
+
+  // Folder operations
+  folder: {
+    create: (name: string): Promise<Folder> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDER_CREATE, name),
+    getAll: (): Promise<Folder[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDER_GET_ALL),
+    rename: (id: string, name: string): Promise<Folder | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDER_RENAME, id, name),
+    delete: (id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDER_DELETE, id),
+    reorder: (folderIds: string[]): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDER_REORDER, folderIds),
+    getTasks: (id: string): Promise<Task[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDER_GET_TASKS, id),
+  },
+
+  // Section operations
+  section: {
+    create: (listId: string, name: string): Promise<Section> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECTION_CREATE, listId, name),
+    getByList: (listId: string): Promise<Section[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECTION_GET_BY_LIST, listId),
+    rename: (id: string, name: string): Promise<Section | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECTION_RENAME, id, name),
+    delete: (id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECTION_DELETE, id),
+    reorder: (sectionIds: string[]): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECTION_REORDER, sectionIds),
+    moveTask: (taskId: string, sectionId: string | null, taskIds: string[]): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECTION_MOVE_TASK, taskId, sectionId, taskIds),
+  },
+
+  // Saved filter (custom smart list) operations
+  savedFilter: {
+    create: (data: CreateSavedFilterDTO): Promise<SavedFilter> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAVED_FILTER_CREATE, data),
+    getAll: (): Promise<SavedFilter[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAVED_FILTER_GET_ALL),
+    update: (id: string, data: UpdateSavedFilterDTO): Promise<SavedFilter | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAVED_FILTER_UPDATE, id, data),
+    delete: (id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAVED_FILTER_DELETE, id),
+    reorder: (filterIds: string[]): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAVED_FILTER_REORDER, filterIds),
+    getTasks: (id: string): Promise<Task[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAVED_FILTER_GET_TASKS, id),
   },
 
   // Tag operations
@@ -102,6 +188,48 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.TAG_ADD_TO_TASK, taskId, tagId),
     removeFromTask: (taskId: string, tagId: string): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.TAG_REMOVE_FROM_TASK, taskId, tagId),
+    addToTasks: (taskIds: string[], tagId: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAG_ADD_TO_TASKS, taskIds, tagId),
+    removeFromTasks: (taskIds: string[], tagId: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAG_REMOVE_FROM_TASKS, taskIds, tagId),
+    merge: (sourceId: string, targetId: string): Promise<Tag | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAG_MERGE, sourceId, targetId),
+    deleteMany: (ids: string[]): Promise<number> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAG_DELETE_MANY, ids),
+    getUsage: (): Promise<Record<string, number>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAG_GET_USAGE),
+  },
+
+  // Task template operations
+  template: {
+    create: (taskId: string, name: string): Promise<TaskTemplate> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TEMPLATE_CREATE, taskId, name),
+    getAll: (): Promise<TaskTemplate[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TEMPLATE_GET_ALL),
+    rename: (id: string, name: string): Promise<TaskTemplate | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TEMPLATE_RENAME, id, name),
+    delete: (id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TEMPLATE_DELETE, id),
+    instantiate: (id: string, options?: InstantiateTemplateOptions): Promise<Task> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TEMPLATE_INSTANTIATE, id, options),
+  },
+
+  // Attachment operations
+  attachment: {
+    add: (taskId: string, filePaths: string[]): Promise<{ success: boolean; error?: string }> =>
+      ipcRenderer.invoke(IPC_CHANNELS.ATTACHMENT_ADD, taskId, filePaths),
+    getByTask: (taskId: string): Promise<Attachment[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.ATTACHMENT_GET_BY_TASK, taskId),
+    remove: (id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.ATTACHMENT_REMOVE, id),
+    open: (id: string): Promise<{ success: boolean; error?: string }> =>
+      ipcRenderer.invoke(IPC_CHANNELS.ATTACHMENT_OPEN, id),
+    getThumbnail: (id: string): Promise<string | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.ATTACHMENT_GET_THUMBNAIL, id),
+    chooseFiles: (): Promise<string[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.ATTACHMENT_CHOOSE_FILES),
+    // Dropped File objects don't expose their path to the page any more
+    getPathForFile: (file: File): string => webUtils.getPathForFile(file),
   },
 
   // Reminder operations
@@ -165,6 +293,20 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.POMODORO_UPDATE_SETTINGS, data),
   },
 
+  // Time tracking operations
+  time: {
+    start: (taskId: string): Promise<TimeEntry> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TIME_START, taskId),
+    stop: (): Promise<TimeEntry | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TIME_STOP),
+    getRunning: (): Promise<TimeEntry | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TIME_GET_RUNNING),
+    getSummary: (taskId: string): Promise<TaskTimeSummary> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TIME_GET_SUMMARY, taskId),
+    deleteEntry: (id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TIME_DELETE_ENTRY, id),
+  },
+
   // Habit operations
   habit: {
     create: (data: CreateHabitDTO): Promise<Habit> =>
@@ -189,6 +331,10 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.HABIT_GET_COMPLETIONS, habitId, startDate, endDate),
     getAllWithStats: (includeArchived?: boolean): Promise<HabitWithStats[]> =>
       ipcRenderer.invoke(IPC_CHANNELS.HABIT_GET_WITH_STATS, includeArchived),
+    // Listen for habit reminder notification clicks
+    onReminderClicked: (callback: (habitId: string) => void) => {
+      ipcRenderer.on('habit-reminder:clicked', (_event, habitId) => callback(habitId));
+    },
   },
 
   // Statistics operations
@@ -198,6 +344,40 @@ const electronAPI = {
     getDashboard: (): Promise<DashboardStats> =>
       ipcRenderer.invoke(IPC_CHANNELS.STATS_GET_DASHBOARD),
   },
+
+  // Trash operations
+  trash: {
+    getAll: (): Promise<TrashContents> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TRASH_GET_ALL),
+    restore: (type: TrashItemType, id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TRASH_RESTORE, type, id),
+    purge: (type: TrashItemType, id: string): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TRASH_PURGE, type, id),
+    empty: (): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TRASH_EMPTY),
+  },
+
+  // Backup operations
+  backup: {
+    export: (): Promise<BackupResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.BACKUP_EXPORT),
+    import: (mode: BackupImportMode): Promise<BackupResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.BACKUP_IMPORT, mode),
+    listSnapshots: (): Promise<SnapshotInfo[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SNAPSHOT_LIST),
+    restoreSnapshot: (fileName: string): Promise<BackupResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SNAPSHOT_RESTORE, fileName),
+  },
+
+  // Undo/redo of data changes
+  undo: {
+    undo: (): Promise<string | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.UNDO),
+    redo: (): Promise<string | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.REDO),
+    getState: (): Promise<UndoState> =>
+      ipcRenderer.invoke(IPC_CHANNELS.UNDO_GET_STATE),
+  },
 };
 
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
@@ -2,11 +2,15 @@ import { Notification, BrowserWindow } from 'electron';
 import schedule from 'node-schedule';
 import { reminderService } from '../database/reminderService';
 import { taskService } from '../database/taskService';
-import type { Reminder } from '../shared/types';
+import { habitService } from '../database/habitService';
+import type { Reminder, Habit } from '../shared/types';
 
 // Store scheduled jobs by reminder ID
 const scheduledJobs: Map<string, schedule.Job> = new Map();
 
+// Store recurring habit reminder jobs by habit ID
+const habitJobs: Map<string, schedule.Job> = new Map();
+
 // Store the main window reference for sending IPC messages
 let mainWindowRef: BrowserWindow | null = null;
 
@@ -19,6 +23,9 @@ export function initReminderManager(mainWindow: BrowserWindow): void {
   // Schedule all pending reminders
   scheduleAllPendingReminders();
 
+  // Schedule daily habit reminders
+  scheduleAllHabitReminders();
+
   // Check for due reminders every minute (as a fallback)
   setInterval(checkDueReminders, 60000);
 }
@@ -93,6 +100,12 @@ async function triggerReminder(reminder: Reminder): Promise<void> {
     return;
   }
 
+  // Keep reminders of trashed tasks pending in case the task is restored
+  if (task.deletedAt) {
+    scheduledJobs.delete(reminder.id);
+    return;
+  }
+
   // Don't trigger for completed tasks
   if (task.completed) {
     reminderService.markTriggered(reminder.id);
@@ -175,3 +188,107 @@ export function deleteReminder(reminderId: string): boolean {
   cancelReminder(reminderId);
   return reminderService.delete(reminderId);
 }
+
+/**
+ * Schedule reminders for all active habits
+ */
+export function scheduleAllHabitReminders(): void {
+  // Cancel all existing habit jobs
+  habitJobs.forEach(job => job.cancel());
+  habitJobs.clear();
+
+  const habits = habitService.getAll(false);
+  habits.forEach(habit => {
+    scheduleHabitReminder(habit);
+  });
+
+  console.log(`Scheduled ${habitJobs.size} habit reminders`);
+}
+
+/**
+ * Schedule (or reschedule) the recurring reminder for a habit.
+ * Archived habits and habits without a reminder time are left unscheduled.
+ */
+export function scheduleHabitReminder(habit: Habit): void {
+  cancelHabitReminder(habit.id);
+
+  if (habit.archived || !habit.reminderTime) {
+    return;
+  }
+
+  const [hours, minutes] = habit.reminderTime.split(':').map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+    return;
+  }
+
+  // Daily habits fire every day, weekly/custom habits only on their target days
+  const daysOfWeek = habit.frequency === 'daily'
+    ? [0, 1, 2, 3, 4, 5, 6]
+    : habit.targetDays;
+  if (daysOfWeek.length === 0) {
+    return;
+  }
+
+  const rule = new schedule.RecurrenceRule();
+  rule.dayOfWeek = daysOfWeek;
+  rule.hour = hours;
+  rule.minute = minutes;
+
+  const job = schedule.scheduleJob(rule, () => {
+    triggerHabitReminder(habit.id);
+  });
+
+  if (job) {
+    habitJobs.set(habit.id, job);
+  }
+}
+
+/**
+ * Cancel the recurring reminder for a habit
+ */
+export function cancelHabitReminder(habitId: string): void {
+  const job = habitJobs.get(habitId);
+  if (job) {
+    job.cancel();
+    habitJobs.delete(habitId);
+  }
+}
+
+/**
+ * Show a habit reminder notification unless the habit is already done for today
+ */
+function triggerHabitReminder(habitId: string): void {
+  // Re-read the habit so edits made since scheduling are respected
+  const habit = habitService.getById(habitId);
+  if (!habit || habit.archived) {
+    cancelHabitReminder(habitId);
+    return;
+  }
+
+  // Skip if today's target count has already been reached
+  const today = new Date().toISOString().split('T')[0];
+  const todayCount = habitService
+    .getCompletions(habit.id, today, today)
+    .reduce((sum, completion) => sum + completion.count, 0);
+  if (todayCount >= habit.targetCount) {
+    return;
+  }
+
+  if (Notification.isSupported()) {
+    const notification = new Notification({
+      title: 'Habit Reminder',
+      body: `${habit.icon} ${habit.name}`,
+      silent: false,
+    });
+
+    notification.on('click', () => {
+      if (mainWindowRef) {
+        mainWindowRef.show();
+        mainWindowRef.focus();
+        mainWindowRef.webContents.send('habit-reminder:clicked', habit.id);
+      }
+    });
+
+    notification.show();
+  }
+}
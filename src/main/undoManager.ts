@@ -0,0 +1,194 @@
+import { getDatabase } from '../database/database';
+import type { UndoState } from '../shared/types';
+
+/**
+ * Rows of one table selected by a WHERE clause. Commands describe the rows
+ * they touch as scopes so their before/after state can be captured.
+ */
+export interface UndoScope {
+  table: string;
+  where: string;
+  params: unknown[];
+}
+
+type Row = Record<string, unknown>;
+
+interface ScopeState {
+  scope: UndoScope;
+  before: Row[];
+  after: Row[];
+}
+
+interface UndoEntry {
+  label: string;
+  states: ScopeState[];
+}
+
+// Maximum number of commands kept in the undo history
+const MAX_HISTORY = 50;
+
+const undoStack: UndoEntry[] = [];
+const redoStack: UndoEntry[] = [];
+
+/**
+ * Scope for a single row by primary key
+ */
+export function byId(table: string, id: string): UndoScope {
+  return { table, where: 'id = ?', params: [id] };
+}
+
+function captureRows(scope: UndoScope): Row[] {
+  const db = getDatabase();
+  return db.prepare(`SELECT * FROM ${scope.table} WHERE ${scope.where}`).all(...scope.params) as Row[];
+}
+
+function getPrimaryKey(table: string): string[] {
+  const db = getDatabase();
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string; pk: number }[];
+  return columns
+    .filter(column => column.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map(column => column.name);
+}
+
+// Compare rows ignoring bookkeeping timestamps that change on every save
+function sameRows(a: Row[], b: Row[]): boolean {
+  const strip = (rows: Row[]) => JSON.stringify(rows.map(({ updated_at: _updatedAt, ...rest }) => rest));
+  return strip(a) === strip(b);
+}
+
+/**
+ * Bring every scope back to the given state: upsert the target rows
+ * (parents first) and delete rows that shouldn't exist (children first).
+ * Upserting instead of delete + insert keeps ON DELETE CASCADE children intact.
+ */
+function applyStates(states: ScopeState[], target: 'before' | 'after'): void {
+  const db = getDatabase();
+
+  db.transaction(() => {
+    for (const state of states) {
+      const rows = state[target];
+      if (rows.length === 0) continue;
+
+      const keyColumns = getPrimaryKey(state.scope.table);
+      for (const row of rows) {
+        const columns = Object.keys(row);
+        const assignments = columns
+          .filter(column => !keyColumns.includes(column))
+          .map(column => `${column} = excluded.${column}`);
+        const conflict = assignments.length > 0
+          ? `DO UPDATE SET ${assignments.join(', ')}`
+          : 'DO NOTHING';
+        db.prepare(`
+          INSERT INTO ${state.scope.table} (${columns.join(', ')})
+          VALUES (${columns.map(() => '?').join(', ')})
+          ON CONFLICT(${keyColumns.join(', ')}) ${conflict}
+        `).run(...columns.map(column => row[column] as any));
+      }
+    }
+
+    for (const state of [...states].reverse()) {
+      const keyColumns = getPrimaryKey(state.scope.table);
+      const keep = new Set(state[target].map(row => JSON.stringify(keyColumns.map(column => row[column]))));
+      const deleteStmt = db.prepare(
+        `DELETE FROM ${state.scope.table} WHERE ${keyColumns.map(column => `${column} = ?`).join(' AND ')}`
+      );
+
+      for (const row of captureRows(state.scope)) {
+        const key = keyColumns.map(column => row[column]);
+        if (!keep.has(JSON.stringify(key))) {
+          deleteStmt.run(...(key as any[]));
+        }
+      }
+    }
+  })();
+}
+
+/**
+ * Run a mutation and record it on the undo stack.
+ * `scopes` are captured before and after the mutation; `scopesAfter` describes
+ * rows that only exist afterwards (e.g. a created row whose ID comes from the result).
+ */
+export function recordUndoable<T>(
+  label: string,
+  scopes: UndoScope[],
+  mutate: () => T,
+  scopesAfter?: (result: T) => UndoScope[]
+): T {
+  const beforeRows = scopes.map(captureRows);
+  const result = mutate();
+
+  const states: ScopeState[] = scopes.map((scope, index) => ({
+    scope,
+    before: beforeRows[index],
+    after: captureRows(scope),
+  }));
+  if (scopesAfter) {
+    for (const scope of scopesAfter(result)) {
+      states.push({ scope, before: [], after: captureRows(scope) });
+    }
+  }
+
+  const changed = states.filter(state => !sameRows(state.before, state.after));
+  if (changed.length > 0) {
+    undoStack.push({ label, states: changed });
+    if (undoStack.length > MAX_HISTORY) {
+      undoStack.shift();
+    }
+    redoStack.length = 0;
+  }
+
+  return result;
+}
+
+/**
+ * Revert the most recent command. Returns its label, or null if there is nothing to undo.
+ */
+export function undo(): string | null {
+  const entry = undoStack.pop();
+  if (!entry) return null;
+
+  try {
+    applyStates(entry.states, 'before');
+  } catch (error) {
+    // The recorded rows no longer fit the database (e.g. a parent was purged)
+    console.error(`Failed to undo "${entry.label}":`, error);
+    clearUndoHistory();
+    return null;
+  }
+  redoStack.push(entry);
+  return entry.label;
+}
+
+/**
+ * Re-apply the most recently undone command
+ */
+export function redo(): string | null {
+  const entry = redoStack.pop();
+  if (!entry) return null;
+
+  try {
+    applyStates(entry.states, 'after');
+  } catch (error) {
+    console.error(`Failed to redo "${entry.label}":`, error);
+    clearUndoHistory();
+    return null;
+  }
+  undoStack.push(entry);
+  return entry.label;
+}
+
+export function getUndoState(): UndoState {
+  return {
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+  };
+}
+
+/**
+ * Forget all history, e.g. after the database was replaced or rows were purged
+ */
+export function clearUndoHistory(): void {
+  undoStack.length = 0;
+  redoStack.length = 0;
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { AppProvider, useApp } from './contexts/AppContext';
 import { ToastProvider } from './components/Toast';
@@ -7,16 +7,21 @@ import { TaskList } from './components/TaskList';
 import { TaskDetail } from './components/TaskDetail';
 import { CalendarView } from './components/CalendarView';
 import { EisenhowerMatrix } from './components/EisenhowerMatrix';
+import { BoardView } from './components/BoardView';
+import { TimelineView } from './components/TimelineView';
 import { PomodoroTimer } from './components/PomodoroTimer';
 import { HabitTracker } from './components/HabitTracker';
 import { StatsDashboard } from './components/StatsDashboard';
 import { GeorgeCredit } from './components/GeorgeCredit';
+import { SettingsModal } from './components/SettingsModal';
+import { TagManager } from './components/TagManager';
+import { TrashView } from './components/TrashView';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 
-type ModalView = 'none' | 'pomodoro' | 'habits' | 'stats' | 'credit';
+type ModalView = 'none' | 'pomodoro' | 'habits' | 'stats' | 'settings' | 'tags' | 'credit';
 
 function AppContent() {
-  const { viewMode } = useApp();
+  const { viewMode, selectedListId } = useApp();
   const [activeModal, setActiveModal] = useState<ModalView>('none');
 
   // Global keyboard shortcuts
@@ -26,18 +31,35 @@ function AppContent() {
     onOpenStats: () => setActiveModal('stats'),
   });
 
+  // Open the habit tracker when a habit reminder notification is clicked
+  useEffect(() => {
+    window.electronAPI.habit.onReminderClicked(() => {
+      setActiveModal('habits');
+    });
+  }, []);
+
   return (
     <div className="flex h-screen bg-white dark:bg-gray-900">
       <Sidebar
         onOpenPomodoro={() => setActiveModal('pomodoro')}
         onOpenHabits={() => setActiveModal('habits')}
         onOpenStats={() => setActiveModal('stats')}
+        onOpenTags={() => setActiveModal('tags')}
+        onOpenSettings={() => setActiveModal('settings')}
         onShowCredit={() => setActiveModal('credit')}
       />
       <main className="flex-1 flex overflow-hidden">
-        {viewMode === 'list' && <TaskList />}
-        {viewMode === 'calendar' && <CalendarView />}
-        {viewMode === 'matrix' && <EisenhowerMatrix />}
+        {selectedListId === 'trash' ? (
+          <TrashView />
+        ) : (
+          <>
+            {viewMode === 'list' && <TaskList />}
+            {viewMode === 'calendar' && <CalendarView />}
+            {viewMode === 'matrix' && <EisenhowerMatrix />}
+            {viewMode === 'board' && <BoardView />}
+            {viewMode === 'timeline' && <TimelineView />}
+          </>
+        )}
         <TaskDetail />
       </main>
 
@@ -45,6 +67,8 @@ function AppContent() {
       <PomodoroTimer isOpen={activeModal === 'pomodoro'} onClose={() => setActiveModal('none')} />
       <HabitTracker isOpen={activeModal === 'habits'} onClose={() => setActiveModal('none')} />
       <StatsDashboard isOpen={activeModal === 'stats'} onClose={() => setActiveModal('none')} />
+      <SettingsModal isOpen={activeModal === 'settings'} onClose={() => setActiveModal('none')} />
+      <TagManager isOpen={activeModal === 'tags'} onClose={() => setActiveModal('none')} />
       <GeorgeCredit isOpen={activeModal === 'credit'} onClose={() => setActiveModal('none')} />
     </div>
   );
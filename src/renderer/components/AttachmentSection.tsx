@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useToast } from './Toast';
+import type { Attachment } from '../../shared/types';
+
+interface AttachmentSectionProps {
+  taskId: string;
+}
+
+// Human-readable file size, e.g. "1.4 MB"
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Attached files for the task detail panel. Files dropped onto the panel
+// are added by TaskDetail; this reloads when tasks change.
+export function AttachmentSection({ taskId }: AttachmentSectionProps) {
+  const { tasks, loadTasks, dataVersion } = useApp();
+  const { showToast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  const loadAttachments = useCallback(async () => {
+    const loaded = await window.electronAPI.attachment.getByTask(taskId);
+    setAttachments(loaded);
+
+    // Images get a small preview, everything else shows a file icon
+    const previews: Record<string, string> = {};
+    for (const attachment of loaded) {
+      if (!attachment.mimeType?.startsWith('image/')) continue;
+      const thumbnail = await window.electronAPI.attachment.getThumbnail(attachment.id);
+      if (thumbnail) previews[attachment.id] = thumbnail;
+    }
+    setThumbnails(previews);
+  }, [taskId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments, tasks, dataVersion]);
+
+  const handleAdd = async () => {
+    const filePaths = await window.electronAPI.attachment.chooseFiles();
+    if (filePaths.length === 0) return;
+
+    const result = await window.electronAPI.attachment.add(taskId, filePaths);
+    if (!result.success) {
+      showToast(result.error ?? 'Could not attach the file');
+    }
+    await loadTasks();
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    const result = await window.electronAPI.attachment.open(attachment.id);
+    if (!result.success) {
+      showToast(result.error ?? `Could not open ${attachment.fileName}`);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    await window.electronAPI.attachment.remove(id);
+    await loadTasks();
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Attachments
+      </label>
+      <div className="space-y-1.5">
+        {attachments.map(attachment => (
+          <div key={attachment.id} className="flex items-center gap-2 group">
+            {thumbnails[attachment.id] ? (
+              <img
+                src={thumbnails[attachment.id]}
+                alt=""
+                className="flex-shrink-0 w-8 h-8 rounded object-cover border border-gray-200 dark:border-gray-700"
+              />
+            ) : (
+              <span className="flex-shrink-0 w-8 h-8 flex items-center justify-center rounded bg-gray-100 dark:bg-gray-800">
+                <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+                  />
+                </svg>
+              </span>
+            )}
+            <button
+              onClick={() => handleOpen(attachment)}
+              className="flex-1 min-w-0 text-left hover:underline"
+              title={`Open ${attachment.fileName}`}
+            >
+              <span className="block text-sm truncate text-gray-700 dark:text-gray-300">{attachment.fileName}</span>
+              <span className="block text-xs text-gray-400">{formatSize(attachment.size)}</span>
+            </button>
+            <button
+              onClick={() => handleRemove(attachment.id)}
+              className="p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 rounded transition-opacity"
+              title="Remove attachment"
+            >
+              <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={handleAdd}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-500 dark:text-gray-400 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg hover:border-primary-500 hover:text-primary-500 transition-colors"
+          title="Attach files (or drop them onto this panel)"
+        >
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+            />
+          </svg>
+          Attach file
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useState } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  useDroppable,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { useApp } from '../contexts/AppContext';
+import { useToast } from './Toast';
+import { flattenTaskTree, groupRowsBySection, resolveSectionDrop, sectionDropId, type SectionGroup } from '../utils/taskTree';
+import type { Task, Section, Priority } from '../../shared/types';
+
+const priorityColors: Record<Priority, string> = {
+  none: 'border-gray-400 dark:border-gray-500',
+  low: 'border-green-500',
+  medium: 'border-yellow-500',
+  high: 'border-red-500',
+};
+
+function formatDate(dateStr: string): string {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const taskDate = new Date(dateStr);
+  taskDate.setHours(0, 0, 0, 0);
+
+  if (taskDate.getTime() === today.getTime()) return 'Today';
+  if (taskDate.getTime() === tomorrow.getTime()) return 'Tomorrow';
+  if (taskDate < today) return 'Overdue';
+
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function BoardCard({ task, onToggleComplete }: { task: Task; onToggleComplete: (task: Task) => void }) {
+  const { setSelectedTaskId, taskProgress } = useApp();
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: task.id });
+  const progress = taskProgress[task.id];
+  const dueText = task.dueDate ? formatDate(task.dueDate) : null;
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1 }}
+      {...attributes}
+      {...listeners}
+      onClick={() => setSelectedTaskId(task.id)}
+      className="flex items-start gap-2 p-2.5 rounded-md bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-sm cursor-grab active:cursor-grabbing hover:border-gray-300 dark:hover:border-gray-600"
+    >
+      <button
+        onClick={e => {
+          e.stopPropagation();
+          onToggleComplete(task);
+        }}
+        className={`flex-shrink-0 w-4 h-4 mt-0.5 rounded-full border-2 hover:scale-105 transition-transform ${priorityColors[task.priority]}`}
+        title="Complete task"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-900 dark:text-gray-100 break-words">{task.title}</p>
+        {(dueText || progress) && (
+          <div className="flex items-center gap-2 mt-1">
+            {dueText && (
+              <span className={`text-xs ${dueText === 'Overdue' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                {dueText}
+                {task.dueTime && ` ${task.dueTime}`}
+              </span>
+            )}
+            {progress && (
+              <span className="text-xs text-gray-500 dark:text-gray-400" title="Subtasks completed">
+                {progress.completed}/{progress.total}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BoardColumn({
+  group,
+  isFirst,
+  isLast,
+  onToggleComplete,
+  onMove,
+}: {
+  group: SectionGroup;
+  isFirst: boolean;
+  isLast: boolean;
+  onToggleComplete: (task: Task) => void;
+  onMove: (section: Section, direction: -1 | 1) => void;
+}) {
+  const { selectedListId, createTask, renameSection, deleteSection } = useApp();
+  const { setNodeRef, isOver } = useDroppable({ id: sectionDropId(group.section) });
+  const [newTaskTitle, setNewTaskTitle] = useState<string | null>(null);
+  const [name, setName] = useState<string | null>(null);
+  const { section } = group;
+
+  const handleAddTask = async () => {
+    if (newTaskTitle?.trim()) {
+      await createTask(newTaskTitle.trim(), { listId: selectedListId, sectionId: section?.id ?? null });
+      setNewTaskTitle('');
+    }
+  };
+
+  const finishRename = () => {
+    if (section && name?.trim() && name.trim() !== section.name) {
+      renameSection(section.id, name.trim());
+    }
+    setName(null);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex-shrink-0 w-72 flex flex-col max-h-full rounded-lg transition-colors ${
+        isOver ? 'bg-primary-50 dark:bg-primary-900/20' : 'bg-gray-100 dark:bg-gray-800'
+      }`}
+    >
+      {/* Header */}
+      <div className="group flex-shrink-0 flex items-center gap-1 px-3 py-2">
+        {name !== null ? (
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') finishRename();
+              if (e.key === 'Escape') setName(null);
+            }}
+            onBlur={finishRename}
+            className="flex-1 min-w-0 px-1 py-0 text-sm font-semibold border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 focus:border-primary-500"
+            autoFocus
+          />
+        ) : (
+          <h3
+            className="flex-1 min-w-0 truncate text-sm font-semibold text-gray-700 dark:text-gray-200"
+            onDoubleClick={() => section && setName(section.name)}
+            title={section ? 'Double-click to rename' : undefined}
+          >
+            {section?.name ?? 'No Section'}
+          </h3>
+        )}
+        <span className="text-xs text-gray-400">{group.rows.length}</span>
+        {section && name === null && (
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+            {!isFirst && (
+              <button
+                onClick={() => onMove(section, -1)}
+                className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400"
+                title="Move section left"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+            )}
+            {!isLast && (
+              <button
+                onClick={() => onMove(section, 1)}
+                className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400"
+                title="Move section right"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={() => {
+                if (confirm(`Delete the section "${section.name}"? Its tasks stay in the list.`)) {
+                  deleteSection(section.id);
+                }
+              }}
+              className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400"
+              title="Delete section"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Cards */}
+      <SortableContext items={group.rows.map(row => row.task.id)} strategy={verticalListSortingStrategy}>
+        <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-2 min-h-[60px]">
+          {group.rows.map(({ task }) => (
+            <BoardCard key={task.id} task={task} onToggleComplete={onToggleComplete} />
+          ))}
+        </div>
+      </SortableContext>
+
+      {/* Add card */}
+      <div className="flex-shrink-0 px-2 pb-2">
+        {newTaskTitle !== null ? (
+          <input
+            type="text"
+            value={newTaskTitle}
+            onChange={e => setNewTaskTitle(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleAddTask();
+              if (e.key === 'Escape') setNewTaskTitle(null);
+            }}
+            onBlur={() => {
+              if (!newTaskTitle.trim()) setNewTaskTitle(null);
+            }}
+            placeholder="Task title..."
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 focus:border-primary-500"
+            autoFocus
+          />
+        ) : (
+          <button
+            onClick={() => setNewTaskTitle('')}
+            className="w-full px-2 py-1 text-left text-xs text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+          >
+            + Add task
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function BoardView() {
+  const {
+    tasks,
+    lists,
+    selectedListId,
+    sections,
+    createSection,
+    reorderSections,
+    moveTaskToSection,
+    loadTasks,
+    toggleTaskComplete,
+    undo,
+  } = useApp();
+  const { showToast } = useToast();
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [newSectionName, setNewSectionName] = useState<string | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const list = lists.find(l => l.id === selectedListId);
+  const incompleteTasks = tasks.filter(t => !t.completed);
+
+  // Cards are top-level tasks; subtasks show as progress on their parent's card
+  const topLevelRows = flattenTaskTree(incompleteTasks, new Set(incompleteTasks.map(t => t.id)));
+  const groups = groupRowsBySection(topLevelRows, sections).filter(
+    group => group.section || group.rows.length > 0 || sections.length === 0
+  );
+
+  const handleToggleComplete = async (task: Task) => {
+    await toggleTaskComplete(task.id);
+    showToast(`"${task.title}" completed`, {
+      label: 'Undo',
+      onClick: async () => {
+        await undo();
+      },
+    });
+  };
+
+  const handleMoveSection = (section: Section, direction: -1 | 1) => {
+    const ids = sections.map(s => s.id);
+    const index = ids.indexOf(section.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    reorderSections(ids);
+  };
+
+  const handleAddSection = async () => {
+    if (newSectionName?.trim()) {
+      await createSection(newSectionName.trim());
+      setNewSectionName(null);
+    }
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTask(incompleteTasks.find(t => t.id === event.active.id) ?? null);
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveTask(null);
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const task = incompleteTasks.find(t => t.id === active.id);
+    const drop = resolveSectionDrop(groups, active.id as string, over.id as string);
+    if (!task || !drop) return;
+
+    if (drop.sectionId !== task.sectionId) {
+      await moveTaskToSection(task.id, drop.sectionId, drop.taskIds);
+    } else {
+      await window.electronAPI.task.reorder(drop.taskIds);
+      await loadTasks();
+    }
+  };
+
+  if (!list) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-gray-400 dark:text-gray-500">
+        <p className="text-lg font-medium">Boards are per list</p>
+        <p className="text-sm mt-1">Choose a list in the sidebar to see its sections as columns</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="flex-shrink-0 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 truncate">{list.name}</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {incompleteTasks.length} task{incompleteTasks.length !== 1 ? 's' : ''} in {sections.length} section
+          {sections.length !== 1 ? 's' : ''}
+        </p>
+      </header>
+
+      {/* Columns */}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCorners}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActiveTask(null)}
+      >
+        <div className="flex-1 flex items-start gap-3 p-4 overflow-x-auto">
+          {groups.map(group => (
+            <BoardColumn
+              key={group.section?.id ?? 'none'}
+              group={group}
+              isFirst={group.section?.id === sections[0]?.id}
+              isLast={group.section?.id === sections[sections.length - 1]?.id}
+              onToggleComplete={handleToggleComplete}
+              onMove={handleMoveSection}
+            />
+          ))}
+
+          {/* Add section */}
+          <div className="flex-shrink-0 w-72">
+            {newSectionName !== null ? (
+              <input
+                type="text"
+                value={newSectionName}
+                onChange={e => setNewSectionName(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleAddSection();
+                  if (e.key === 'Escape') setNewSectionName(null);
+                }}
+                onBlur={() => {
+                  if (!newSectionName.trim()) setNewSectionName(null);
+                }}
+                placeholder="Section name..."
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 focus:border-primary-500"
+                autoFocus
+              />
+            ) : (
+              <button
+                onClick={() => setNewSectionName('')}
+                className="w-full px-3 py-2 text-left text-sm text-gray-500 dark:text-gray-400 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg hover:border-primary-500 hover:text-primary-500 transition-colors"
+              >
+                + Add section
+              </button>
+            )}
+          </div>
+        </div>
+
+        <DragOverlay>
+          {activeTask ? (
+            <div className="p-2.5 rounded-md bg-white dark:bg-gray-800 shadow-lg border border-gray-200 dark:border-gray-600 cursor-grabbing">
+              <p className="text-sm text-gray-900 dark:text-gray-100">{activeTask.title}</p>
+            </div>
+          ) : null}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+}
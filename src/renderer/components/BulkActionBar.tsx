@@ -0,0 +1,227 @@
+import { useState, useMemo } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useToast } from './Toast';
+import { formatDateKey, addDays } from '../utils/calendar';
+import type { Priority } from '../../shared/types';
+
+interface BulkActionBarProps {
+  taskIds: string[]; // Selected tasks in list order, so parents come before their children
+  onClearSelection: () => void;
+}
+
+const SELECT_CLASS =
+  'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200';
+
+// Date moves offered for the selection; tasks keep the gap between their start and due dates
+const SHIFT_OPTIONS = [
+  { days: 1, label: '1 day later' },
+  { days: 7, label: '1 week later' },
+  { days: -1, label: '1 day earlier' },
+  { days: -7, label: '1 week earlier' },
+];
+
+// Actions for the tasks selected in the list; each one is a single undo step
+export function BulkActionBar({ taskIds, onClearSelection }: BulkActionBarProps) {
+  const {
+    tasks,
+    lists,
+    tags,
+    updateTasks,
+    completeTasks,
+    deleteTasks,
+    shiftTaskDates,
+    addTagToTasks,
+    removeTagFromTasks,
+    undo,
+  } = useApp();
+  const { showToast } = useToast();
+  const [isPickingDate, setIsPickingDate] = useState(false);
+
+  const count = taskIds.length;
+  const countText = `${count} task${count !== 1 ? 's' : ''}`;
+  const allCompleted = taskIds.every(id => tasks.find(t => t.id === id)?.completed);
+  const sortedTags = useMemo(() => [...tags].sort((a, b) => a.name.localeCompare(b.name)), [tags]);
+
+  // Run an action and offer to undo it
+  const run = async (action: () => Promise<void>, message: string) => {
+    await action();
+    showToast(message, {
+      label: 'Undo',
+      onClick: async () => {
+        await undo();
+      },
+    });
+  };
+
+  const handleComplete = () => {
+    if (allCompleted) {
+      run(() => updateTasks(taskIds, { completed: false }), `Reopened ${countText}`);
+    } else {
+      run(() => completeTasks(taskIds), `Completed ${countText}`);
+    }
+    onClearSelection();
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${countText}? Subtasks are deleted with their parent.`)) return;
+    run(() => deleteTasks(taskIds), `Deleted ${countText}`);
+    onClearSelection();
+  };
+
+  const handleMove = (value: string) => {
+    const listId = value === 'inbox' ? null : value;
+    const name = listId ? lists.find(l => l.id === listId)?.name : 'Inbox';
+    run(() => updateTasks(taskIds, { listId }), `Moved ${countText} to ${name}`);
+  };
+
+  const handlePriority = (priority: Priority) => {
+    run(() => updateTasks(taskIds, { priority }), `Set priority of ${countText} to ${priority}`);
+  };
+
+  // Values are "set:<date>", "clear", "shift:<days>" or "pick"
+  const handleDueDate = (value: string) => {
+    if (value === 'pick') {
+      setIsPickingDate(true);
+    } else if (value === 'clear') {
+      run(() => updateTasks(taskIds, { dueDate: null, dueTime: null }), `Removed the due date of ${countText}`);
+    } else if (value.startsWith('shift:')) {
+      const option = SHIFT_OPTIONS.find(o => o.days === parseInt(value.slice(6), 10));
+      if (option) {
+        run(() => shiftTaskDates(taskIds, option.days), `Moved ${countText} ${option.label}`);
+      }
+    } else {
+      setDueDate(value.slice(4));
+    }
+  };
+
+  const setDueDate = (dueDate: string) => {
+    setIsPickingDate(false);
+    run(() => updateTasks(taskIds, { dueDate }), `Set the due date of ${countText}`);
+  };
+
+  // Values are "add:<tag id>" or "remove:<tag id>"
+  const handleTag = (value: string) => {
+    const [action, tagId] = value.split(':');
+    const name = tags.find(t => t.id === tagId)?.name;
+    if (action === 'add') {
+      run(() => addTagToTasks(taskIds, tagId), `Tagged ${countText} with #${name}`);
+    } else {
+      run(() => removeTagFromTasks(taskIds, tagId), `Removed #${name} from ${countText}`);
+    }
+  };
+
+  const today = formatDateKey(new Date());
+
+  return (
+    <div className="flex-shrink-0 px-4 py-2 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2 flex-wrap">
+      <span className="text-xs font-medium text-gray-700 dark:text-gray-200">{count} selected</span>
+      <button
+        onClick={onClearSelection}
+        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded"
+        title="Clear selection (Esc)"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+
+      <div className="w-px h-4 bg-gray-300 dark:bg-gray-600" />
+
+      <button
+        onClick={handleComplete}
+        className="px-2 py-1 text-xs font-medium text-white bg-primary-500 hover:bg-primary-600 rounded transition-colors"
+      >
+        {allCompleted ? 'Reopen' : 'Complete'}
+      </button>
+
+      <select value="" onChange={e => handleMove(e.target.value)} className={SELECT_CLASS}>
+        <option value="" disabled>
+          Move to...
+        </option>
+        <option value="inbox">Inbox (No List)</option>
+        {lists.map(list => (
+          <option key={list.id} value={list.id}>
+            {list.name}
+          </option>
+        ))}
+      </select>
+
+      <select value="" onChange={e => handlePriority(e.target.value as Priority)} className={SELECT_CLASS}>
+        <option value="" disabled>
+          Priority...
+        </option>
+        <option value="high">High</option>
+        <option value="medium">Medium</option>
+        <option value="low">Low</option>
+        <option value="none">None</option>
+      </select>
+
+      {isPickingDate ? (
+        <input
+          type="date"
+          defaultValue={today}
+          onKeyDown={e => {
+            // Both keys finish on blur; Escape empties the date first so nothing is set
+            if (e.key === 'Escape') e.currentTarget.value = '';
+            if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+          }}
+          onBlur={e => {
+            if (e.target.value) setDueDate(e.target.value);
+            else setIsPickingDate(false);
+          }}
+          className={SELECT_CLASS}
+          autoFocus
+        />
+      ) : (
+        <select value="" onChange={e => handleDueDate(e.target.value)} className={SELECT_CLASS}>
+          <option value="" disabled>
+            Due date...
+          </option>
+          <optgroup label="Set to">
+            <option value={`set:${today}`}>Today</option>
+            <option value={`set:${addDays(today, 1)}`}>Tomorrow</option>
+            <option value={`set:${addDays(today, 7)}`}>Next week</option>
+            <option value="pick">Pick a date...</option>
+            <option value="clear">No date</option>
+          </optgroup>
+          <optgroup label="Move by">
+            {SHIFT_OPTIONS.map(option => (
+              <option key={option.days} value={`shift:${option.days}`}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      )}
+
+      {sortedTags.length > 0 && (
+        <select value="" onChange={e => handleTag(e.target.value)} className={SELECT_CLASS}>
+          <option value="" disabled>
+            Tags...
+          </option>
+          <optgroup label="Add tag">
+            {sortedTags.map(tag => (
+              <option key={tag.id} value={`add:${tag.id}`}>
+                #{tag.name}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Remove tag">
+            {sortedTags.map(tag => (
+              <option key={tag.id} value={`remove:${tag.id}`}>
+                #{tag.name}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      )}
+
+      <button
+        onClick={handleDelete}
+        className="ml-auto px-2 py-1 text-xs text-red-500 hover:text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { useApp } from '../contexts/AppContext';
+import {
+  formatDateKey,
+  formatTimeOfDay,
+  getBlockMinutes,
+  getPriorityColor,
+  groupTasksByDate,
+  layoutTimedBlocks,
+  moveToDateUpdates,
+  type CalendarEntry,
+  type TimedBlock,
+} from '../utils/calendar';
+import type { Task, UpdateTaskDTO } from '../../shared/types';
+
+interface CalendarTimeGridProps {
+  days: Date[];
+}
+
+const HOUR_HEIGHT = 48; // Pixels per hour
+const SNAP_MINUTES = 15;
+const DAY_MINUTES = 24 * 60;
+const INITIAL_SCROLL_HOUR = 7;
+
+// Round to the snap interval and keep a block of `length` minutes inside the day
+function snapMinutes(minutes: number, length = SNAP_MINUTES): number {
+  const snapped = Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+  return Math.min(Math.max(snapped, 0), DAY_MINUTES - Math.min(length, DAY_MINUTES));
+}
+
+// Week and day views: an all-day strip for untimed tasks over an hourly grid
+// where timed tasks are placed by due time and sized by duration
+export function CalendarTimeGrid({ days }: CalendarTimeGridProps) {
+  const { tasks, updateTask, selectedTask, setSelectedTaskId } = useApp();
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [dropPreview, setDropPreview] = useState<{ dateKey: string; minutes: number } | null>(null);
+  const [resizing, setResizing] = useState<{ taskId: string; minutes: number } | null>(null);
+  const [now, setNow] = useState(new Date());
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const grabOffsetRef = useRef(0); // Minutes between a dragged block's top and the pointer
+  const suppressClickRef = useRef(false);
+
+  const tasksByDate = useMemo(() => groupTasksByDate(tasks, days), [tasks, days]);
+
+  // Split each day's entries into the all-day strip and timed blocks.
+  // A span's end day is timed when the task has a due time.
+  const dayColumns = useMemo(
+    () =>
+      days.map(date => {
+        const dateKey = formatDateKey(date);
+        const entries = tasksByDate[dateKey] || [];
+        const isTimed = ({ task }: CalendarEntry) =>
+          !!task.dueTime && task.dueDate?.split('T')[0] === dateKey;
+        return {
+          date,
+          dateKey,
+          allDay: entries.filter(entry => !isTimed(entry)),
+          blocks: layoutTimedBlocks(entries.filter(isTimed)),
+        };
+      }),
+    [days, tasksByDate]
+  );
+
+  // Start the grid scrolled to the morning
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = INITIAL_SCROLL_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  // Keep the current time line moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const todayKey = formatDateKey(now);
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  // Minute of the day under the pointer, allowing for where the block was grabbed
+  const getDropMinutes = (e: React.DragEvent<HTMLDivElement>): number => {
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const length = draggedTask ? getBlockMinutes(draggedTask) : SNAP_MINUTES;
+    return snapMinutes((y / HOUR_HEIGHT) * 60 - grabOffsetRef.current, length);
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, task: Task, timed: boolean) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    grabOffsetRef.current = timed ? ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 : 0;
+    setDraggedTask(task);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTask(null);
+    setDropPreview(null);
+  };
+
+  const handleGridDragOver = (e: React.DragEvent<HTMLDivElement>, dateKey: string) => {
+    if (!draggedTask) return;
+    e.preventDefault();
+    const minutes = getDropMinutes(e);
+    if (dropPreview?.dateKey !== dateKey || dropPreview.minutes !== minutes) {
+      setDropPreview({ dateKey, minutes });
+    }
+  };
+
+  const handleGridDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setDropPreview(null);
+    }
+  };
+
+  // Dropping on the grid sets the due date and time. A task with only a start
+  // date gains a due date; its start is pulled back if it would fall after it.
+  const handleGridDrop = async (e: React.DragEvent<HTMLDivElement>, dateKey: string) => {
+    e.preventDefault();
+    if (!draggedTask) return;
+
+    const task = draggedTask;
+    const updates: UpdateTaskDTO = task.dueDate ? moveToDateUpdates(task, dateKey) : { dueDate: dateKey };
+    if (!task.dueDate && task.startDate && task.startDate.split('T')[0] > dateKey) {
+      updates.startDate = dateKey;
+    }
+    updates.dueTime = formatTimeOfDay(getDropMinutes(e));
+
+    handleDragEnd();
+    await updateTask(task.id, updates);
+  };
+
+  // Dropping on the all-day strip moves the task to that day and clears its time
+  const handleAllDayDrop = async (e: React.DragEvent<HTMLDivElement>, dateKey: string) => {
+    e.preventDefault();
+    if (!draggedTask) return;
+
+    const task = draggedTask;
+    handleDragEnd();
+    await updateTask(task.id, { ...moveToDateUpdates(task, dateKey), dueTime: null });
+  };
+
+  // Drag the bottom edge of a block to change its duration
+  const handleResizeStart = (e: React.MouseEvent, block: TimedBlock) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startY = e.clientY;
+    const initialMinutes = block.end - block.start;
+    let minutes = initialMinutes;
+    setResizing({ taskId: block.task.id, minutes });
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const delta = ((moveEvent.clientY - startY) / HOUR_HEIGHT) * 60;
+      const snapped = Math.round((initialMinutes + delta) / SNAP_MINUTES) * SNAP_MINUTES;
+      minutes = Math.min(Math.max(snapped, SNAP_MINUTES), DAY_MINUTES - block.start);
+      setResizing({ taskId: block.task.id, minutes });
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setResizing(null);
+      // The click that ends a resize shouldn't open the task
+      suppressClickRef.current = true;
+      setTimeout(() => (suppressClickRef.current = false), 0);
+      if (minutes !== initialMinutes) {
+        updateTask(block.task.id, { durationMinutes: minutes });
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleBlockClick = (taskId: string) => {
+    if (!suppressClickRef.current) {
+      setSelectedTaskId(taskId);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Day headers and all-day strip */}
+      <div
+        className="flex-shrink-0 flex border-b border-gray-200 dark:border-gray-700 overflow-hidden"
+        style={{ scrollbarGutter: 'stable' }}
+      >
+        <div className="w-14 flex-shrink-0 flex items-end justify-end pr-2 pb-1 text-xs text-gray-400">
+          all-day
+        </div>
+        {dayColumns.map(({ date, dateKey, allDay }) => (
+          <div
+            key={dateKey}
+            onDragOver={e => draggedTask && e.preventDefault()}
+            onDrop={e => handleAllDayDrop(e, dateKey)}
+            className={`flex-1 min-w-0 border-l border-gray-200 dark:border-gray-700 ${
+              draggedTask ? 'hover:bg-primary-50 dark:hover:bg-primary-900/10' : ''
+            }`}
+          >
+            <div className="text-center py-2">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                {date.toLocaleDateString(undefined, { weekday: 'short' })}
+              </div>
+              <div
+                className={`mx-auto mt-0.5 w-8 h-8 flex items-center justify-center rounded-full text-lg font-semibold ${
+                  dateKey === todayKey ? 'bg-primary-500 text-white' : 'text-gray-900 dark:text-gray-100'
+                }`}
+              >
+                {date.getDate()}
+              </div>
+            </div>
+            <div className="min-h-[28px] max-h-24 overflow-y-auto px-1 pb-1 space-y-0.5">
+              {allDay.map(({ task, segment }) => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={e => handleDragStart(e, task, false)}
+                  onDragEnd={handleDragEnd}
+                  onClick={() => setSelectedTaskId(task.id)}
+                  title={segment === 'single' ? task.title : `${task.title} (${task.startDate} – ${task.dueDate})`}
+                  className={`text-xs px-1.5 py-0.5 rounded cursor-pointer truncate ${
+                    task.completed
+                      ? 'bg-gray-100 dark:bg-gray-700 text-gray-400 line-through'
+                      : segment === 'single'
+                      ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      : 'bg-primary-100 dark:bg-primary-900/30 hover:bg-primary-200 dark:hover:bg-primary-900/50'
+                  }`}
+                >
+                  {segment === 'single' || segment === 'start' ? (
+                    <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1 ${getPriorityColor(task.priority)}`} />
+                  ) : (
+                    <span className="text-gray-400 mr-1">{segment === 'end' ? '⇥' : '…'}</span>
+                  )}
+                  {task.title}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Hourly grid */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto" style={{ scrollbarGutter: 'stable' }}>
+        <div className="flex" style={{ height: 24 * HOUR_HEIGHT }}>
+          <div className="w-14 flex-shrink-0 relative">
+            {Array.from({ length: 23 }, (_, i) => i + 1).map(hour => (
+              <div
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-xs text-gray-400"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {formatTimeOfDay(hour * 60)}
+              </div>
+            ))}
+          </div>
+
+          {dayColumns.map(({ dateKey, blocks }) => (
+            <div
+              key={dateKey}
+              onDragOver={e => handleGridDragOver(e, dateKey)}
+              onDragLeave={handleGridDragLeave}
+              onDrop={e => handleGridDrop(e, dateKey)}
+              className="flex-1 min-w-0 relative border-l border-gray-200 dark:border-gray-700"
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div
+                  key={hour}
+                  className="border-t border-gray-100 dark:border-gray-800"
+                  style={{ height: HOUR_HEIGHT }}
+                />
+              ))}
+
+              {/* Where a dragged task would land */}
+              {draggedTask && dropPreview?.dateKey === dateKey && (
+                <div
+                  className="absolute left-1 right-1 rounded border-2 border-dashed border-primary-400 bg-primary-50/50 dark:bg-primary-900/20 text-xs text-primary-600 dark:text-primary-400 px-1 pointer-events-none"
+                  style={{
+                    top: (dropPreview.minutes / 60) * HOUR_HEIGHT,
+                    height: (Math.max(getBlockMinutes(draggedTask), SNAP_MINUTES) / 60) * HOUR_HEIGHT,
+                  }}
+                >
+                  {formatTimeOfDay(dropPreview.minutes)}
+                </div>
+              )}
+
+              {blocks.map(block => {
+                const { task, start, lane, lanes } = block;
+                const minutes = resizing?.taskId === task.id ? resizing.minutes : block.end - block.start;
+                return (
+                  <div
+                    key={task.id}
+                    draggable={!resizing}
+                    onDragStart={e => handleDragStart(e, task, true)}
+                    onDragEnd={handleDragEnd}
+                    onClick={() => handleBlockClick(task.id)}
+                    title={`${task.title} (${formatTimeOfDay(start)} – ${formatTimeOfDay(start + minutes)})`}
+                    className={`absolute group overflow-hidden rounded border-l-4 px-1.5 py-0.5 text-xs cursor-pointer ${
+                      task.completed
+                        ? 'bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-400 line-through'
+                        : 'bg-primary-100 dark:bg-primary-900/40 border-primary-500 text-gray-800 dark:text-gray-100 hover:bg-primary-200 dark:hover:bg-primary-900/60'
+                    } ${selectedTask?.id === task.id ? 'ring-2 ring-primary-500' : ''} ${
+                      draggedTask?.id === task.id ? 'opacity-50' : ''
+                    }`}
+                    style={{
+                      top: (start / 60) * HOUR_HEIGHT,
+                      height: (minutes / 60) * HOUR_HEIGHT - 1,
+                      left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                      width: `calc(${100 / lanes}% - 4px)`,
+                    }}
+                  >
+                    <div className="flex items-center gap-1 font-medium truncate">
+                      <span className={`flex-shrink-0 w-1.5 h-1.5 rounded-full ${getPriorityColor(task.priority)}`} />
+                      <span className="truncate">{task.title}</span>
+                    </div>
+                    {minutes >= 30 && (
+                      <div className="text-gray-500 dark:text-gray-400 truncate">
+                        {formatTimeOfDay(start)} – {formatTimeOfDay(start + minutes)}
+                      </div>
+                    )}
+                    <div
+                      onMouseDown={e => handleResizeStart(e, block)}
+                      onClick={e => e.stopPropagation()}
+                      className="absolute bottom-0 left-0 right-0 h-1.5 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-primary-400/60"
+                      title="Drag to change duration"
+                    />
+                  </div>
+                );
+              })}
+
+              {/* Current time */}
+              {dateKey === todayKey && (
+                <div
+                  className="absolute left-0 right-0 border-t-2 border-red-500 pointer-events-none"
+                  style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }}
+                >
+                  <span className="absolute -left-1 -top-[5px] w-2 h-2 rounded-full bg-red-500" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
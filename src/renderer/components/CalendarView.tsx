@@ -1,5 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { useApp } from '../contexts/AppContext';
+import { CalendarTimeGrid } from './CalendarTimeGrid';
+import { formatDateKey, getPriorityColor, groupTasksByDate, moveToDateUpdates } from '../utils/calendar';
 import type { Task } from '../../shared/types';
 
 interface CalendarViewProps {
@@ -7,6 +9,14 @@ interface CalendarViewProps {
   compact?: boolean;
 }
 
+type CalendarMode = 'month' | 'week' | 'day';
+
+const CALENDAR_MODES: { value: CalendarMode; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
 const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const MONTH_NAMES = [
   'January', 'February', 'March', 'April', 'May', 'June',
@@ -17,6 +27,11 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
   const { tasks, updateTask, setSelectedTaskId } = useApp();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [mode, setMode] = useState<CalendarMode>(() => {
+    // Load the last used mode from localStorage
+    const saved = localStorage.getItem('calendarMode');
+    return saved === 'week' || saved === 'day' ? saved : 'month';
+  });
 
   // Get the first day of the month
   const firstDayOfMonth = useMemo(() => {
@@ -51,22 +66,28 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
     return days;
   }, [firstDayOfMonth, lastDayOfMonth, currentDate]);
 
-  // Group tasks by date
-  const tasksByDate = useMemo(() => {
-    const grouped: Record<string, Task[]> = {};
-
-    tasks.forEach(task => {
-      if (task.dueDate) {
-        const dateKey = task.dueDate.split('T')[0]; // Get just the date part
-        if (!grouped[dateKey]) {
-          grouped[dateKey] = [];
-        }
-        grouped[dateKey].push(task);
-      }
-    });
+  // Group tasks by date: on their due date, or on every day from start to due
+  const tasksByDate = useMemo(
+    () => groupTasksByDate(tasks, calendarDays.filter((date): date is Date => date !== null)),
+    [tasks, calendarDays]
+  );
+
+  // Days shown by the week (Sunday to Saturday) and day grids
+  const gridDays = useMemo(() => {
+    if (mode === 'day') {
+      return [new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate())];
+    }
+    const sunday = currentDate.getDate() - currentDate.getDay();
+    return Array.from(
+      { length: 7 },
+      (_, i) => new Date(currentDate.getFullYear(), currentDate.getMonth(), sunday + i)
+    );
+  }, [mode, currentDate]);
 
-    return grouped;
-  }, [tasks]);
+  const handleModeChange = (newMode: CalendarMode) => {
+    setMode(newMode);
+    localStorage.setItem('calendarMode', newMode);
+  };
 
   // Navigate months
   const goToPreviousMonth = () => {
@@ -77,6 +98,42 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
     setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
   };
 
+  // Navigate by the period the full view shows; the mini calendar always pages months
+  const goToPrevious = () => {
+    if (compact || mode === 'month') {
+      goToPreviousMonth();
+    } else {
+      const step = mode === 'week' ? 7 : 1;
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() - step));
+    }
+  };
+
+  const goToNext = () => {
+    if (compact || mode === 'month') {
+      goToNextMonth();
+    } else {
+      const step = mode === 'week' ? 7 : 1;
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + step));
+    }
+  };
+
+  // Header title for the current period
+  const getTitle = (): string => {
+    if (mode === 'day') {
+      return currentDate.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    }
+    if (mode === 'week') {
+      const first = gridDays[0];
+      const last = gridDays[6];
+      if (first.getMonth() === last.getMonth()) {
+        return `${MONTH_NAMES[first.getMonth()]} ${first.getFullYear()}`;
+      }
+      const range = `${MONTH_NAMES[first.getMonth()].slice(0, 3)} – ${MONTH_NAMES[last.getMonth()].slice(0, 3)}`;
+      return `${range} ${last.getFullYear()}`;
+    }
+    return `${MONTH_NAMES[currentDate.getMonth()]} ${currentDate.getFullYear()}`;
+  };
+
   const goToToday = () => {
     setCurrentDate(new Date());
   };
@@ -90,14 +147,6 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
            date.getFullYear() === today.getFullYear();
   };
 
-  // Format date to YYYY-MM-DD
-  const formatDateKey = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
-
   // Handle drag start
   const handleDragStart = (task: Task) => {
     setDraggedTask(task);
@@ -114,8 +163,8 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
   const handleDrop = async (e: React.DragEvent, date: Date | null) => {
     e.preventDefault();
     if (date && draggedTask) {
-      const newDueDate = formatDateKey(date);
-      await updateTask(draggedTask.id, { dueDate: newDueDate });
+      const updates = moveToDateUpdates(draggedTask, formatDateKey(date));
+      await updateTask(draggedTask.id, updates);
       setDraggedTask(null);
     }
   };
@@ -127,16 +176,6 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
     }
   };
 
-  // Priority colors for task dots
-  const getPriorityColor = (priority: string): string => {
-    switch (priority) {
-      case 'high': return 'bg-red-500';
-      case 'medium': return 'bg-yellow-500';
-      case 'low': return 'bg-green-500';
-      default: return 'bg-gray-400';
-    }
-  };
-
   if (compact) {
     // Mini calendar for sidebar
     return (
@@ -212,11 +251,11 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-4">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
-              {MONTH_NAMES[currentDate.getMonth()]} {currentDate.getFullYear()}
+              {getTitle()}
             </h2>
             <div className="flex items-center gap-1">
               <button
-                onClick={goToPreviousMonth}
+                onClick={goToPrevious}
                 className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -224,7 +263,7 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
                 </svg>
               </button>
               <button
-                onClick={goToNextMonth}
+                onClick={goToNext}
                 className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -233,88 +272,119 @@ export function CalendarView({ onDateSelect, compact = false }: CalendarViewProp
               </button>
             </div>
           </div>
-          <button
-            onClick={goToToday}
-            className="px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg transition-colors"
-          >
-            Today
-          </button>
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+              {CALENDAR_MODES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => handleModeChange(option.value)}
+                  className={`px-3 py-1.5 text-sm transition-colors ${
+                    mode === option.value
+                      ? 'bg-primary-500 text-white'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={goToToday}
+              className="px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg transition-colors"
+            >
+              Today
+            </button>
+          </div>
         </div>
       </header>
 
+      {mode !== 'month' && <CalendarTimeGrid days={gridDays} />}
+
       {/* Calendar grid */}
-      <div className="flex-1 overflow-auto p-4">
-        {/* Weekday headers */}
-        <div className="grid grid-cols-7 gap-2 mb-2">
-          {WEEKDAY_LABELS.map(day => (
-            <div key={day} className="text-center text-sm font-medium text-gray-500 dark:text-gray-400 py-2">
-              {day}
-            </div>
-          ))}
-        </div>
+      {mode === 'month' && (
+        <div className="flex-1 overflow-auto p-4">
+          {/* Weekday headers */}
+          <div className="grid grid-cols-7 gap-2 mb-2">
+            {WEEKDAY_LABELS.map(day => (
+              <div key={day} className="text-center text-sm font-medium text-gray-500 dark:text-gray-400 py-2">
+                {day}
+              </div>
+            ))}
+          </div>
 
-        {/* Calendar days */}
-        <div className="grid grid-cols-7 gap-2">
-          {calendarDays.map((date, index) => {
-            const dateKey = date ? formatDateKey(date) : '';
-            const dayTasks = date ? tasksByDate[dateKey] || [] : [];
+          {/* Calendar days */}
+          <div className="grid grid-cols-7 gap-2">
+            {calendarDays.map((date, index) => {
+              const dateKey = date ? formatDateKey(date) : '';
+              const dayTasks = date ? tasksByDate[dateKey] || [] : [];
 
-            return (
-              <div
-                key={index}
-                onDragOver={(e) => handleDragOver(e, date)}
-                onDrop={(e) => handleDrop(e, date)}
-                className={`
-                  min-h-[100px] p-2 rounded-lg border transition-colors
-                  ${!date ? 'invisible' : ''}
-                  ${isToday(date)
-                    ? 'border-primary-500 bg-primary-50/50 dark:bg-primary-900/20'
-                    : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50'
-                  }
-                  ${draggedTask && date ? 'hover:border-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/10' : ''}
-                `}
-              >
-                {date && (
-                  <>
-                    <div className={`text-sm font-medium mb-1 ${
-                      isToday(date)
-                        ? 'text-primary-600 dark:text-primary-400'
-                        : 'text-gray-700 dark:text-gray-300'
-                    }`}>
-                      {date.getDate()}
-                    </div>
-                    <div className="space-y-1 overflow-y-auto max-h-[80px]">
-                      {dayTasks.slice(0, 3).map(task => (
-                        <div
-                          key={task.id}
-                          draggable
-                          onDragStart={() => handleDragStart(task)}
-                          onClick={() => setSelectedTaskId(task.id)}
-                          className={`
-                            text-xs p-1 rounded cursor-pointer truncate
-                            ${task.completed
-                              ? 'bg-gray-100 dark:bg-gray-700 text-gray-400 line-through'
-                              : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
-                            }
-                          `}
-                        >
-                          <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1 ${getPriorityColor(task.priority)}`} />
-                          {task.title}
-                        </div>
-                      ))}
-                      {dayTasks.length > 3 && (
-                        <div className="text-xs text-gray-400 dark:text-gray-500 pl-1">
-                          +{dayTasks.length - 3} more
-                        </div>
-                      )}
-                    </div>
-                  </>
-                )}
-              </div>
-            );
-          })}
+              return (
+                <div
+                  key={index}
+                  onDragOver={(e) => handleDragOver(e, date)}
+                  onDrop={(e) => handleDrop(e, date)}
+                  className={`
+                    min-h-[100px] p-2 rounded-lg border transition-colors
+                    ${!date ? 'invisible' : ''}
+                    ${isToday(date)
+                      ? 'border-primary-500 bg-primary-50/50 dark:bg-primary-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50'
+                    }
+                    ${draggedTask && date ? 'hover:border-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/10' : ''}
+                  `}
+                >
+                  {date && (
+                    <>
+                      <div className={`text-sm font-medium mb-1 ${
+                        isToday(date)
+                          ? 'text-primary-600 dark:text-primary-400'
+                          : 'text-gray-700 dark:text-gray-300'
+                      }`}>
+                        {date.getDate()}
+                      </div>
+                      <div className="space-y-1 overflow-y-auto max-h-[80px]">
+                        {dayTasks.slice(0, 3).map(({ task, segment }) => (
+                          <div
+                            key={task.id}
+                            draggable
+                            onDragStart={() => handleDragStart(task)}
+                            onClick={() => setSelectedTaskId(task.id)}
+                            title={segment === 'single' ? task.title : `${task.title} (${task.startDate} – ${task.dueDate})`}
+                            className={`
+                              text-xs p-1 cursor-pointer truncate
+                              ${segment === 'single' ? 'rounded' : ''}
+                              ${segment === 'start' ? 'rounded-l' : ''}
+                              ${segment === 'end' ? 'rounded-r' : ''}
+                              ${task.completed
+                                ? 'bg-gray-100 dark:bg-gray-700 text-gray-400 line-through'
+                                : segment === 'single'
+                                ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                                : 'bg-primary-100 dark:bg-primary-900/30 hover:bg-primary-200 dark:hover:bg-primary-900/50'
+                              }
+                            `}
+                          >
+                            {segment === 'single' || segment === 'start' ? (
+                              <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1 ${getPriorityColor(task.priority)}`} />
+                            ) : (
+                              <span className="text-gray-400 mr-1">{segment === 'end' ? '⇥' : '…'}</span>
+                            )}
+                            {task.title}
+                          </div>
+                        ))}
+                        {dayTasks.length > 3 && (
+                          <div className="text-xs text-gray-400 dark:text-gray-500 pl-1">
+                            +{dayTasks.length - 3} more
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useToast } from './Toast';
+import type { Task, TaskDependencies } from '../../shared/types';
+
+interface DependencySectionProps {
+  taskId: string;
+}
+
+// "Blocked by" / "Blocking" links for the task detail panel
+export function DependencySection({ taskId }: DependencySectionProps) {
+  const { tasks, loadTasks, setSelectedTaskId, dataVersion } = useApp();
+  const { showToast } = useToast();
+  const [dependencies, setDependencies] = useState<TaskDependencies>({ blockedBy: [], blocking: [] });
+  const [showInput, setShowInput] = useState(false);
+  const [query, setQuery] = useState('');
+  const [candidates, setCandidates] = useState<Task[]>([]);
+
+  const loadDependencies = useCallback(async () => {
+    setDependencies(await window.electronAPI.task.getDependencies(taskId));
+  }, [taskId]);
+
+  // Reload when tasks change too, so completed blockers show up as done
+  useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies, tasks, dataVersion]);
+
+  useEffect(() => {
+    setShowInput(false);
+    setQuery('');
+  }, [taskId]);
+
+  // Search for tasks to link, debounced like the search bar
+  useEffect(() => {
+    if (!query.trim()) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await window.electronAPI.task.searchText(query, 8);
+      if (!cancelled) {
+        const linkedIds = new Set(dependencies.blockedBy.map(t => t.id));
+        setCandidates(results.map(r => r.task).filter(t => t.id !== taskId && !linkedIds.has(t.id)));
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, taskId, dependencies.blockedBy]);
+
+  const handleAdd = async (blocker: Task) => {
+    const result = await window.electronAPI.task.addDependency(taskId, blocker.id);
+    if (!result.success) {
+      showToast(result.error ?? 'Could not add the blocker');
+      return;
+    }
+    setQuery('');
+    setShowInput(false);
+    await loadTasks();
+  };
+
+  const handleRemove = async (blockerId: string) => {
+    await window.electronAPI.task.removeDependency(taskId, blockerId);
+    await loadTasks();
+  };
+
+  const openBlockers = dependencies.blockedBy.filter(t => !t.completed).length;
+
+  const renderTask = (task: Task, onRemove?: () => void) => (
+    <div key={task.id} className="flex items-center gap-2 group">
+      <span
+        className={`flex-shrink-0 w-2 h-2 rounded-full ${task.completed ? 'bg-green-500' : 'bg-orange-400'}`}
+        title={task.completed ? 'Done' : 'Open'}
+      />
+      <button
+        onClick={() => setSelectedTaskId(task.id)}
+        className={`flex-1 min-w-0 text-left text-sm truncate hover:underline ${
+          task.completed ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-300'
+        }`}
+      >
+        {task.title}
+      </button>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 rounded transition-opacity"
+          title="Remove blocker"
+        >
+          <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Blocked by
+          {openBlockers > 0 && (
+            <span className="ml-2 text-xs font-normal text-orange-600 dark:text-orange-400">
+              {openBlockers} open
+            </span>
+          )}
+        </label>
+        <div className="space-y-1.5">
+          {dependencies.blockedBy.map(task => renderTask(task, () => handleRemove(task.id)))}
+
+          {!showInput ? (
+            <button
+              onClick={() => setShowInput(true)}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-500 dark:text-gray-400 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg hover:border-primary-500 hover:text-primary-500 transition-colors"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add blocker
+            </button>
+          ) : (
+            <div className="space-y-1">
+              <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && candidates.length > 0) handleAdd(candidates[0]);
+                  if (e.key === 'Escape') {
+                    setShowInput(false);
+                    setQuery('');
+                  }
+                }}
+                onBlur={() => {
+                  if (!query.trim()) setShowInput(false);
+                }}
+                placeholder="Search for a task..."
+                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                autoFocus
+              />
+              {candidates.length > 0 && (
+                <ul className="border border-gray-200 dark:border-gray-700 rounded divide-y divide-gray-100 dark:divide-gray-700">
+                  {candidates.map(candidate => (
+                    <li key={candidate.id}>
+                      <button
+                        onMouseDown={e => e.preventDefault()} // Keep the input focused
+                        onClick={() => handleAdd(candidate)}
+                        className="w-full px-2 py-1 text-left text-sm truncate text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        {candidate.title}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {dependencies.blocking.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Blocking
+          </label>
+          <div className="space-y-1.5">
+            {dependencies.blocking.map(task => renderTask(task))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,8 +14,9 @@ import {
 } from '@dnd-kit/core';
 import { useApp } from '../contexts/AppContext';
 import { useToast } from './Toast';
+import { TemplateMenu } from './TemplateMenu';
 import { getEisenhowerQuadrant } from '../utils/taskParser';
-import type { Task, EisenhowerQuadrant, Priority } from '../../shared/types';
+import type { Task, EisenhowerQuadrant, Priority, TaskTemplate } from '../../shared/types';
 
 interface QuadrantConfig {
   id: EisenhowerQuadrant;
@@ -191,6 +192,7 @@ function DroppableQuadrant({
   onSelectTask,
   onToggleComplete,
   onAddTask,
+  onAddFromTemplate,
   isOver,
 }: {
   config: QuadrantConfig;
@@ -198,6 +200,7 @@ function DroppableQuadrant({
   onSelectTask: (id: string) => void;
   onToggleComplete: (task: Task) => void;
   onAddTask: (title: string, quadrant: EisenhowerQuadrant) => void;
+  onAddFromTemplate: (template: TaskTemplate, quadrant: EisenhowerQuadrant) => void;
   isOver: boolean;
 }) {
   const { setNodeRef } = useDroppable({
@@ -229,15 +232,21 @@ function DroppableQuadrant({
             <p className="text-xs text-gray-500 dark:text-gray-400">{config.subtitle}</p>
           </div>
           {!isAdding && (
-            <button
-              onClick={() => setIsAdding(true)}
-              className="p-1 rounded hover:bg-white/50 dark:hover:bg-gray-700/50 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-              title="Add task"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-            </button>
+            <div className="flex items-center">
+              <TemplateMenu
+                onSelect={template => onAddFromTemplate(template, config.id)}
+                buttonClassName="p-1 rounded hover:bg-white/50 dark:hover:bg-gray-700/50 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              />
+              <button
+                onClick={() => setIsAdding(true)}
+                className="p-1 rounded hover:bg-white/50 dark:hover:bg-gray-700/50 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                title="Add task"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+              </button>
+            </div>
           )}
         </div>
       </div>
@@ -309,7 +318,7 @@ function DroppableQuadrant({
 }
 
 export function EisenhowerMatrix() {
-  const { tasks, setSelectedTaskId, updateTask, toggleTaskComplete, createTask } = useApp();
+  const { tasks, setSelectedTaskId, updateTask, toggleTaskComplete, createTask, undo, lists, settings, loadTasks } = useApp();
   const { showToast } = useToast();
   const [activeTask, setActiveTask] = React.useState<Task | null>(null);
   const [overQuadrant, setOverQuadrant] = React.useState<EisenhowerQuadrant | null>(null);
@@ -350,13 +359,13 @@ export function EisenhowerMatrix() {
     showToast(`"${task.title}" completed`, {
       label: 'Undo',
       onClick: async () => {
-        await updateTask(task.id, { completed: false });
+        await undo();
       },
     });
   };
 
-  const handleAddTask = async (title: string, quadrant: EisenhowerQuadrant) => {
-    // Determine priority and due date based on quadrant
+  // Priority and due date that place a new task in a quadrant
+  const getQuadrantDefaults = (quadrant: EisenhowerQuadrant): { priority: Priority; dueDate: string } => {
     const isImportant = quadrant === 'do-first' || quadrant === 'schedule';
     const isUrgent = quadrant === 'do-first' || quadrant === 'delegate';
 
@@ -374,7 +383,22 @@ export function EisenhowerMatrix() {
       dueDate = nextWeek.toISOString().split('T')[0];
     }
 
-    await createTask(title, { priority, dueDate });
+    return { priority, dueDate };
+  };
+
+  const handleAddTask = async (title: string, quadrant: EisenhowerQuadrant) => {
+    await createTask(title, getQuadrantDefaults(quadrant));
+  };
+
+  // The template's top-level task takes the quadrant's priority and due date
+  const handleAddFromTemplate = async (template: TaskTemplate, quadrant: EisenhowerQuadrant) => {
+    const listId = lists.some(l => l.id === settings.defaultListId) ? settings.defaultListId : null;
+    const newTask = await window.electronAPI.template.instantiate(template.id, {
+      listId,
+      ...getQuadrantDefaults(quadrant),
+    });
+    await loadTasks();
+    showToast(`Added "${newTask.title}" from template`);
   };
 
   const handleDragStart = (event: DragStartEvent) => {
@@ -484,6 +508,7 @@ export function EisenhowerMatrix() {
                 onSelectTask={handleSelectTask}
                 onToggleComplete={handleToggleComplete}
                 onAddTask={handleAddTask}
+                onAddFromTemplate={handleAddFromTemplate}
                 isOver={overQuadrant === config.id}
               />
             ))}
@@ -36,7 +36,7 @@ const getMotivationalMessage = (streak: number, completionRate: number): string
 };
 
 export function HabitTracker({ isOpen, onClose }: HabitTrackerProps) {
-  const { showToast } = useApp();
+  const { showToast, dataVersion } = useApp();
   const [habits, setHabits] = useState<HabitWithStats[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [selectedHabit, setSelectedHabit] = useState<HabitWithStats | null>(null);
@@ -68,7 +68,7 @@ export function HabitTracker({ isOpen, onClose }: HabitTrackerProps) {
     if (isOpen) {
       loadHabits();
     }
-  }, [isOpen, loadHabits]);
+  }, [isOpen, loadHabits, dataVersion]);
 
   const resetForm = () => {
     setFormName('');
@@ -127,11 +127,11 @@ export function HabitTracker({ isOpen, onClose }: HabitTrackerProps) {
   };
 
   const handleDeleteHabit = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this habit? This cannot be undone.')) return;
+    if (!confirm('Move this habit to the trash?')) return;
     await window.electronAPI.habit.delete(id);
     await loadHabits();
     setSelectedHabit(null);
-    showToast?.('Habit deleted');
+    showToast?.('Habit moved to trash');
   };
 
   const handleArchiveHabit = async (habit: HabitWithStats) => {
@@ -0,0 +1,378 @@
+import { useState, useEffect, useMemo } from 'react';
+import { formatDateKey, addDays } from '../utils/calendar';
+import {
+  createRRule,
+  parseRRule,
+  formatRRule,
+  getOccurrences,
+  describeRRule,
+  WEEKDAY_NAMES,
+  MONTH_NAMES,
+  WORKWEEK,
+  WEEKEND,
+  ALL_WEEKDAYS,
+  type RRule,
+  type RRuleFrequency,
+} from '../../shared/rrule';
+import type { Weekday } from '../../shared/types';
+
+interface RecurrenceEditorProps {
+  rule: string | null;
+  startDate: string | null; // The task's due date; the series starts today without one
+  onChange: (rule: string | null) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: RRuleFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'day' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'year' },
+];
+
+const POSITION_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+// Day sets for "on the <position> <day set>"; single weekdays use their number as the key
+const DAY_SET_OPTIONS: { value: string; label: string; weekdays: Weekday[] }[] = [
+  ...WEEKDAY_NAMES.map((name, index) => ({ value: String(index), label: name, weekdays: [index as Weekday] })),
+  { value: 'day', label: 'day', weekdays: ALL_WEEKDAYS },
+  { value: 'weekday', label: 'weekday', weekdays: WORKWEEK },
+  { value: 'weekend', label: 'weekend day', weekdays: WEEKEND },
+];
+
+const PREVIEW_COUNT = 5;
+
+const INPUT_CLASS =
+  'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+function getDaySet(rule: RRule): string | undefined {
+  const weekdays = rule.byDay.map(day => day.weekday);
+  return DAY_SET_OPTIONS.find(
+    option => option.weekdays.length === weekdays.length && option.weekdays.every(w => weekdays.includes(w))
+  )?.value;
+}
+
+// Whether the fields below can show the rule; anything else is only edited as text
+function isEditableRule(rule: RRule): boolean {
+  if (rule.byMonth.length > (rule.freq === 'YEARLY' ? 1 : 0)) return false;
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.bySetPos.length === 0;
+    case 'WEEKLY':
+      return rule.byDay.every(day => day.nth === null) && rule.byMonthDay.length === 0 && rule.bySetPos.length === 0;
+    default:
+      if (rule.byDay.length === 0) return rule.byMonthDay.length === 1 && rule.bySetPos.length === 0;
+      if (rule.byMonthDay.length > 0) return false;
+      if (rule.byDay.length === 1 && rule.byDay[0].nth !== null) return rule.bySetPos.length === 0;
+      return rule.bySetPos.length === 1 && rule.byDay.every(day => day.nth === null) && getDaySet(rule) !== undefined;
+  }
+}
+
+function formatPreviewDate(dateKey: string): string {
+  return new Date(dateKey + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+// Repeat settings for a task, stored as an RRULE; simple rules get fields, any rule can be typed in
+export function RecurrenceEditor({ rule: value, startDate, onChange }: RecurrenceEditorProps) {
+  const rule = useMemo(() => (value ? parseRRule(value) : null), [value]);
+  const [ruleText, setRuleText] = useState(value ?? '');
+  const [ruleTextError, setRuleTextError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRuleText(value ?? '');
+    setRuleTextError(null);
+  }, [value]);
+
+  const start = startDate ?? formatDateKey(new Date());
+  const startDay = new Date(start + 'T00:00:00');
+  // The dates that follow the current one, as completing the task will produce them
+  const preview = useMemo(() => (rule ? getOccurrences(rule, start, PREVIEW_COUNT, start) : []), [rule, start]);
+
+  const update = (changes: Partial<RRule>) => {
+    if (rule) onChange(formatRRule({ ...rule, ...changes }));
+  };
+
+  // New rules repeat on the start date's weekday, day of month or date of year
+  const handleFrequencyChange = (freq: RRuleFrequency | '') => {
+    if (!freq) {
+      onChange(null);
+      return;
+    }
+    const next = createRRule(freq);
+    if (freq === 'WEEKLY') next.byDay = [{ weekday: startDay.getDay() as Weekday, nth: null }];
+    if (freq === 'MONTHLY' || freq === 'YEARLY') next.byMonthDay = [startDay.getDate()];
+    if (freq === 'YEARLY') next.byMonth = [startDay.getMonth() + 1];
+    if (rule) {
+      next.count = rule.count;
+      next.until = rule.until;
+    }
+    onChange(formatRRule(next));
+  };
+
+  const handleRuleTextCommit = () => {
+    const text = ruleText.trim();
+    if (text === (value ?? '')) return;
+    if (!text) {
+      onChange(null);
+      return;
+    }
+    const parsed = parseRRule(text);
+    if (!parsed) {
+      setRuleTextError('Not a supported RRULE, e.g. FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2');
+      return;
+    }
+    onChange(formatRRule(parsed));
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    if (!rule) return;
+    const weekdays = rule.byDay.map(day => day.weekday);
+    const next = weekdays.includes(weekday) ? weekdays.filter(w => w !== weekday) : [...weekdays, weekday];
+    update({ byDay: next.sort((a, b) => a - b).map(w => ({ weekday: w, nth: null })) });
+  };
+
+  const unit = FREQUENCY_OPTIONS.find(option => option.value === rule?.freq)?.unit ?? 'day';
+  const byWeekday = rule !== null && rule.byDay.length > 0;
+  const position = rule?.bySetPos[0] ?? rule?.byDay[0]?.nth ?? 1;
+  const daySet = rule ? getDaySet(rule) ?? String(startDay.getDay()) : '';
+  const endMode = rule?.count !== null && rule?.count !== undefined ? 'count' : rule?.until ? 'until' : 'never';
+
+  const setWeekdayPosition = (pos: number, setKey: string) => {
+    const weekdays = DAY_SET_OPTIONS.find(option => option.value === setKey)?.weekdays ?? [];
+    update({ byMonthDay: [], byDay: weekdays.map(weekday => ({ weekday, nth: null })), bySetPos: [pos] });
+  };
+
+  return (
+    <div>
+      <select
+        value={rule?.freq ?? ''}
+        onChange={e => handleFrequencyChange(e.target.value as RRuleFrequency | '')}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+      >
+        <option value="">None</option>
+        {FREQUENCY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {rule && (
+        <div className="mt-3 space-y-3 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{describeRRule(rule)}</p>
+
+          {isEditableRule(rule) ? (
+            <>
+              {/* Interval */}
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Every</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={rule.interval}
+                  onChange={e => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={`w-16 ${INPUT_CLASS}`}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {rule.interval === 1 ? unit : `${unit}s`}
+                </span>
+              </div>
+
+              {/* Weekdays for weekly recurrence */}
+              {rule.freq === 'WEEKLY' && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-gray-600 dark:text-gray-400">On</span>
+                    <button
+                      onClick={() => update({ byDay: WORKWEEK.map(weekday => ({ weekday, nth: null })) })}
+                      className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                    >
+                      Weekdays
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    {WEEKDAY_NAMES.map((day, index) => (
+                      <button
+                        key={day}
+                        onClick={() => toggleWeekday(index as Weekday)}
+                        className={`w-9 h-9 text-xs rounded-full transition-colors ${
+                          rule.byDay.some(d => d.weekday === index)
+                            ? 'bg-primary-500 text-white'
+                            : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        {day.slice(0, 3)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Day of the month or year */}
+              {(rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && (
+                <div className="space-y-2">
+                  {rule.freq === 'YEARLY' && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600 dark:text-gray-400 w-6">In</span>
+                      <select
+                        value={rule.byMonth[0] ?? startDay.getMonth() + 1}
+                        onChange={e => update({ byMonth: [parseInt(e.target.value, 10)] })}
+                        className={INPUT_CLASS}
+                      >
+                        {MONTH_NAMES.map((name, index) => (
+                          <option key={name} value={index + 1}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="radio"
+                      checked={!byWeekday}
+                      onChange={() => update({ byDay: [], bySetPos: [], byMonthDay: [startDay.getDate()] })}
+                    />
+                    On day
+                    <select
+                      value={rule.byMonthDay[0] ?? startDay.getDate()}
+                      disabled={byWeekday}
+                      onChange={e => update({ byMonthDay: [parseInt(e.target.value, 10)] })}
+                      className={INPUT_CLASS}
+                    >
+                      {Array.from({ length: 31 }, (_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          {i + 1}
+                        </option>
+                      ))}
+                      <option value={-1}>Last</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="radio"
+                      checked={byWeekday}
+                      onChange={() => setWeekdayPosition(position, daySet)}
+                    />
+                    On the
+                    <select
+                      value={position}
+                      disabled={!byWeekday}
+                      onChange={e => setWeekdayPosition(parseInt(e.target.value, 10), daySet)}
+                      className={INPUT_CLASS}
+                    >
+                      {POSITION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={daySet}
+                      disabled={!byWeekday}
+                      onChange={e => setWeekdayPosition(position, e.target.value)}
+                      className={INPUT_CLASS}
+                    >
+                      {DAY_SET_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">This rule can only be changed as text below.</p>
+          )}
+
+          {/* End of the series */}
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400">Ends</span>
+            <select
+              value={endMode}
+              onChange={e => {
+                if (e.target.value === 'never') update({ count: null, until: null });
+                if (e.target.value === 'until') update({ count: null, until: addDays(start, 30) });
+                if (e.target.value === 'count') update({ count: 10, until: null });
+              }}
+              className={INPUT_CLASS}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endMode === 'until' && (
+              <input
+                type="date"
+                value={rule.until ?? ''}
+                onChange={e => e.target.value && update({ until: e.target.value })}
+                className={`flex-1 ${INPUT_CLASS}`}
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={rule.count ?? 1}
+                  onChange={e => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={`w-16 ${INPUT_CLASS}`}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {rule.count === 1 ? 'time' : 'times'}
+                </span>
+              </>
+            )}
+          </div>
+
+          {/* Next occurrences */}
+          <div>
+            <span className="text-sm text-gray-600 dark:text-gray-400 block mb-1">Next {PREVIEW_COUNT} dates</span>
+            {preview.length > 0 ? (
+              <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-0.5">
+                {preview.map(date => (
+                  <li key={date}>{formatPreviewDate(date)}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No more dates; this is the last one.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Raw rule, for anything the fields can't express */}
+      <div className="mt-2">
+        <input
+          type="text"
+          value={ruleText}
+          onChange={e => {
+            setRuleText(e.target.value);
+            setRuleTextError(null);
+          }}
+          onBlur={handleRuleTextCommit}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          placeholder="RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR"
+          className={`w-full font-mono text-xs ${INPUT_CLASS}`}
+        />
+        {ruleTextError && <p className="mt-1 text-xs text-red-500">{ruleTextError}</p>}
+      </div>
+    </div>
+  );
+}
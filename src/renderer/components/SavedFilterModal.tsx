@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react';
+import { useApp } from '../contexts/AppContext';
+import type { SavedFilter, TaskFilter, Priority } from '../../shared/types';
+
+interface SavedFilterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  savedFilter?: SavedFilter | null; // Edit this filter, or create a new one when missing
+  initialFilter?: TaskFilter | null; // Starting filter for a new smart list (e.g. the active search)
+}
+
+const COLORS = ['#8b5cf6', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#06b6d4', '#84cc16'];
+const ICONS = ['🔍', '⭐', '🔥', '🎯', '💼', '🏠', '📌', '⏳', '🚩', '💡', '🛒', '📚'];
+
+const PRIORITIES: { value: Priority; label: string; color: string }[] = [
+  { value: 'high', label: 'High', color: 'bg-red-500' },
+  { value: 'medium', label: 'Medium', color: 'bg-yellow-500' },
+  { value: 'low', label: 'Low', color: 'bg-green-500' },
+  { value: 'none', label: 'None', color: 'bg-gray-400' },
+];
+
+// Toggle a value in an array filter field, dropping the field when it becomes empty
+function toggleValue<T>(values: T[] | undefined, value: T): T[] | undefined {
+  const next = values?.includes(value) ? values.filter(v => v !== value) : [...(values ?? []), value];
+  return next.length > 0 ? next : undefined;
+}
+
+export function SavedFilterModal({ isOpen, onClose, savedFilter, initialFilter }: SavedFilterModalProps) {
+  const { tags, lists, createSavedFilter, updateSavedFilter, setSelectedListId, setActiveFilter } = useApp();
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState(ICONS[0]);
+  const [color, setColor] = useState(COLORS[0]);
+  const [filter, setFilter] = useState<TaskFilter>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(savedFilter?.name ?? '');
+    setIcon(savedFilter?.icon ?? ICONS[0]);
+    setColor(savedFilter?.color ?? COLORS[0]);
+    setFilter(savedFilter?.filter ?? initialFilter ?? {});
+  }, [isOpen, savedFilter, initialFilter]);
+
+  if (!isOpen) return null;
+
+  const updateFilter = (changes: Partial<TaskFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    // Drop fields that were cleared so they don't narrow the filter
+    const cleaned = Object.fromEntries(
+      Object.entries(filter).filter(([, value]) => value !== undefined && value !== '')
+    ) as TaskFilter;
+
+    if (savedFilter) {
+      await updateSavedFilter(savedFilter.id, { name: name.trim(), icon, color, filter: cleaned });
+    } else {
+      const created = await createSavedFilter({ name: name.trim(), icon, color, filter: cleaned });
+      setActiveFilter(null);
+      setSelectedListId(created.id);
+    }
+    onClose();
+  };
+
+  const completion = filter.completed === undefined ? 'any' : filter.completed ? 'completed' : 'open';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {savedFilter ? 'Edit Smart List' : 'New Smart List'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              placeholder="e.g. Urgent work"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Icon</label>
+            <div className="flex flex-wrap gap-1">
+              {ICONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setIcon(option)}
+                  className={`w-8 h-8 text-lg rounded ${
+                    icon === option ? 'bg-primary-100 dark:bg-primary-900/40 ring-2 ring-primary-500' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Color</label>
+            <div className="flex gap-2">
+              {COLORS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setColor(option)}
+                  className={`w-6 h-6 rounded-full ${color === option ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-800' : ''}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Show tasks that match</h3>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Text</label>
+                <input
+                  type="text"
+                  value={filter.searchQuery ?? ''}
+                  onChange={e => updateFilter({ searchQuery: e.target.value || undefined })}
+                  placeholder="Any text"
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+
+              {tags.length > 0 && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                    Tags ({filter.tagMatch === 'all' ? 'all of' : 'any of'})
+                  </label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {tags.map(tag => {
+                      const selected = filter.tagIds?.includes(tag.id) ?? false;
+                      return (
+                        <button
+                          key={tag.id}
+                          onClick={() => updateFilter({ tagIds: toggleValue(filter.tagIds, tag.id) })}
+                          className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                            selected
+                              ? 'text-white'
+                              : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                          }`}
+                          style={{ backgroundColor: selected ? tag.color : undefined }}
+                        >
+                          #{tag.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Priority</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {PRIORITIES.map(priority => (
+                    <button
+                      key={priority.value}
+                      onClick={() => updateFilter({ priorities: toggleValue(filter.priorities, priority.value) })}
+                      className={`flex items-center gap-1.5 px-2 py-0.5 text-xs rounded-full transition-colors ${
+                        filter.priorities?.includes(priority.value)
+                          ? 'bg-gray-800 dark:bg-gray-200 text-white dark:text-gray-900'
+                          : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      <span className={`w-2 h-2 rounded-full ${priority.color}`} />
+                      {priority.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Lists</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {[{ id: null, name: 'Inbox', color: '#6b7280' }, ...lists].map(list => (
+                    <button
+                      key={list.id ?? 'inbox'}
+                      onClick={() => updateFilter({ listIds: toggleValue(filter.listIds, list.id) })}
+                      className={`flex items-center gap-1.5 px-2 py-0.5 text-xs rounded-full transition-colors ${
+                        filter.listIds?.includes(list.id)
+                          ? 'bg-gray-800 dark:bg-gray-200 text-white dark:text-gray-900'
+                          : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: list.color }} />
+                      {list.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Due from</label>
+                  <input
+                    type="date"
+                    value={filter.dateRange?.start ?? ''}
+                    onChange={e => updateFilter({
+                      dateRange: e.target.value
+                        ? { start: e.target.value, end: filter.dateRange?.end ?? e.target.value }
+                        : undefined,
+                    })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Due until</label>
+                  <input
+                    type="date"
+                    value={filter.dateRange?.end ?? ''}
+                    onChange={e => updateFilter({
+                      dateRange: e.target.value
+                        ? { start: filter.dateRange?.start ?? e.target.value, end: e.target.value }
+                        : undefined,
+                    })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Completion</label>
+                <select
+                  value={completion}
+                  onChange={e => updateFilter({
+                    completed: e.target.value === 'any' ? undefined : e.target.value === 'completed',
+                  })}
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="any">Open and completed</option>
+                  <option value="open">Open only</option>
+                  <option value="completed">Completed only</option>
+                </select>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md disabled:opacity-50"
+          >
+            {savedFilter ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,33 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { Tag, Priority, TaskFilter, Task } from '../../shared/types';
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type Tag,
+  type Priority,
+  type TaskFilter,
+  type TaskSearchResult,
+} from '../../shared/types';
 import { useApp } from '../contexts/AppContext';
+import { parseSearchQuery } from '../utils/searchQueryParser';
+
+// Render text returned by full-text search with the matched terms highlighted
+function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(SEARCH_HIGHLIGHT_START);
+  return (
+    <>
+      {parts[0]}
+      {parts.slice(1).map((part, index) => {
+        const [match, rest = ''] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <React.Fragment key={index}>
+            <mark className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
 
 interface SearchBarProps {
   onSearch: (filter: TaskFilter) => void;
@@ -9,13 +36,15 @@ interface SearchBarProps {
 }
 
 export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
-  const { tasks, setSelectedTaskId } = useApp();
+  const { setSelectedTaskId, lists } = useApp();
   const [isExpanded, setIsExpanded] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedPriorities, setSelectedPriorities] = useState<Priority[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  const [matchingTasks, setMatchingTasks] = useState<TaskSearchResult[]>([]);
+  const [showErrors, setShowErrors] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -25,14 +54,31 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
     { value: 'low', label: 'Low', color: 'bg-green-500' },
   ];
 
-  // Filter tasks for inline preview
-  const matchingTasks = useMemo(() => {
-    if (!searchQuery.trim()) return [];
-    const query = searchQuery.toLowerCase();
-    return tasks
-      .filter(t => !t.completed && t.title.toLowerCase().includes(query))
-      .slice(0, 5);
-  }, [searchQuery, tasks]);
+  // Query language (tag:work due<friday ...) compiled to a filter
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery, tags, lists), [searchQuery, tags, lists]);
+  const freeText = parsedQuery.filter.searchQuery ?? '';
+
+  // Full-text search on the free-text part for the inline preview (debounced while typing)
+  useEffect(() => {
+    const query = freeText.trim();
+    if (!query) {
+      setMatchingTasks([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await window.electronAPI.task.searchText(query, 6);
+      if (!cancelled) {
+        setMatchingTasks(results);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [freeText]);
 
   // Filter matching tags for quick selection
   const matchingTags = useMemo(() => {
@@ -42,16 +88,19 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
   }, [searchQuery, tags]);
 
   const handleSearch = () => {
-    const filter: TaskFilter = {};
-
-    if (searchQuery.trim() && !searchQuery.startsWith('#')) {
-      filter.searchQuery = searchQuery.trim();
+    if (parsedQuery.errors.length > 0) {
+      setShowErrors(true);
+      return;
     }
+
+    const filter: TaskFilter = { ...parsedQuery.filter };
+
+    // Tag and priority chips add to whatever the query selected
     if (selectedTags.length > 0) {
-      filter.tagIds = selectedTags;
+      filter.tagIds = [...new Set([...(filter.tagIds ?? []), ...selectedTags])];
     }
     if (selectedPriorities.length > 0) {
-      filter.priorities = selectedPriorities;
+      filter.priorities = [...new Set([...(filter.priorities ?? []), ...selectedPriorities])];
     }
 
     if (Object.keys(filter).length > 0) {
@@ -62,6 +111,7 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
 
   const handleClear = () => {
     setSearchQuery('');
+    setShowErrors(false);
     setSelectedTags([]);
     setSelectedPriorities([]);
     setIsExpanded(false);
@@ -143,11 +193,13 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
       setShowDropdown(true);
     } else {
       setShowDropdown(false);
+      setShowErrors(false);
     }
   }, [searchQuery]);
 
   const hasActiveFilters = selectedTags.length > 0 || selectedPriorities.length > 0;
   const hasDropdownContent = matchingTasks.length > 0 || matchingTags.length > 0;
+  const visibleErrors = showErrors ? parsedQuery.errors : [];
 
   if (!isExpanded) {
     return (
@@ -173,7 +225,9 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
 
   return (
     <div className="relative" ref={containerRef}>
-      <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-800 rounded-lg px-2 py-1.5">
+      <div className={`flex items-center gap-2 bg-gray-100 dark:bg-gray-800 rounded-lg px-2 py-1.5 ${
+        visibleErrors.length > 0 ? 'ring-1 ring-red-400 dark:ring-red-500' : ''
+      }`}>
         <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path
             strokeLinecap="round"
@@ -216,7 +270,8 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
               handleSearch();
             }
           }}
-          placeholder={selectedTags.length > 0 ? 'Add more...' : 'Search or #tag'}
+          placeholder={selectedTags.length > 0 ? 'Add more...' : 'Search, #tag or tag:work due<friday'}
+          title="Filters: tag:, list:, priority:, due: (also due< due>), is:overdue/completed/open/recurring, has:subtasks/due/reminder/tags. Prefix with - to exclude."
           className="flex-1 min-w-[100px] bg-transparent border-none outline-none text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400"
         />
         <button
@@ -253,8 +308,20 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
         </button>
       </div>
 
+      {/* Query syntax errors */}
+      {visibleErrors.length > 0 && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-white dark:bg-gray-900 border border-red-200 dark:border-red-900/50 rounded-lg shadow-lg p-2 space-y-1 z-50">
+          {visibleErrors.map((error, index) => (
+            <p key={index} className="text-xs text-red-600 dark:text-red-400">
+              <code className="px-1 bg-red-50 dark:bg-red-900/20 rounded">{searchQuery.slice(error.start, error.end)}</code>
+              {' '}{error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Inline search results dropdown */}
-      {showDropdown && hasDropdownContent && (
+      {showDropdown && hasDropdownContent && visibleErrors.length === 0 && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden z-50">
           {/* Matching tags */}
           {matchingTags.length > 0 && (
@@ -279,15 +346,23 @@ export function SearchBar({ onSearch, onClear, tags }: SearchBarProps) {
           {matchingTasks.length > 0 && (
             <div>
               <p className="text-xs text-gray-500 dark:text-gray-400 px-2 pt-2 pb-1">Tasks</p>
-              {matchingTasks.map(task => (
+              {matchingTasks.map(({ task, titleHighlight, snippet, matchedIn }) => (
                 <button
                   key={task.id}
                   onClick={() => handleTaskSelect(task.id)}
                   className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
                 >
-                  <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
-                    {task.title}
+                  <p className={`text-sm truncate ${
+                    task.completed ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-900 dark:text-gray-100'
+                  }`}>
+                    <HighlightedText text={titleHighlight} />
                   </p>
+                  {snippet && matchedIn !== 'title' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                      <span className="text-gray-400 dark:text-gray-500">{matchedIn}: </span>
+                      <HighlightedText text={snippet} />
+                    </p>
+                  )}
                   {task.dueDate && (
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { useToast } from './Toast';
+import type { BackupImportMode, SnapshotInfo } from '../../shared/types';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function ToggleRow({ label, description, enabled, onToggle }: {
+  label: string;
+  description: string;
+  enabled: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <span className="block text-sm text-gray-700 dark:text-gray-300">{label}</span>
+        <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+      </div>
+      <button
+        onClick={onToggle}
+        className={`relative inline-flex flex-shrink-0 h-6 w-11 items-center rounded-full transition-colors ${
+          enabled ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+        }`}
+      >
+        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+          enabled ? 'translate-x-6' : 'translate-x-1'
+        }`} />
+      </button>
+    </div>
+  );
+}
+
+export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+  const { settings, updateSettings, lists, loadLists, loadTasks, loadTags, loadSavedFilters, loadSettings } = useApp();
+  const { theme, setTheme } = useTheme();
+  const { showToast } = useToast();
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+
+  const loadSnapshots = useCallback(async () => {
+    setSnapshots(await window.electronAPI.backup.listSnapshots());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSnapshots();
+    }
+  }, [isOpen, loadSnapshots]);
+
+  // Refresh everything after the database contents were swapped out
+  const reloadAll = async () => {
+    await Promise.all([loadLists(), loadTasks(), loadTags(), loadSavedFilters(), loadSettings()]);
+    const restored = await window.electronAPI.settings.get();
+    if (restored.theme !== theme) {
+      setTheme(restored.theme);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsBackupBusy(true);
+    try {
+      const result = await window.electronAPI.backup.export();
+      if (result.success) {
+        showToast('Backup exported');
+      } else if (!result.canceled) {
+        showToast(`Export failed: ${result.error}`);
+      }
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleImport = async (mode: BackupImportMode) => {
+    if (mode === 'replace' && !confirm('Restoring a backup replaces all current data. Continue?')) return;
+
+    setIsBackupBusy(true);
+    try {
+      const result = await window.electronAPI.backup.import(mode);
+      if (result.success) {
+        await reloadAll();
+        showToast(mode === 'replace' ? 'Backup restored' : 'Backup merged');
+      } else if (!result.canceled) {
+        showToast(`Import failed: ${result.error}`);
+      }
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SnapshotInfo) => {
+    const date = new Date(snapshot.createdAt).toLocaleString();
+    if (!confirm(`Restore the snapshot from ${date}? Your current data will be saved as a pre-restore snapshot first.`)) return;
+
+    setIsBackupBusy(true);
+    try {
+      const result = await window.electronAPI.backup.restoreSnapshot(snapshot.fileName);
+      if (result.success) {
+        await reloadAll();
+        showToast('Snapshot restored');
+      } else {
+        showToast(`Restore failed: ${result.error}`);
+      }
+      await loadSnapshots();
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Theme
+            </label>
+            <select
+              value={theme}
+              onChange={e => setTheme(e.target.value as 'light' | 'dark' | 'system')}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="system">System</option>
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Default List for New Tasks
+            </label>
+            <select
+              value={settings.defaultListId ?? ''}
+              onChange={e => updateSettings({ defaultListId: e.target.value || null })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">Inbox (No List)</option>
+              {lists.map(list => (
+                <option key={list.id} value={list.id}>
+                  {list.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Used when adding tasks from a smart list
+            </p>
+          </div>
+
+          <ToggleRow
+            label="Show Completed Tasks"
+            description="Show the completed section below each list"
+            enabled={settings.showCompletedTasks}
+            onToggle={() => updateSettings({ showCompletedTasks: !settings.showCompletedTasks })}
+          />
+          <ToggleRow
+            label="Hide Blocked Tasks"
+            description="Leave tasks waiting on other tasks out of Today and Next 7 Days"
+            enabled={settings.hideBlockedTasks}
+            onToggle={() => updateSettings({ hideBlockedTasks: !settings.hideBlockedTasks }).then(loadTasks)}
+          />
+          <ToggleRow
+            label="Start Minimized"
+            description="Launch without showing the main window"
+            enabled={settings.startMinimized}
+            onToggle={() => updateSettings({ startMinimized: !settings.startMinimized })}
+          />
+          <ToggleRow
+            label="Minimize to Tray"
+            description="Hide to the system tray instead of the taskbar"
+            enabled={settings.minimizeToTray}
+            onToggle={() => updateSettings({ minimizeToTray: !settings.minimizeToTray })}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Empty Trash Automatically
+            </label>
+            <select
+              value={settings.trashRetentionDays}
+              onChange={e => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value={7}>After 7 days</option>
+              <option value={14}>After 14 days</option>
+              <option value={30}>After 30 days</option>
+              <option value={90}>After 90 days</option>
+              <option value={0}>Never</option>
+            </select>
+          </div>
+
+          {/* Backup */}
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Backup</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Save everything to a JSON file, or restore from one. Merging keeps your current data and adds or updates from the file.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleExport}
+                disabled={isBackupBusy}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Export
+              </button>
+              <button
+                onClick={() => handleImport('merge')}
+                disabled={isBackupBusy}
+                className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Merge...
+              </button>
+              <button
+                onClick={() => handleImport('replace')}
+                disabled={isBackupBusy}
+                className="px-3 py-2 text-sm border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                Restore...
+              </button>
+            </div>
+          </div>
+
+          {/* Snapshots */}
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Snapshots</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Taken automatically every day. The last 7 daily and 4 weekly copies are kept.
+            </p>
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-gray-400 dark:text-gray-500">No snapshots yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {snapshots.map(snapshot => (
+                  <li
+                    key={snapshot.fileName}
+                    className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-700/50 rounded-md"
+                  >
+                    <div className="min-w-0">
+                      <span className="block text-sm text-gray-700 dark:text-gray-300">
+                        {new Date(snapshot.createdAt).toLocaleString()}
+                        <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300">
+                          {snapshot.kind}
+                        </span>
+                      </span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {snapshot.taskCount} task{snapshot.taskCount !== 1 ? 's' : ''}, {snapshot.habitCount} habit{snapshot.habitCount !== 1 ? 's' : ''}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleRestoreSnapshot(snapshot)}
+                      disabled={isBackupBusy}
+                      className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
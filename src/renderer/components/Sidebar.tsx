@@ -1,21 +1,89 @@
 import React, { useState, useEffect } from 'react';
 import { useApp } from '../contexts/AppContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { SMART_LISTS, type SmartListId, type HabitWithStats } from '../../shared/types';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { SMART_LISTS, type SmartListId, type HabitWithStats, type SavedFilter, type List, type Folder } from '../../shared/types';
 import { CalendarView } from './CalendarView';
+import { SortableSavedFilterItem } from './SortableSavedFilterItem';
+import { SortableListItem } from './SortableListItem';
+import { SortableFolderItem } from './SortableFolderItem';
+import { SavedFilterModal } from './SavedFilterModal';
+
+// A row under "My Lists": a folder header or a list
+type ListRow = { type: 'folder'; folder: Folder } | { type: 'list'; list: List; folderId: string | null };
+
+// Top-level lists first, then each folder followed by its lists
+function buildListRows(lists: List[], folders: Folder[]): ListRow[] {
+  const folderIds = new Set(folders.map(f => f.id));
+  const rows: ListRow[] = lists
+    .filter(list => !list.folderId || !folderIds.has(list.folderId))
+    .map(list => ({ type: 'list', list, folderId: null }));
+
+  for (const folder of folders) {
+    rows.push({ type: 'folder', folder });
+    for (const list of lists.filter(l => l.folderId === folder.id)) {
+      rows.push({ type: 'list', list, folderId: folder.id });
+    }
+  }
+  return rows;
+}
+
+function rowId(row: ListRow): string {
+  return row.type === 'folder' ? row.folder.id : row.list.id;
+}
 
 interface SidebarProps {
   onOpenPomodoro?: () => void;
   onOpenHabits?: () => void;
   onOpenStats?: () => void;
+  onOpenTags?: () => void;
+  onOpenSettings?: () => void;
   onShowCredit?: () => void;
 }
 
-export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredit }: SidebarProps) {
-  const { lists, selectedListId, setSelectedListId, createList, deleteList, viewMode, setViewMode } = useApp();
+export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onOpenTags, onOpenSettings, onShowCredit }: SidebarProps) {
+  const {
+    lists,
+    selectedListId,
+    setSelectedListId,
+    createList,
+    deleteList,
+    moveList,
+    folders,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    reorderFolders,
+    viewMode,
+    setViewMode,
+    savedFilters,
+    deleteSavedFilter,
+    reorderSavedFilters,
+  } = useApp();
   const { theme, setTheme, resolvedTheme } = useTheme();
   const [isCreatingList, setIsCreatingList] = useState(false);
   const [newListName, setNewListName] = useState('');
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(() => {
+    // Load collapsed folders from localStorage
+    const saved = localStorage.getItem('collapsedFolders');
+    return new Set<string>(saved ? JSON.parse(saved) : []);
+  });
   const [showMiniCalendar, setShowMiniCalendar] = useState(true);
   const [showQuickHabits, setShowQuickHabits] = useState(() => {
     const saved = localStorage.getItem('showQuickHabits');
@@ -23,6 +91,92 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
   });
   const [habits, setHabits] = useState<HabitWithStats[]>([]);
   const [completingHabit, setCompletingHabit] = useState<string | null>(null);
+  const [isSavedFilterModalOpen, setIsSavedFilterModalOpen] = useState(false);
+  const [editingSavedFilter, setEditingSavedFilter] = useState<SavedFilter | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const openSavedFilterModal = (savedFilter: SavedFilter | null) => {
+    setEditingSavedFilter(savedFilter);
+    setIsSavedFilterModalOpen(true);
+  };
+
+  const handleSavedFilterDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (over && active.id !== over.id) {
+      const oldIndex = savedFilters.findIndex(sf => sf.id === active.id);
+      const newIndex = savedFilters.findIndex(sf => sf.id === over.id);
+
+      if (oldIndex !== -1 && newIndex !== -1) {
+        reorderSavedFilters(arrayMove(savedFilters, oldIndex, newIndex).map(sf => sf.id));
+      }
+    }
+  };
+
+  // Every row, including lists hidden in collapsed folders, so a drop keeps their order
+  const listRows = buildListRows(lists, folders);
+  const visibleListRows = listRows.filter(
+    row => row.type === 'folder' || !row.folderId || !collapsedFolderIds.has(row.folderId)
+  );
+
+  const toggleFolderCollapsed = (folderId: string) => {
+    setCollapsedFolderIds(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      localStorage.setItem('collapsedFolders', JSON.stringify([...next]));
+      return next;
+    });
+  };
+
+  const handleListDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = listRows.findIndex(row => rowId(row) === active.id);
+    const newIndex = listRows.findIndex(row => rowId(row) === over.id);
+    if (oldIndex === -1 || newIndex === -1) return;
+
+    const activeRow = listRows[oldIndex];
+    if (activeRow.type === 'folder') {
+      // Folders only move among folders; dropping on a list moves next to that list's folder
+      const overRow = listRows[newIndex];
+      const targetFolderId = overRow.type === 'folder' ? overRow.folder.id : overRow.folderId;
+      const from = folders.findIndex(f => f.id === activeRow.folder.id);
+      const to = targetFolderId ? folders.findIndex(f => f.id === targetFolderId) : 0;
+      if (from !== to) {
+        reorderFolders(arrayMove(folders, from, to).map(f => f.id));
+      }
+      return;
+    }
+
+    // A dropped list joins the nearest folder above it, or the top level if there is none
+    const reordered = arrayMove(listRows, oldIndex, newIndex);
+    let folderId: string | null = null;
+    for (let i = newIndex - 1; i >= 0; i--) {
+      const row = reordered[i];
+      if (row.type === 'folder') {
+        folderId = row.folder.id;
+        break;
+      }
+    }
+
+    const listIds = reordered.flatMap(row => (row.type === 'list' ? [row.list.id] : []));
+    moveList(activeRow.list.id, folderId, listIds);
+  };
 
   // Load habits for quick-complete
   useEffect(() => {
@@ -70,6 +224,14 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
     }
   };
 
+  const handleCreateFolder = async () => {
+    if (newFolderName.trim()) {
+      await createFolder(newFolderName.trim());
+      setNewFolderName('');
+      setIsCreatingFolder(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleCreateList();
@@ -90,7 +252,7 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
     <aside className="w-56 h-full bg-gray-50 dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col">
       {/* App title */}
       <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
-        <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center justify-between gap-1">
           <h1 className="text-lg font-bold text-primary-600 dark:text-primary-400">
             George's Ticker
           </h1>
@@ -135,6 +297,32 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM14 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zM14 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
               </svg>
             </button>
+            <button
+              onClick={() => setViewMode('board')}
+              className={`p-1.5 rounded transition-colors ${
+                viewMode === 'board'
+                  ? 'bg-white dark:bg-gray-700 text-primary-600 dark:text-primary-400 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+              }`}
+              title="Board View"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setViewMode('timeline')}
+              className={`p-1.5 rounded transition-colors ${
+                viewMode === 'timeline'
+                  ? 'bg-white dark:bg-gray-700 text-primary-600 dark:text-primary-400 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+              }`}
+              title="Timeline View"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h8M8 12h10M6 18h8" />
+              </svg>
+            </button>
           </div>
         </div>
       </div>
@@ -186,27 +374,74 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
             <h2 className="text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
               My Lists
             </h2>
-            <button
-              onClick={() => setIsCreatingList(true)}
-              className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
-              title="Add List"
-            >
-              <svg
-                className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+            <div className="flex items-center">
+              <button
+                onClick={() => setIsCreatingFolder(true)}
+                className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+                title="Add Folder"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 4v16m8-8H4"
-                />
-              </svg>
-            </button>
+                <svg
+                  className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 13h6m-3-3v6m-9 1V7a2 2 0 012-2h6l2 2h6a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2z"
+                  />
+                </svg>
+              </button>
+              <button
+                onClick={() => setIsCreatingList(true)}
+                className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+                title="Add List"
+              >
+                <svg
+                  className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+              </button>
+            </div>
           </div>
 
+          {isCreatingFolder && (
+            <div className="px-2 py-1">
+              <input
+                type="text"
+                value={newFolderName}
+                onChange={e => setNewFolderName(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    handleCreateFolder();
+                  } else if (e.key === 'Escape') {
+                    setIsCreatingFolder(false);
+                    setNewFolderName('');
+                  }
+                }}
+                onBlur={() => {
+                  if (!newFolderName.trim()) {
+                    setIsCreatingFolder(false);
+                  }
+                }}
+                placeholder="Folder name..."
+                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 focus:border-primary-500"
+                autoFocus
+              />
+            </div>
+          )}
+
           {isCreatingList && (
             <div className="px-2 py-1">
               <input
@@ -226,55 +461,71 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
             </div>
           )}
 
-          <ul>
-            {lists.map(list => (
-              <li key={list.id} className="group">
-                <div
-                  onClick={() => setSelectedListId(list.id)}
-                  className={`sidebar-item w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm cursor-pointer ${
-                    selectedListId === list.id ? 'active' : ''
-                  }`}
-                >
-                  <span
-                    className="w-2.5 h-2.5 rounded-full flex-shrink-0"
-                    style={{ backgroundColor: list.color }}
-                  />
-                  <span className="flex-1 truncate">{list.name}</span>
-                  <button
-                    onClick={e => {
-                      e.stopPropagation();
-                      if (confirm(`Delete "${list.name}"?`)) {
-                        deleteList(list.id);
-                      }
-                    }}
-                    className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
-                    title="Delete list"
-                  >
-                    <svg
-                      className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                      />
-                    </svg>
-                  </button>
-                </div>
-              </li>
-            ))}
-          </ul>
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleListDragEnd}
+          >
+            <SortableContext
+              items={visibleListRows.map(rowId)}
+              strategy={verticalListSortingStrategy}
+            >
+              <ul>
+                {visibleListRows.map(row =>
+                  row.type === 'folder' ? (
+                    <SortableFolderItem
+                      key={row.folder.id}
+                      folder={row.folder}
+                      listCount={lists.filter(l => l.folderId === row.folder.id).length}
+                      isSelected={selectedListId === row.folder.id}
+                      isCollapsed={collapsedFolderIds.has(row.folder.id)}
+                      onSelect={() => setSelectedListId(row.folder.id)}
+                      onToggleCollapse={() => toggleFolderCollapsed(row.folder.id)}
+                      onRename={name => renameFolder(row.folder.id, name)}
+                      onDelete={() => deleteFolder(row.folder.id)}
+                    />
+                  ) : (
+                    <SortableListItem
+                      key={row.list.id}
+                      list={row.list}
+                      inFolder={row.folderId !== null}
+                      isSelected={selectedListId === row.list.id}
+                      onSelect={() => setSelectedListId(row.list.id)}
+                      onDelete={() => deleteList(row.list.id)}
+                    />
+                  )
+                )}
+              </ul>
+            </SortableContext>
+          </DndContext>
         </div>
 
         {/* Smart Lists - shown below user lists */}
         <div>
-          <h2 className="px-2 py-1 text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-            Smart Lists
-          </h2>
+          <div className="flex items-center justify-between px-2 py-1">
+            <h2 className="text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Smart Lists
+            </h2>
+            <button
+              onClick={() => openSavedFilterModal(null)}
+              className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+              title="Add Smart List"
+            >
+              <svg
+                className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+            </button>
+          </div>
           <ul>
             {SMART_LISTS.map(smartList => (
               <li key={smartList.id}>
@@ -290,6 +541,33 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
               </li>
             ))}
           </ul>
+
+          {/* User-defined smart lists */}
+          {savedFilters.length > 0 && (
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleSavedFilterDragEnd}
+            >
+              <SortableContext
+                items={savedFilters.map(sf => sf.id)}
+                strategy={verticalListSortingStrategy}
+              >
+                <ul>
+                  {savedFilters.map(savedFilter => (
+                    <SortableSavedFilterItem
+                      key={savedFilter.id}
+                      savedFilter={savedFilter}
+                      isSelected={selectedListId === savedFilter.id}
+                      onSelect={() => setSelectedListId(savedFilter.id)}
+                      onEdit={() => openSavedFilterModal(savedFilter)}
+                      onDelete={() => deleteSavedFilter(savedFilter.id)}
+                    />
+                  ))}
+                </ul>
+              </SortableContext>
+            </DndContext>
+          )}
         </div>
       </nav>
 
@@ -401,14 +679,24 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
             </svg>
             <span>Stats</span>
           </button>
+          <button
+            onClick={onOpenTags}
+            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-primary-50 dark:hover:bg-primary-900/20 hover:text-primary-600 dark:hover:text-primary-400 rounded-md transition-colors"
+            title="Manage Tags"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+            <span>Tags</span>
+          </button>
         </div>
       </div>
 
-      {/* Theme toggle */}
-      <div className="px-2 py-2 border-t border-gray-200 dark:border-gray-700">
+      {/* Theme toggle and settings */}
+      <div className="px-2 py-2 border-t border-gray-200 dark:border-gray-700 flex items-center gap-1">
         <button
           onClick={cycleTheme}
-          className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors"
+          className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors"
         >
           {resolvedTheme === 'dark' ? (
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -431,6 +719,16 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
           )}
           <span className="capitalize">{theme}</span>
         </button>
+        <button
+          onClick={onOpenSettings}
+          className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors"
+          title="Settings"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+        </button>
       </div>
 
       {/* Credit button - Easter egg */}
@@ -443,6 +741,12 @@ export function Sidebar({ onOpenPomodoro, onOpenHabits, onOpenStats, onShowCredi
           <span>🪔</span>
         </button>
       </div>
+
+      <SavedFilterModal
+        isOpen={isSavedFilterModalOpen}
+        onClose={() => setIsSavedFilterModalOpen(false)}
+        savedFilter={editingSavedFilter}
+      />
     </aside>
   );
 }
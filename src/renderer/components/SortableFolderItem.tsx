@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type { Folder } from '../../shared/types';
+
+interface SortableFolderItemProps {
+  folder: Folder;
+  listCount: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  onSelect: () => void;
+  onToggleCollapse: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+export function SortableFolderItem({
+  folder,
+  listCount,
+  isSelected,
+  isCollapsed,
+  onSelect,
+  onToggleCollapse,
+  onRename,
+  onDelete,
+}: SortableFolderItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(folder.name);
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: folder.id, disabled: isRenaming });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  const finishRename = () => {
+    setIsRenaming(false);
+    if (name.trim() && name.trim() !== folder.name) {
+      onRename(name.trim());
+    } else {
+      setName(folder.name);
+    }
+  };
+
+  return (
+    <li ref={setNodeRef} style={style} className="group" {...attributes} {...listeners}>
+      <div
+        onClick={onSelect}
+        className={`sidebar-item w-full flex items-center gap-1.5 px-2 py-1.5 rounded-md text-left text-sm cursor-pointer ${
+          isSelected ? 'active' : ''
+        }`}
+      >
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onToggleCollapse();
+          }}
+          className="p-0.5 -ml-1 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
+          title={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+        >
+          <svg
+            className={`w-3 h-3 text-gray-500 dark:text-gray-400 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        <svg className="w-3.5 h-3.5 flex-shrink-0 text-gray-500 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z"
+          />
+        </svg>
+        {isRenaming ? (
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onClick={e => e.stopPropagation()}
+            onKeyDown={e => {
+              e.stopPropagation(); // Keep the sortable keyboard sensor from picking up keys
+              if (e.key === 'Enter') finishRename();
+              if (e.key === 'Escape') {
+                setName(folder.name);
+                setIsRenaming(false);
+              }
+            }}
+            onBlur={finishRename}
+            className="flex-1 min-w-0 px-1 py-0 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 focus:border-primary-500"
+            autoFocus
+          />
+        ) : (
+          <span
+            className="flex-1 truncate font-medium"
+            onDoubleClick={e => {
+              e.stopPropagation();
+              setIsRenaming(true);
+            }}
+          >
+            {folder.name}
+          </span>
+        )}
+        {isCollapsed && listCount > 0 && !isRenaming && (
+          <span className="text-[10px] text-gray-400 group-hover:hidden">{listCount}</span>
+        )}
+        {!isRenaming && (
+          <>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                setName(folder.name);
+                setIsRenaming(true);
+              }}
+              className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
+              title="Rename folder"
+            >
+              <svg className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                if (confirm(`Delete the folder "${folder.name}"? Its lists move back to the top level.`)) {
+                  onDelete();
+                }
+              }}
+              className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
+              title="Delete folder"
+            >
+              <svg className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+}
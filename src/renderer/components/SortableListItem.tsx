@@ -0,0 +1,69 @@
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type { List } from '../../shared/types';
+
+interface SortableListItemProps {
+  list: List;
+  inFolder: boolean;
+  isSelected: boolean;
+  onSelect: () => void;
+  onDelete: () => void;
+}
+
+export function SortableListItem({ list, inFolder, isSelected, onSelect, onDelete }: SortableListItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: list.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <li ref={setNodeRef} style={style} className="group" {...attributes} {...listeners}>
+      <div
+        onClick={onSelect}
+        className={`sidebar-item w-full flex items-center gap-2 py-1.5 pr-2 rounded-md text-left text-sm cursor-pointer ${
+          inFolder ? 'pl-6' : 'pl-2'
+        } ${isSelected ? 'active' : ''}`}
+      >
+        <span
+          className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+          style={{ backgroundColor: list.color }}
+        />
+        <span className="flex-1 truncate">{list.name}</span>
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            if (confirm(`Move "${list.name}" and its tasks to the trash?`)) {
+              onDelete();
+            }
+          }}
+          className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
+          title="Delete list"
+        >
+          <svg
+            className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+            />
+          </svg>
+        </button>
+      </div>
+    </li>
+  );
+}
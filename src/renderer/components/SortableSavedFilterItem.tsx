@@ -0,0 +1,83 @@
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type { SavedFilter } from '../../shared/types';
+
+interface SortableSavedFilterItemProps {
+  savedFilter: SavedFilter;
+  isSelected: boolean;
+  onSelect: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+export function SortableSavedFilterItem({ savedFilter, isSelected, onSelect, onEdit, onDelete }: SortableSavedFilterItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: savedFilter.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <li ref={setNodeRef} style={style} className="group" {...attributes} {...listeners}>
+      <div
+        onClick={onSelect}
+        className={`sidebar-item w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm cursor-pointer ${
+          isSelected ? 'active' : ''
+        }`}
+      >
+        <span
+          className="w-5 h-5 flex items-center justify-center rounded text-sm flex-shrink-0"
+          style={{ backgroundColor: `${savedFilter.color}33` }}
+        >
+          {savedFilter.icon}
+        </span>
+        <span className="flex-1 truncate">{savedFilter.name}</span>
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onEdit();
+          }}
+          className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
+          title="Edit smart list"
+        >
+          <svg className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+            />
+          </svg>
+        </button>
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            if (confirm(`Delete the smart list "${savedFilter.name}"? Its tasks are not affected.`)) {
+              onDelete();
+            }
+          }}
+          className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
+          title="Delete smart list"
+        >
+          <svg className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+            />
+          </svg>
+        </button>
+      </div>
+    </li>
+  );
+}
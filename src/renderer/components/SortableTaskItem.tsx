@@ -7,6 +7,12 @@ import { useToast } from './Toast';
 
 interface SortableTaskItemProps {
   task: Task;
+  depth?: number;
+  hasChildren?: boolean;
+  isCollapsed?: boolean;
+  onToggleCollapse?: () => void;
+  isSelected?: boolean; // Part of a multi-selection
+  onSelect?: (e: React.MouseEvent) => void; // Replaces opening the task when given
 }
 
 const priorityColors: Record<Priority, string> = {
@@ -23,8 +29,16 @@ const priorityBgColors: Record<Priority, string> = {
   high: 'bg-red-500',
 };
 
-export function SortableTaskItem({ task }: SortableTaskItemProps) {
-  const { toggleTaskComplete, setSelectedTaskId, updateTask } = useApp();
+export function SortableTaskItem({
+  task,
+  depth = 0,
+  hasChildren = false,
+  isCollapsed = false,
+  onToggleCollapse,
+  isSelected = false,
+  onSelect,
+}: SortableTaskItemProps) {
+  const { toggleTaskComplete, setSelectedTaskId, undo, blockedTaskIds, taskProgress } = useApp();
   const { showToast } = useToast();
   const [isAnimating, setIsAnimating] = useState(false);
   const undoRef = useRef<boolean>(false);
@@ -56,7 +70,7 @@ export function SortableTaskItem({ task }: SortableTaskItemProps) {
           showToast(`"${task.title}" completed`, {
             label: 'Undo',
             onClick: async () => {
-              await updateTask(task.id, { completed: false });
+              await undo();
             },
           });
         }
@@ -96,15 +110,16 @@ export function SortableTaskItem({ task }: SortableTaskItemProps) {
 
   const dueDateText = formatDueDate(task.dueDate);
   const isOverdue = dueDateText === 'Overdue';
+  const progress = taskProgress[task.id];
 
   return (
     <div
       ref={setNodeRef}
-      style={style}
-      className={`task-item flex items-start gap-2 px-3 py-2 border-b border-gray-100 dark:border-gray-800 cursor-pointer bg-white dark:bg-gray-900 transition-all duration-200 ${
+      style={{ ...style, paddingLeft: `${0.75 + depth * 1.5}rem` }}
+      className={`task-item flex items-start gap-2 px-3 py-2 border-b border-gray-100 dark:border-gray-800 cursor-pointer transition-all duration-200 ${
         isAnimating ? 'opacity-50 scale-[0.98]' : ''
-      }`}
-      onClick={() => setSelectedTaskId(task.id)}
+      } ${isSelected ? 'bg-primary-50 dark:bg-primary-900/20' : 'bg-white dark:bg-gray-900'}`}
+      onClick={e => (onSelect ? onSelect(e) : setSelectedTaskId(task.id))}
     >
       {/* Drag handle */}
       <div
@@ -117,6 +132,29 @@ export function SortableTaskItem({ task }: SortableTaskItemProps) {
         </svg>
       </div>
 
+      {/* Expand/collapse children */}
+      {hasChildren ? (
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onToggleCollapse?.();
+          }}
+          className="flex-shrink-0 mt-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title={isCollapsed ? 'Show subtasks' : 'Hide subtasks'}
+        >
+          <svg
+            className={`w-3.5 h-3.5 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      ) : (
+        <span className="flex-shrink-0 w-3.5" />
+      )}
+
       {/* Checkbox */}
       <button
         onClick={handleToggleComplete}
@@ -181,6 +219,34 @@ export function SortableTaskItem({ task }: SortableTaskItemProps) {
             </span>
           )}
 
+          {progress && progress.total > 0 && (
+            <span
+              className={`text-xs ${
+                progress.completed === progress.total ? 'text-green-500' : 'text-gray-500 dark:text-gray-400'
+              }`}
+              title="Completed subtasks"
+            >
+              {progress.completed}/{progress.total}
+            </span>
+          )}
+
+          {!task.completed && blockedTaskIds.has(task.id) && (
+            <span
+              className="inline-flex items-center gap-0.5 text-[10px] px-1 py-0.5 rounded font-medium uppercase bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300"
+              title="Waiting on another task"
+            >
+              <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                />
+              </svg>
+              Blocked
+            </span>
+          )}
+
           {task.description && (
             <svg
               className="w-3 h-3 text-gray-400 dark:text-gray-500"
@@ -197,7 +263,7 @@ export function SortableTaskItem({ task }: SortableTaskItemProps) {
             </svg>
           )}
 
-          {task.recurrencePattern && task.recurrencePattern !== 'none' && (
+          {task.recurrenceRule && (
             <svg
               className="w-3 h-3 text-gray-400 dark:text-gray-500"
               fill="none"
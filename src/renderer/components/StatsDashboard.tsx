@@ -1,12 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import type { DashboardStats, TaskStats, PomodoroStats } from '../../shared/types';
+import type { DashboardStats, TaskStats, PomodoroStats, TimeTrackingStats } from '../../shared/types';
+import { formatMinutes } from '../utils/timeFormat';
 
 interface StatsDashboardProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type TabType = 'overview' | 'tasks' | 'pomodoro' | 'habits';
+type TabType = 'overview' | 'tasks' | 'pomodoro' | 'time' | 'habits';
 
 export function StatsDashboard({ isOpen, onClose }: StatsDashboardProps) {
   const [stats, setStats] = useState<DashboardStats | null>(null);
@@ -32,6 +33,7 @@ export function StatsDashboard({ isOpen, onClose }: StatsDashboardProps) {
     { id: 'overview', label: 'Overview' },
     { id: 'tasks', label: 'Tasks' },
     { id: 'pomodoro', label: 'Focus' },
+    { id: 'time', label: 'Time' },
     { id: 'habits', label: 'Habits' },
   ];
 
@@ -79,6 +81,7 @@ export function StatsDashboard({ isOpen, onClose }: StatsDashboardProps) {
               {activeTab === 'overview' && <OverviewTab stats={stats} />}
               {activeTab === 'tasks' && <TasksTab stats={stats.tasks} />}
               {activeTab === 'pomodoro' && <PomodoroTab stats={stats.pomodoro} />}
+              {activeTab === 'time' && <TimeTab stats={stats.time} />}
               {activeTab === 'habits' && <HabitsTab stats={stats.habits} />}
             </>
           ) : (
@@ -324,6 +327,99 @@ function PomodoroTab({ stats }: { stats: PomodoroStats }) {
   );
 }
 
+// Time Tab
+function TimeTab({ stats }: { stats: TimeTrackingStats }) {
+  const maxListMinutes = Math.max(...stats.byList.map(l => Math.max(l.estimatedMinutes, l.actualMinutes)), 1);
+
+  // Actual time as a percentage of the estimate; 100% is a perfect estimate
+  const ratios = stats.estimateAccuracy.map(t => Math.round((t.actualMinutes / t.estimatedMinutes) * 100));
+  const averageRatio = ratios.length > 0 ? Math.round(ratios.reduce((a, b) => a + b, 0) / ratios.length) : 0;
+  // Chart tops out at 300% so one runaway task doesn't flatten the rest
+  const maxRatio = Math.min(Math.max(...ratios, 200), 300);
+
+  return (
+    <div className="space-y-6">
+      {/* Total Stats */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-gradient-to-br from-teal-500 to-cyan-500 rounded-lg p-6 text-white">
+          <div className="text-4xl font-bold">{formatMinutes(stats.totalTrackedMinutes)}</div>
+          <div className="text-sm opacity-80">Total Tracked Time</div>
+        </div>
+        <div className="bg-gradient-to-br from-cyan-500 to-blue-500 rounded-lg p-6 text-white">
+          <div className="text-4xl font-bold">{ratios.length > 0 ? `${averageRatio}%` : '–'}</div>
+          <div className="text-sm opacity-80">Actual vs Estimate (avg)</div>
+        </div>
+      </div>
+
+      {/* Time by List */}
+      {stats.byList.length > 0 && (
+        <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Time by List</h3>
+          <div className="space-y-4">
+            {stats.byList.map(({ listId, listName, estimatedMinutes, actualMinutes }) => (
+              <div key={listId || 'inbox'} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300 truncate">{listName}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {formatMinutes(actualMinutes)} of {formatMinutes(estimatedMinutes)} estimated
+                  </span>
+                </div>
+                <div className="h-1.5 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gray-400 rounded-full"
+                    style={{ width: `${(estimatedMinutes / maxListMinutes) * 100}%` }}
+                    title={`Estimated: ${formatMinutes(estimatedMinutes)}`}
+                  />
+                </div>
+                <div className="h-1.5 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-teal-500 rounded-full"
+                    style={{ width: `${(actualMinutes / maxListMinutes) * 100}%` }}
+                    title={`Actual: ${formatMinutes(actualMinutes)}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Estimation Accuracy Chart */}
+      {stats.estimateAccuracy.length > 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Estimation Accuracy</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+            Actual time as a share of the estimate for recently completed tasks. The line marks 100%.
+          </p>
+          <div className="relative h-32 flex items-end gap-1">
+            <div
+              className="absolute inset-x-0 border-t border-dashed border-gray-400"
+              style={{ bottom: `${(100 / maxRatio) * 100}%` }}
+            />
+            {stats.estimateAccuracy.map(({ taskId, title, estimatedMinutes, actualMinutes }, index) => {
+              const ratio = ratios[index];
+              return (
+                <div
+                  key={taskId}
+                  className={`flex-1 rounded-t transition-all ${
+                    ratio > 125 ? 'bg-red-400 hover:bg-red-500' : ratio < 75 ? 'bg-blue-400 hover:bg-blue-500' : 'bg-green-500 hover:bg-green-600'
+                  }`}
+                  style={{ height: `${Math.max((Math.min(ratio, maxRatio) / maxRatio) * 100, 4)}%` }}
+                  title={`${title}: ${formatMinutes(actualMinutes)} of ${formatMinutes(estimatedMinutes)} (${ratio}%)`}
+                />
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          Add estimates and track time on tasks to see how accurate your estimates are!
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Habits Tab
 function HabitsTab({ stats }: { stats: DashboardStats['habits'] }) {
   return (
@@ -0,0 +1,294 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useToast } from './Toast';
+import { buildTagTree, getTagRenameError, isTagWithin, normalizeTagName } from '../utils/tagTree';
+import type { Tag } from '../../shared/types';
+
+interface TagManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const COLORS = ['#6366f1', '#3b82f6', '#06b6d4', '#10b981', '#84cc16', '#f59e0b', '#ef4444', '#ec4899', '#8b5cf6', '#6b7280'];
+
+// Rename, recolor, merge and clean up tags. Nested tags ("work/meetings") show under their parent.
+export function TagManager({ isOpen, onClose }: TagManagerProps) {
+  const { tags, updateTag, deleteTag, mergeTags, deleteTags, undo } = useApp();
+  const { showToast } = useToast();
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [colorPickerId, setColorPickerId] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  // Task counts follow every change to the tags, including undo
+  useEffect(() => {
+    if (isOpen) {
+      window.electronAPI.tag.getUsage().then(setUsage);
+    }
+  }, [isOpen, tags]);
+
+  // Forget selections of tags that no longer exist
+  useEffect(() => {
+    setSelectedIds(prev => new Set([...prev].filter(id => tags.some(tag => tag.id === id))));
+  }, [tags]);
+
+  const rows = useMemo(() => buildTagTree(tags), [tags]);
+
+  // Tasks using a tag or any tag nested under it
+  const getTotalCount = (tag: Tag): number =>
+    tags.filter(t => isTagWithin(t.name, tag.name)).reduce((sum, t) => sum + (usage[t.id] ?? 0), 0);
+
+  const unusedIds = tags.filter(tag => getTotalCount(tag) === 0).map(tag => tag.id);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const tag = tags.find(t => t.id === editing.id);
+    setEditing(null);
+    if (!tag || normalizeTagName(editing.name) === tag.name) return;
+
+    const error = getTagRenameError(tags, tag, editing.name);
+    if (error) {
+      showToast(error);
+      return;
+    }
+    await updateTag(tag.id, { name: editing.name });
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const nested = tags.filter(t => t.id !== tag.id && isTagWithin(t.name, tag.name)).length;
+    const count = getTotalCount(tag);
+    const details = [
+      nested > 0 ? `its ${nested} nested tag${nested !== 1 ? 's' : ''}` : '',
+      count > 0 ? `removes it from ${count} task${count !== 1 ? 's' : ''}` : '',
+    ].filter(Boolean);
+    if (!confirm(`Delete #${tag.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}?`)) return;
+
+    await deleteTag(tag.id);
+    showToast(`Deleted #${tag.name}`, { label: 'Undo', onClick: async () => { await undo(); } });
+  };
+
+  const handleMerge = async (source: Tag, targetId: string) => {
+    const target = tags.find(t => t.id === targetId);
+    setMergingId(null);
+    if (!target) return;
+    if (!confirm(`Merge #${source.name} into #${target.name}? Its tasks and nested tags move to #${target.name}.`)) return;
+
+    await mergeTags(source.id, target.id);
+    showToast(`Merged #${source.name} into #${target.name}`, { label: 'Undo', onClick: async () => { await undo(); } });
+  };
+
+  const handleDeleteSelected = async () => {
+    const ids = [...selectedIds];
+    const used = tags.filter(tag => selectedIds.has(tag.id) && getTotalCount(tag) > 0).length;
+    const warning = used > 0 ? ` ${used} of them ${used !== 1 ? 'are' : 'is'} still on tasks.` : '';
+    if (!confirm(`Delete ${ids.length} tag${ids.length !== 1 ? 's' : ''}?${warning}`)) return;
+
+    await deleteTags(ids);
+    setSelectedIds(new Set());
+    showToast(`Deleted ${ids.length} tag${ids.length !== 1 ? 's' : ''}`, {
+      label: 'Undo',
+      onClick: async () => { await undo(); },
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Tags</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Nest tags with a slash, e.g. work/meetings. Filtering by a tag includes its nested tags.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Bulk actions */}
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+          <button
+            onClick={() => setSelectedIds(new Set(unusedIds))}
+            disabled={unusedIds.length === 0}
+            className="text-primary-600 dark:text-primary-400 hover:underline disabled:text-gray-400 disabled:no-underline"
+          >
+            Select unused ({unusedIds.length})
+          </button>
+          <div className="flex items-center gap-2">
+            {selectedIds.size > 0 && (
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="text-gray-500 dark:text-gray-400 hover:underline"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              onClick={handleDeleteSelected}
+              disabled={selectedIds.size === 0}
+              className="px-3 py-1 rounded-md bg-red-500 text-white hover:bg-red-600 disabled:opacity-40 disabled:hover:bg-red-500 transition-colors"
+            >
+              Delete selected ({selectedIds.size})
+            </button>
+          </div>
+        </div>
+
+        {/* Tag tree */}
+        <div className="flex-1 overflow-y-auto py-1">
+          {rows.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              No tags yet. Add them to tasks with #name in quick add or from a task's details.
+            </p>
+          ) : (
+            rows.map(({ tag, depth, label }) => {
+              const count = usage[tag.id] ?? 0;
+              return (
+                <div key={tag.id}>
+                  <div
+                    className="group flex items-center gap-2 py-1.5 pr-3 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    style={{ paddingLeft: 16 + depth * 20 }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(tag.id)}
+                      onChange={() => toggleSelected(tag.id)}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                    />
+                    <button
+                      onClick={() => setColorPickerId(colorPickerId === tag.id ? null : tag.id)}
+                      className="w-3.5 h-3.5 flex-shrink-0 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                      title="Change color"
+                    />
+
+                    {editing?.id === tag.id ? (
+                      <input
+                        type="text"
+                        value={editing.name}
+                        onChange={e => setEditing({ id: tag.id, name: e.target.value })}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                        onBlur={handleRename}
+                        className="flex-1 min-w-0 px-2 py-0.5 text-sm border border-primary-500 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                        autoFocus
+                      />
+                    ) : (
+                      <span
+                        onDoubleClick={() => setEditing({ id: tag.id, name: tag.name })}
+                        className="flex-1 min-w-0 truncate text-sm text-gray-800 dark:text-gray-200"
+                        title={tag.name}
+                      >
+                        {label}
+                      </span>
+                    )}
+
+                    <span className="text-xs text-gray-400 tabular-nums">
+                      {count > 0 ? `${count} task${count !== 1 ? 's' : ''}` : getTotalCount(tag) === 0 ? 'unused' : ''}
+                    </span>
+
+                    {editing?.id !== tag.id && (
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => setEditing({ id: tag.id, name: tag.name })}
+                          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                          title="Rename (use a / to move it under another tag)"
+                        >
+                          <svg className="w-3.5 h-3.5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => setMergingId(mergingId === tag.id ? null : tag.id)}
+                          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                          title="Merge into another tag"
+                        >
+                          <svg className="w-3.5 h-3.5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => handleDelete(tag)}
+                          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                          title="Delete tag"
+                        >
+                          <svg className="w-3.5 h-3.5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {colorPickerId === tag.id && (
+                    <div className="flex gap-1.5 py-1.5" style={{ paddingLeft: 40 + depth * 20 }}>
+                      {COLORS.map(color => (
+                        <button
+                          key={color}
+                          onClick={async () => {
+                            setColorPickerId(null);
+                            await updateTag(tag.id, { color });
+                          }}
+                          className={`w-5 h-5 rounded-full ${
+                            tag.color === color ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-800' : ''
+                          }`}
+                          style={{ backgroundColor: color }}
+                        />
+                      ))}
+                    </div>
+                  )}
+
+                  {mergingId === tag.id && (
+                    <div className="flex items-center gap-2 py-1.5 pr-3" style={{ paddingLeft: 40 + depth * 20 }}>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Merge into</span>
+                      <select
+                        defaultValue=""
+                        onChange={e => e.target.value && handleMerge(tag, e.target.value)}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        autoFocus
+                      >
+                        <option value="" disabled>
+                          Choose a tag...
+                        </option>
+                        {tags
+                          .filter(t => !isTagWithin(t.name, tag.name))
+                          .map(t => (
+                            <option key={t.id} value={t.id}>
+                              #{t.name}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useApp } from '../contexts/AppContext';
-import type { Priority, Subtask, Tag, Reminder, RecurrencePattern, RegenerateMode, Weekday } from '../../shared/types';
+import { DependencySection } from './DependencySection';
+import { AttachmentSection } from './AttachmentSection';
+import { TimeTrackingSection } from './TimeTrackingSection';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { useToast } from './Toast';
+import { formatMinutes } from '../utils/timeFormat';
+import { DEFAULT_BLOCK_MINUTES } from '../utils/calendar';
+import type {
+  Task,
+  Priority,
+  Tag,
+  Reminder,
+  RegenerateMode,
+  CatchUpMode,
+  List,
+  TaskActivity,
+} from '../../shared/types';
 
 const PRIORITY_OPTIONS: { value: Priority; label: string; color: string }[] = [
   { value: 'none', label: 'None', color: 'text-gray-500' },
@@ -9,16 +25,15 @@ const PRIORITY_OPTIONS: { value: Priority; label: string; color: string }[] = [
   { value: 'high', label: 'High', color: 'text-red-500' },
 ];
 
-const RECURRENCE_OPTIONS: { value: RecurrencePattern; label: string }[] = [
-  { value: 'none', label: 'None' },
-  { value: 'daily', label: 'Daily' },
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'monthly', label: 'Monthly' },
-  { value: 'yearly', label: 'Yearly' },
-  { value: 'custom', label: 'Custom' },
+// What completing an overdue task on a fixed schedule does with the dates it missed
+const CATCH_UP_OPTIONS: { value: CatchUpMode; label: string; hint: string }[] = [
+  { value: 'strict', label: 'Keep sequence', hint: 'The next task is due on the next date, even if that has passed' },
+  { value: 'skip_missed', label: 'Skip missed dates', hint: 'The next task is due on the first date from today on' },
+  { value: 'each_missed', label: 'One task per missed date', hint: 'Missed dates become one-off tasks, then the series carries on from today' },
 ];
 
-const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Calendar block lengths offered for timed tasks
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
 
 const REMINDER_PRESETS = [
   { label: 'At due time', minutes: 0 },
@@ -28,6 +43,69 @@ const REMINDER_PRESETS = [
   { label: '1 day before', minutes: -1440 },
 ];
 
+const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  startDate: 'start date',
+  dueDate: 'due date',
+  dueTime: 'due time',
+  priority: 'priority',
+  recurrencePattern: 'repeat', // Activity recorded before recurrence rules
+  recurrenceRule: 'repeat',
+  description: 'description',
+  notes: 'notes',
+};
+
+// Human readable summary of an activity entry
+function describeActivity(activity: TaskActivity, lists: List[]): string {
+  const { oldValue, newValue } = activity;
+  const listName = (id: string | null) =>
+    id ? lists.find(l => l.id === id)?.name ?? 'a deleted list' : 'Inbox';
+
+  switch (activity.action) {
+    case 'created':
+      return 'Created this task';
+    case 'updated': {
+      const label = ACTIVITY_FIELD_LABELS[activity.field ?? ''] ?? activity.field;
+      if (activity.field === 'description' || activity.field === 'notes') return `Edited the ${label}`;
+      if (!newValue) return `Removed the ${label}`;
+      if (!oldValue) return `Set ${label} to ${newValue}`;
+      return `Changed ${label} from ${oldValue} to ${newValue}`;
+    }
+    case 'moved':
+      return `Moved from ${listName(oldValue)} to ${listName(newValue)}`;
+    case 'completed':
+      return 'Completed';
+    case 'reopened':
+      return 'Reopened';
+    case 'recurred':
+      return newValue ? `Next occurrence created for ${newValue}` : 'Next occurrence created';
+    case 'subtask_added':
+      return `Added subtask "${newValue}"`;
+    case 'subtask_renamed':
+      return `Renamed subtask "${oldValue}" to "${newValue}"`;
+    case 'subtask_completed':
+      return `Completed subtask "${newValue}"`;
+    case 'subtask_reopened':
+      return `Reopened subtask "${newValue}"`;
+    case 'subtask_deleted':
+      return `Deleted subtask "${oldValue}"`;
+    case 'tag_added':
+      return `Added tag #${newValue}`;
+    case 'tag_removed':
+      return `Removed tag #${oldValue}`;
+    case 'dependency_added':
+      return `Now blocked by "${newValue}"`;
+    case 'dependency_removed':
+      return `No longer blocked by "${oldValue}"`;
+    case 'attachment_added':
+      return `Attached ${newValue}`;
+    case 'attachment_removed':
+      return `Removed attachment ${oldValue}`;
+    default:
+      return activity.action;
+  }
+}
+
 export function TaskDetail() {
   const {
     selectedTask,
@@ -39,7 +117,11 @@ export function TaskDetail() {
     loadTags,
     isTaskDetailOpen,
     setIsTaskDetailOpen,
+    blockedTaskIds,
+    taskProgress,
+    loadTasks,
   } = useApp();
+  const { showToast } = useToast();
 
   // Panel states: collapsed (narrow bar), expanded (full panel), pinned (always expanded)
   const [panelCollapsed, setPanelCollapsed] = useState(() => {
@@ -53,24 +135,29 @@ export function TaskDetail() {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [notes, setNotes] = useState('');
+  const [startDate, setStartDate] = useState('');
   const [dueDate, setDueDate] = useState('');
   const [dueTime, setDueTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
   const [priority, setPriority] = useState<Priority>('none');
   const [listId, setListId] = useState<string | null>(null);
-  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [parentTask, setParentTask] = useState<Task | null>(null);
   const [taskTags, setTaskTags] = useState<Tag[]>([]);
   const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
   const [newTagName, setNewTagName] = useState('');
   const [showTagInput, setShowTagInput] = useState(false);
-  const [recurrencePattern, setRecurrencePattern] = useState<RecurrencePattern>('none');
-  const [recurrenceInterval, setRecurrenceInterval] = useState(1);
-  const [recurrenceWeekdays, setRecurrenceWeekdays] = useState<Weekday[]>([]);
-  const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
+  const [recurrenceRule, setRecurrenceRule] = useState<string | null>(null);
   const [regenerateMode, setRegenerateMode] = useState<RegenerateMode>('on_completion');
+  const [catchUpMode, setCatchUpMode] = useState<CatchUpMode>('strict');
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [showReminderInput, setShowReminderInput] = useState(false);
   const [customReminderDate, setCustomReminderDate] = useState('');
   const [customReminderTime, setCustomReminderTime] = useState('');
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [showActivity, setShowActivity] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [templateName, setTemplateName] = useState<string | null>(null);
 
   // Update local state when selected task changes
   useEffect(() => {
@@ -78,23 +165,44 @@ export function TaskDetail() {
       setTitle(selectedTask.title);
       setDescription(selectedTask.description);
       setNotes(selectedTask.notes);
+      setStartDate(selectedTask.startDate ?? '');
       setDueDate(selectedTask.dueDate ?? '');
       setDueTime(selectedTask.dueTime ?? '');
+      setDurationMinutes(selectedTask.durationMinutes);
       setPriority(selectedTask.priority);
       setListId(selectedTask.listId);
       setSubtasks(selectedTask.subtasks || []);
       setTaskTags(selectedTask.tags || []);
-      setRecurrencePattern(selectedTask.recurrencePattern || 'none');
-      setRecurrenceInterval(selectedTask.recurrenceInterval || 1);
-      setRecurrenceWeekdays(selectedTask.recurrenceWeekdays || []);
-      setRecurrenceEndDate(selectedTask.recurrenceEndDate ?? '');
+      setRecurrenceRule(selectedTask.recurrenceRule);
       setRegenerateMode(selectedTask.regenerateMode || 'on_completion');
+      setCatchUpMode(selectedTask.catchUpMode || 'strict');
 
       // Load reminders for the task
       loadReminders(selectedTask.id);
     }
   }, [selectedTask]);
 
+  // Load the parent for the "Subtask of" link
+  useEffect(() => {
+    if (selectedTask?.parentId) {
+      window.electronAPI.task.getById(selectedTask.parentId).then(setParentTask);
+    } else {
+      setParentTask(null);
+    }
+  }, [selectedTask?.parentId]);
+
+  // Close the template name input when switching tasks
+  useEffect(() => {
+    setTemplateName(null);
+  }, [selectedTask?.id]);
+
+  // Refresh the activity history while it is expanded (subtask, tag and blocker edits don't reload the task)
+  useEffect(() => {
+    if (selectedTask && showActivity) {
+      window.electronAPI.task.getActivity(selectedTask.id).then(setActivity);
+    }
+  }, [selectedTask, subtasks, taskTags, blockedTaskIds, showActivity]);
+
   // Load reminders for a task
   const loadReminders = async (taskId: string) => {
     const taskReminders = await window.electronAPI.reminder.getByTask(taskId);
@@ -209,6 +317,7 @@ export function TaskDetail() {
       title,
       description,
       notes,
+      startDate: startDate || null,
       dueDate: dueDate || null,
       dueTime: dueTime || null,
       priority,
@@ -222,21 +331,31 @@ export function TaskDetail() {
     }
   };
 
+  // Save the task and its subtasks, tags and reminders as a reusable template
+  const handleSaveTemplate = async () => {
+    const name = templateName?.trim() || selectedTask.title;
+    const template = await window.electronAPI.template.create(selectedTask.id, name);
+    setTemplateName(null);
+    showToast(`Saved template "${template.name}"`);
+  };
+
+  // Subtasks are child tasks: they go through the task API and show up in the task list too
   const handleAddSubtask = async () => {
     if (newSubtaskTitle.trim()) {
-      const subtask = await window.electronAPI.subtask.create({
-        taskId: selectedTask.id,
+      const subtask = await window.electronAPI.task.create({
+        parentId: selectedTask.id,
         title: newSubtaskTitle.trim(),
       });
       setSubtasks([...subtasks, subtask]);
       setNewSubtaskTitle('');
+      await loadTasks();
     }
   };
 
   const handleToggleSubtask = async (subtaskId: string) => {
     const subtask = subtasks.find(s => s.id === subtaskId);
     if (subtask) {
-      await window.electronAPI.subtask.update(subtaskId, {
+      await window.electronAPI.task.update(subtaskId, {
         completed: !subtask.completed,
       });
       setSubtasks(
@@ -244,12 +363,14 @@ export function TaskDetail() {
           s.id === subtaskId ? { ...s, completed: !s.completed } : s
         )
       );
+      await loadTasks();
     }
   };
 
   const handleDeleteSubtask = async (subtaskId: string) => {
-    await window.electronAPI.subtask.delete(subtaskId);
+    await window.electronAPI.task.delete(subtaskId);
     setSubtasks(subtasks.filter(s => s.id !== subtaskId));
+    await loadTasks();
   };
 
   const handleAddTag = async () => {
@@ -369,8 +490,39 @@ export function TaskDetail() {
   // Tags that are not yet assigned to this task
   const availableTags = tags.filter(tag => !taskTags.find(t => t.id === tag.id));
 
+  // Files dropped anywhere on the panel are attached to the task
+  const handleFileDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+
+    const filePaths = Array.from(e.dataTransfer.files)
+      .map(file => window.electronAPI.attachment.getPathForFile(file))
+      .filter(Boolean);
+    if (filePaths.length === 0) return;
+
+    const result = await window.electronAPI.attachment.add(selectedTask.id, filePaths);
+    if (!result.success) {
+      showToast(result.error ?? 'Could not attach the file');
+    }
+    await loadTasks();
+  };
+
   return (
-    <div className="w-96 h-full bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 flex flex-col">
+    <div
+      className={`w-96 h-full bg-white dark:bg-gray-900 border-l flex flex-col ${
+        isDraggingFiles ? 'border-primary-500 ring-2 ring-inset ring-primary-500' : 'border-gray-200 dark:border-gray-700'
+      }`}
+      onDragOver={e => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+      }}
+      onDragLeave={e => {
+        // Ignore leaving one child for another inside the panel
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+      }}
+      onDrop={handleFileDrop}
+    >
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
         <h3 className="font-semibold text-gray-900 dark:text-gray-100">
@@ -422,6 +574,19 @@ export function TaskDetail() {
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Parent */}
+        {parentTask && (
+          <button
+            onClick={() => setSelectedTaskId(parentTask.id)}
+            className="flex items-center gap-1 max-w-full text-xs text-gray-500 dark:text-gray-400 hover:text-primary-500"
+          >
+            <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            <span className="truncate">Subtask of {parentTask.title}</span>
+          </button>
+        )}
+
         {/* Title */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -544,6 +709,28 @@ export function TaskDetail() {
           )}
         </div>
 
+        {/* Start date (deferral) */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Start Date
+          </label>
+          <input
+            type="date"
+            value={startDate}
+            max={dueDate || undefined}
+            onChange={e => {
+              setStartDate(e.target.value);
+              updateTask(selectedTask.id, { startDate: e.target.value || null });
+            }}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          />
+          {startDate && startDate > new Date().toISOString().split('T')[0] && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Hidden from Inbox, Today and All Tasks until then
+            </p>
+          )}
+        </div>
+
         {/* Due date & time */}
         <div className="grid grid-cols-2 gap-3">
           <div>
@@ -576,6 +763,38 @@ export function TaskDetail() {
           </div>
         </div>
 
+        {/* Duration of the calendar block, only meaningful with a due time */}
+        {dueTime && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Duration
+            </label>
+            <select
+              value={durationMinutes ?? ''}
+              onChange={e => {
+                const value = e.target.value ? parseInt(e.target.value, 10) : null;
+                setDurationMinutes(value);
+                updateTask(selectedTask.id, { durationMinutes: value });
+              }}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">
+                {selectedTask.estimatedMinutes
+                  ? `Same as estimate (${formatMinutes(selectedTask.estimatedMinutes)})`
+                  : `Default (${formatMinutes(DEFAULT_BLOCK_MINUTES)})`}
+              </option>
+              {durationMinutes !== null && !DURATION_OPTIONS.includes(durationMinutes) && (
+                <option value={durationMinutes}>{formatMinutes(durationMinutes)}</option>
+              )}
+              {DURATION_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {formatMinutes(minutes)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Priority */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -606,123 +825,72 @@ export function TaskDetail() {
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
             Repeat
           </label>
-          <select
-            value={recurrencePattern}
-            onChange={e => {
-              const pattern = e.target.value as RecurrencePattern;
-              setRecurrencePattern(pattern);
-              updateTask(selectedTask.id, { recurrencePattern: pattern });
+          <RecurrenceEditor
+            rule={recurrenceRule}
+            startDate={dueDate || null}
+            onChange={rule => {
+              setRecurrenceRule(rule);
+              updateTask(selectedTask.id, { recurrenceRule: rule });
             }}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-          >
-            {RECURRENCE_OPTIONS.map(option => (
-              <option key={option.value} value={option.value}>
-                {option.label}
-              </option>
-            ))}
-          </select>
+          />
 
-          {/* Additional recurrence options */}
-          {recurrencePattern !== 'none' && (
-            <div className="mt-3 space-y-3 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
-              {/* Interval */}
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-gray-600 dark:text-gray-400">Every</span>
-                <input
-                  type="number"
-                  min={1}
-                  max={99}
-                  value={recurrenceInterval}
-                  onChange={e => {
-                    const val = Math.max(1, parseInt(e.target.value) || 1);
-                    setRecurrenceInterval(val);
-                    updateTask(selectedTask.id, { recurrenceInterval: val });
+          {/* Regenerate mode */}
+          {recurrenceRule && (
+            <div className="mt-3">
+              <span className="text-sm text-gray-600 dark:text-gray-400 block mb-2">When completed</span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setRegenerateMode('on_completion');
+                    updateTask(selectedTask.id, { regenerateMode: 'on_completion' });
                   }}
-                  className="w-16 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
-                />
-                <span className="text-sm text-gray-600 dark:text-gray-400">
-                  {recurrencePattern === 'daily' && (recurrenceInterval === 1 ? 'day' : 'days')}
-                  {recurrencePattern === 'weekly' && (recurrenceInterval === 1 ? 'week' : 'weeks')}
-                  {recurrencePattern === 'monthly' && (recurrenceInterval === 1 ? 'month' : 'months')}
-                  {recurrencePattern === 'yearly' && (recurrenceInterval === 1 ? 'year' : 'years')}
-                  {recurrencePattern === 'custom' && (recurrenceInterval === 1 ? 'day' : 'days')}
-                </span>
+                  className={`flex-1 px-3 py-2 text-xs rounded-lg border transition-colors ${
+                    regenerateMode === 'on_completion'
+                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  From completion date
+                </button>
+                <button
+                  onClick={() => {
+                    setRegenerateMode('fixed_schedule');
+                    updateTask(selectedTask.id, { regenerateMode: 'fixed_schedule' });
+                  }}
+                  className={`flex-1 px-3 py-2 text-xs rounded-lg border transition-colors ${
+                    regenerateMode === 'fixed_schedule'
+                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  From due date
+                </button>
               </div>
 
-              {/* Weekdays for weekly recurrence */}
-              {recurrencePattern === 'weekly' && (
-                <div>
-                  <span className="text-sm text-gray-600 dark:text-gray-400 block mb-2">On</span>
-                  <div className="flex gap-1">
-                    {WEEKDAY_NAMES.map((day, index) => (
-                      <button
-                        key={day}
-                        onClick={() => {
-                          const newWeekdays = recurrenceWeekdays.includes(index as Weekday)
-                            ? recurrenceWeekdays.filter(d => d !== index)
-                            : [...recurrenceWeekdays, index as Weekday].sort((a, b) => a - b);
-                          setRecurrenceWeekdays(newWeekdays);
-                          updateTask(selectedTask.id, { recurrenceWeekdays: newWeekdays });
-                        }}
-                        className={`w-9 h-9 text-xs rounded-full transition-colors ${
-                          recurrenceWeekdays.includes(index as Weekday)
-                            ? 'bg-primary-500 text-white'
-                            : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-600'
-                        }`}
-                      >
-                        {day}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Regenerate mode */}
-              <div>
-                <span className="text-sm text-gray-600 dark:text-gray-400 block mb-2">When completed</span>
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => {
-                      setRegenerateMode('on_completion');
-                      updateTask(selectedTask.id, { regenerateMode: 'on_completion' });
+              {/* Catch-up for missed dates */}
+              {regenerateMode === 'fixed_schedule' && (
+                <div className="mt-3">
+                  <span className="text-sm text-gray-600 dark:text-gray-400 block mb-2">When completed late</span>
+                  <select
+                    value={catchUpMode}
+                    onChange={e => {
+                      const mode = e.target.value as CatchUpMode;
+                      setCatchUpMode(mode);
+                      updateTask(selectedTask.id, { catchUpMode: mode });
                     }}
-                    className={`flex-1 px-3 py-2 text-xs rounded-lg border transition-colors ${
-                      regenerateMode === 'on_completion'
-                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400'
-                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
-                    }`}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
                   >
-                    From completion date
-                  </button>
-                  <button
-                    onClick={() => {
-                      setRegenerateMode('fixed_schedule');
-                      updateTask(selectedTask.id, { regenerateMode: 'fixed_schedule' });
-                    }}
-                    className={`flex-1 px-3 py-2 text-xs rounded-lg border transition-colors ${
-                      regenerateMode === 'fixed_schedule'
-                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400'
-                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
-                    }`}
-                  >
-                    From due date
-                  </button>
+                    {CATCH_UP_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {CATCH_UP_OPTIONS.find(option => option.value === catchUpMode)?.hint}
+                  </p>
                 </div>
-              </div>
-
-              {/* End date */}
-              <div>
-                <span className="text-sm text-gray-600 dark:text-gray-400 block mb-2">End date (optional)</span>
-                <input
-                  type="date"
-                  value={recurrenceEndDate}
-                  onChange={e => {
-                    setRecurrenceEndDate(e.target.value);
-                    updateTask(selectedTask.id, { recurrenceEndDate: e.target.value || null });
-                  }}
-                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
-                />
-              </div>
+              )}
             </div>
           )}
         </div>
@@ -868,7 +1036,7 @@ export function TaskDetail() {
         {/* Subtasks */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Subtasks ({subtasks.filter(s => s.completed).length}/{subtasks.length})
+            Subtasks ({taskProgress[selectedTask.id]?.completed ?? 0}/{taskProgress[selectedTask.id]?.total ?? 0})
           </label>
 
           <div className="space-y-2">
@@ -901,15 +1069,22 @@ export function TaskDetail() {
                     </svg>
                   )}
                 </button>
-                <span
-                  className={`flex-1 text-sm ${
+                <button
+                  onClick={() => setSelectedTaskId(subtask.id)}
+                  className={`flex-1 min-w-0 text-left text-sm truncate hover:underline ${
                     subtask.completed
                       ? 'line-through text-gray-400'
                       : 'text-gray-700 dark:text-gray-300'
                   }`}
+                  title="Open subtask"
                 >
                   {subtask.title}
-                </span>
+                </button>
+                {taskProgress[subtask.id] && (
+                  <span className="text-[10px] text-gray-400 dark:text-gray-500">
+                    {taskProgress[subtask.id].completed}/{taskProgress[subtask.id].total}
+                  </span>
+                )}
                 <button
                   onClick={() => handleDeleteSubtask(subtask.id)}
                   className="p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 rounded transition-opacity"
@@ -965,6 +1140,15 @@ export function TaskDetail() {
           </div>
         </div>
 
+        {/* Estimate and time tracking */}
+        <TimeTrackingSection taskId={selectedTask.id} />
+
+        {/* Dependencies */}
+        <DependencySection taskId={selectedTask.id} />
+
+        {/* Attachments */}
+        <AttachmentSection taskId={selectedTask.id} />
+
         {/* Notes */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -979,10 +1163,80 @@ export function TaskDetail() {
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 resize-none font-mono text-sm"
           />
         </div>
+
+        {/* Activity */}
+        <div>
+          <button
+            onClick={() => setShowActivity(!showActivity)}
+            className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            <svg
+              className={`w-3 h-3 transition-transform ${showActivity ? 'rotate-90' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Activity
+          </button>
+          {showActivity && (
+            activity.length === 0 ? (
+              <p className="text-xs text-gray-400 dark:text-gray-500">No activity recorded yet</p>
+            ) : (
+              <ul className="space-y-1.5 border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+                {activity.map(entry => (
+                  <li key={entry.id} className="text-xs">
+                    <span className="block text-gray-700 dark:text-gray-300">
+                      {describeActivity(entry, lists)}
+                    </span>
+                    <span className="block text-gray-400 dark:text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
       </div>
 
       {/* Footer */}
-      <div className="flex-shrink-0 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex-shrink-0 px-4 py-3 border-t border-gray-200 dark:border-gray-700 space-y-1">
+        {templateName !== null ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={templateName}
+              onChange={e => setTemplateName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleSaveTemplate();
+                if (e.key === 'Escape') setTemplateName(null);
+              }}
+              placeholder="Template name"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              autoFocus
+            />
+            <button
+              onClick={handleSaveTemplate}
+              className="px-3 py-1.5 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600"
+            >
+              Save
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setTemplateName(selectedTask.title)}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            Save as Template
+          </button>
+        )}
         <button
           onClick={handleDelete}
           className="w-full px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
@@ -5,6 +5,8 @@ import { useToast } from './Toast';
 
 interface TaskItemProps {
   task: Task;
+  isSelected?: boolean; // Part of a multi-selection
+  onSelect?: (e: React.MouseEvent) => void; // Replaces opening the task when given
 }
 
 const priorityColors: Record<Priority, string> = {
@@ -21,8 +23,8 @@ const priorityBgColors: Record<Priority, string> = {
   high: 'bg-red-500',
 };
 
-export function TaskItem({ task }: TaskItemProps) {
-  const { toggleTaskComplete, setSelectedTaskId, updateTask } = useApp();
+export function TaskItem({ task, isSelected = false, onSelect }: TaskItemProps) {
+  const { toggleTaskComplete, setSelectedTaskId, undo, blockedTaskIds, taskProgress } = useApp();
   const { showToast } = useToast();
   const [isAnimating, setIsAnimating] = useState(false);
   const undoRef = useRef<boolean>(false);
@@ -41,7 +43,7 @@ export function TaskItem({ task }: TaskItemProps) {
           showToast(`"${task.title}" completed`, {
             label: 'Undo',
             onClick: async () => {
-              await updateTask(task.id, { completed: false });
+              await undo();
             },
           });
         }
@@ -81,13 +83,14 @@ export function TaskItem({ task }: TaskItemProps) {
 
   const dueDateText = formatDueDate(task.dueDate);
   const isOverdue = dueDateText === 'Overdue';
+  const progress = taskProgress[task.id];
 
   return (
     <div
       className={`task-item flex items-start gap-3 px-3 py-2 border-b border-gray-100 dark:border-gray-800 cursor-pointer transition-all duration-200 ${
         isAnimating ? 'opacity-50 scale-[0.98]' : ''
-      }`}
-      onClick={() => setSelectedTaskId(task.id)}
+      } ${isSelected ? 'bg-primary-50 dark:bg-primary-900/20' : ''}`}
+      onClick={e => (onSelect ? onSelect(e) : setSelectedTaskId(task.id))}
     >
       {/* Checkbox */}
       <button
@@ -153,6 +156,34 @@ export function TaskItem({ task }: TaskItemProps) {
             </span>
           )}
 
+          {progress && progress.total > 0 && (
+            <span
+              className={`text-xs ${
+                progress.completed === progress.total ? 'text-green-500' : 'text-gray-500 dark:text-gray-400'
+              }`}
+              title="Completed subtasks"
+            >
+              {progress.completed}/{progress.total}
+            </span>
+          )}
+
+          {!task.completed && blockedTaskIds.has(task.id) && (
+            <span
+              className="inline-flex items-center gap-0.5 text-[10px] px-1 py-0.5 rounded font-medium uppercase bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300"
+              title="Waiting on another task"
+            >
+              <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                />
+              </svg>
+              Blocked
+            </span>
+          )}
+
           {task.description && (
             <svg
               className="w-3 h-3 text-gray-400 dark:text-gray-500"
@@ -169,7 +200,7 @@ export function TaskItem({ task }: TaskItemProps) {
             </svg>
           )}
 
-          {task.recurrencePattern && task.recurrencePattern !== 'none' && (
+          {task.recurrenceRule && (
             <svg
               className="w-3 h-3 text-gray-400 dark:text-gray-500"
               fill="none"
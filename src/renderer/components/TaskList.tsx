@@ -7,6 +7,7 @@ import {
   useSensor,
   useSensors,
   type DragEndEvent,
+  useDroppable,
 } from '@dnd-kit/core';
 import {
   arrayMove,
@@ -18,17 +19,40 @@ import { useApp } from '../contexts/AppContext';
 import { SortableTaskItem } from './SortableTaskItem';
 import { TaskItem } from './TaskItem';
 import { SearchBar } from './SearchBar';
+import { SavedFilterModal } from './SavedFilterModal';
+import { TemplateMenu } from './TemplateMenu';
+import { BulkActionBar } from './BulkActionBar';
 import { Toast } from './Toast';
-import { SMART_LISTS, type SmartListId, type TaskFilter } from '../../shared/types';
+import { SMART_LISTS, type SmartListId, type TaskFilter, type TaskTemplate, type Section } from '../../shared/types';
 import {
   parseTaskInput,
   getDefaultDueDateForSmartList,
   getQuickAddPlaceholder,
   formatParsedChips,
 } from '../utils/taskParser';
+import { flattenTaskTree, groupRowsBySection, resolveSectionDrop, sectionDropId } from '../utils/taskTree';
+
+// Heading of a section group; tasks dropped on it move into the section
+function SectionHeader({ section, count }: { section: Section | null; count: number }) {
+  const { setNodeRef, isOver } = useDroppable({ id: sectionDropId(section) });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`px-4 pt-3 pb-1 flex items-center gap-2 border-b border-gray-100 dark:border-gray-800 transition-colors ${
+        isOver ? 'bg-primary-50 dark:bg-primary-900/20' : ''
+      }`}
+    >
+      <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+        {section?.name ?? 'No Section'}
+      </span>
+      <span className="text-[10px] text-gray-400">{count}</span>
+    </div>
+  );
+}
 
 export function TaskList() {
-  const { tasks, selectedListId, lists, createTask, createTag, addTagToTask, loadTasks, tags, activeFilter, setActiveFilter, deleteTask } = useApp();
+  const { tasks, selectedListId, lists, folders, sections, createSection, moveTaskToSection, createTask, createTag, addTagToTask, loadTasks, tags, activeFilter, setActiveFilter, deleteTask, settings, savedFilters, selectedTask, setSelectedTaskId } = useApp();
   const [isAddingTask, setIsAddingTask] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [quickAddPinned, setQuickAddPinned] = useState(() => {
@@ -37,7 +61,18 @@ export function TaskList() {
     return saved === 'true';
   });
   const [isClearing, setIsClearing] = useState(false);
+  const [isSaveFilterOpen, setIsSaveFilterOpen] = useState(false);
+  const [newSectionName, setNewSectionName] = useState<string | null>(null);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(() => {
+    // Load collapsed parent tasks from localStorage
+    const saved = localStorage.getItem('collapsedTasks');
+    return new Set<string>(saved ? JSON.parse(saved) : []);
+  });
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'info' | 'error' } | null>(null);
+  // Multi-selection for bulk actions: the anchor is where shift ranges start, the cursor where they end
+  const [multiSelectedIds, setMultiSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+  const [selectionCursorId, setSelectionCursorId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Parse input as user types
@@ -66,6 +101,12 @@ export function TaskList() {
     const smartList = SMART_LISTS.find(sl => sl.id === selectedListId);
     if (smartList) return smartList.name;
 
+    const savedFilter = savedFilters.find(sf => sf.id === selectedListId);
+    if (savedFilter) return savedFilter.name;
+
+    const folder = folders.find(f => f.id === selectedListId);
+    if (folder) return folder.name;
+
     const userList = lists.find(l => l.id === selectedListId);
     return userList?.name ?? 'Tasks';
   };
@@ -91,8 +132,10 @@ export function TaskList() {
         dueDate = getDefaultDueDateForSmartList(selectedListId);
       }
 
-      // Determine list assignment
-      let listId: string | null = null;
+      // Determine list assignment (smart lists fall back to the default list)
+      let listId: string | null = lists.some(l => l.id === settings.defaultListId)
+        ? settings.defaultListId
+        : null;
 
       // First check if list was specified in the input (e.g., "task ^listname")
       if (parsed.listName) {
@@ -103,9 +146,9 @@ export function TaskList() {
           listId = matchedList.id;
         }
       } else {
-        // Auto-assign to current list if viewing a user list (not a smart list)
-        const isSmartList = SMART_LISTS.some(sl => sl.id === selectedListId);
-        if (!isSmartList && selectedListId) {
+        // Auto-assign to current list if viewing a user list (not a smart list or saved filter)
+        const isUserList = lists.some(l => l.id === selectedListId);
+        if (isUserList) {
           // It's a user list - auto-assign the task to it
           listId = selectedListId;
         }
@@ -113,6 +156,7 @@ export function TaskList() {
 
       // Create the task with parsed data
       const newTask = await createTask(parsed.title || newTaskTitle.trim(), {
+        startDate: parsed.startDate,
         dueDate,
         dueTime: parsed.dueTime,
         priority: parsed.priority || undefined,
@@ -140,6 +184,26 @@ export function TaskList() {
     }
   };
 
+  // Create a template's tasks in the current list, like quick add does
+  const handleAddFromTemplate = async (template: TaskTemplate) => {
+    const listId = lists.some(l => l.id === selectedListId)
+      ? selectedListId
+      : lists.some(l => l.id === settings.defaultListId)
+      ? settings.defaultListId
+      : null;
+
+    // Keep the task visible in Today/Tomorrow when the template has no due date
+    const defaultDueDate = getDefaultDueDateForSmartList(selectedListId);
+    const newTask = await window.electronAPI.template.instantiate(template.id, {
+      listId,
+      ...(template.task.dueOffsetDays === null && defaultDueDate ? { dueDate: defaultDueDate } : {}),
+    });
+
+    await loadTasks();
+    setSelectedTaskId(newTask.id);
+    setToast({ message: `Added "${newTask.title}" from template`, type: 'success' });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleAddTask();
@@ -172,21 +236,159 @@ export function TaskList() {
   // Separate completed and incomplete tasks
   const incompleteTasks = tasks.filter(t => !t.completed);
   const completedTasks = tasks.filter(t => t.completed);
+  const taskRows = flattenTaskTree(incompleteTasks, collapsedTaskIds);
+  // A list with sections shows its tasks in headed groups; the "No Section" group only when it has tasks
+  const sectionGroups = sections.length > 0 && !activeFilter
+    ? groupRowsBySection(taskRows, sections).filter(group => group.section || group.rows.length > 0)
+    : null;
+  const orderedRows = sectionGroups ? sectionGroups.flatMap(group => group.rows) : taskRows;
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      localStorage.setItem('collapsedTasks', JSON.stringify([...next]));
+      return next;
+    });
+  };
 
-  // Only show completed tasks section in non-completed smart list
+  // Only show completed tasks section in non-completed smart list, and only if enabled in settings
   const showCompletedSection =
-    (selectedListId as SmartListId) !== 'completed' && completedTasks.length > 0;
+    settings.showCompletedTasks &&
+    (selectedListId as SmartListId) !== 'completed' &&
+    completedTasks.length > 0;
+
+  // Every row in display order, for shift ranges and keyboard moves
+  const visibleTaskIds = [
+    ...orderedRows.map(row => row.task.id),
+    ...((selectedListId as SmartListId) === 'completed' ? tasks : showCompletedSection ? completedTasks : []).map(t => t.id),
+  ];
+  const selectedTaskIds = visibleTaskIds.filter(id => multiSelectedIds.has(id));
+
+  const clearSelection = () => {
+    setMultiSelectedIds(new Set());
+    setSelectionCursorId(null);
+  };
+
+  // Select the rows between the anchor and a task, inclusive
+  const selectRange = (anchorId: string, taskId: string) => {
+    const from = visibleTaskIds.indexOf(anchorId);
+    const to = visibleTaskIds.indexOf(taskId);
+    if (from === -1 || to === -1) return;
+    setMultiSelectedIds(new Set(visibleTaskIds.slice(Math.min(from, to), Math.max(from, to) + 1)));
+    setSelectionCursorId(taskId);
+  };
+
+  // Shift-click selects a range, Ctrl/Cmd-click toggles one task, a plain click opens the task
+  const handleTaskClick = (taskId: string, e: React.MouseEvent) => {
+    const anchorId = selectionAnchorId ?? selectedTask?.id ?? null;
+
+    if (e.shiftKey && anchorId && visibleTaskIds.includes(anchorId)) {
+      window.getSelection()?.removeAllRanges();
+      selectRange(anchorId, taskId);
+    } else if (e.ctrlKey || e.metaKey) {
+      setMultiSelectedIds(prev => {
+        // The open task joins a new selection, as if it had been clicked first
+        const next = new Set(prev.size === 0 && selectedTask && visibleTaskIds.includes(selectedTask.id) ? [selectedTask.id] : prev);
+        if (next.has(taskId)) {
+          next.delete(taskId);
+        } else {
+          next.add(taskId);
+        }
+        return next;
+      });
+      setSelectionAnchorId(taskId);
+      setSelectionCursorId(taskId);
+    } else {
+      clearSelection();
+      setSelectionAnchorId(taskId);
+      setSelectedTaskId(taskId);
+    }
+  };
+
+  // A new list or search starts without a selection
+  useEffect(() => {
+    setMultiSelectedIds(new Set());
+    setSelectionAnchorId(null);
+    setSelectionCursorId(null);
+  }, [selectedListId, activeFilter]);
+
+  // Keyboard selection: arrows move between tasks, Shift + arrows extend the selection,
+  // Ctrl/Cmd + A selects every task and Escape clears the selection
+  useEffect(() => {
+    const handleSelectionKeys = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) {
+        return;
+      }
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        setMultiSelectedIds(new Set(visibleTaskIds));
+        return;
+      }
+
+      if (e.key === 'Escape' && multiSelectedIds.size > 0) {
+        e.preventDefault();
+        clearSelection();
+        return;
+      }
+
+      if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        if (visibleTaskIds.length === 0) return;
+        e.preventDefault();
+
+        const currentId = e.shiftKey
+          ? selectionCursorId ?? selectionAnchorId ?? selectedTask?.id
+          : selectedTask?.id ?? selectionAnchorId;
+        const index = currentId ? visibleTaskIds.indexOf(currentId) : -1;
+        const nextIndex = index === -1
+          ? (e.key === 'ArrowDown' ? 0 : visibleTaskIds.length - 1)
+          : Math.min(Math.max(index + (e.key === 'ArrowDown' ? 1 : -1), 0), visibleTaskIds.length - 1);
+        const nextId = visibleTaskIds[nextIndex];
+
+        const anchorId = selectionAnchorId ?? selectedTask?.id;
+        if (e.shiftKey && anchorId && visibleTaskIds.includes(anchorId)) {
+          selectRange(anchorId, nextId);
+        } else {
+          clearSelection();
+          setSelectionAnchorId(nextId);
+          setSelectedTaskId(nextId);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleSelectionKeys);
+    return () => window.removeEventListener('keydown', handleSelectionKeys);
+  });
 
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
 
-    if (over && active.id !== over.id) {
-      const oldIndex = incompleteTasks.findIndex(t => t.id === active.id);
-      const newIndex = incompleteTasks.findIndex(t => t.id === over.id);
+    if (over && active.id !== over.id && sectionGroups) {
+      const drop = resolveSectionDrop(sectionGroups, active.id as string, over.id as string);
+      const task = tasks.find(t => t.id === active.id);
+      if (!drop || !task) return;
+
+      // Only top-level tasks change section; children stay with their parent
+      if (!task.parentId && drop.sectionId !== task.sectionId) {
+        await moveTaskToSection(task.id, drop.sectionId, drop.taskIds);
+      } else {
+        await window.electronAPI.task.reorder(drop.taskIds);
+        await loadTasks();
+      }
+    } else if (over && active.id !== over.id) {
+      // Reorder the visible rows; children keep their order within their parent
+      const oldIndex = taskRows.findIndex(row => row.task.id === active.id);
+      const newIndex = taskRows.findIndex(row => row.task.id === over.id);
 
       if (oldIndex !== -1 && newIndex !== -1) {
-        const newOrder = arrayMove(incompleteTasks, oldIndex, newIndex);
-        const taskIds = newOrder.map(t => t.id);
+        const newOrder = arrayMove(taskRows, oldIndex, newIndex);
+        const taskIds = newOrder.map(row => row.task.id);
         await window.electronAPI.task.reorder(taskIds);
         await loadTasks();
       }
@@ -230,14 +432,31 @@ export function TaskList() {
               {activeFilter && ' found'}
             </p>
           </div>
-          <SearchBar
-            onSearch={handleSearch}
-            onClear={handleClearSearch}
-            tags={tags}
-          />
+          <div className="flex items-center gap-2">
+            {activeFilter && (
+              <button
+                onClick={() => setIsSaveFilterOpen(true)}
+                className="flex-shrink-0 px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                title="Save this search as a smart list"
+              >
+                Save as smart list
+              </button>
+            )}
+            <SearchBar
+              onSearch={handleSearch}
+              onClear={handleClearSearch}
+              tags={tags}
+            />
+          </div>
         </div>
       </header>
 
+      <SavedFilterModal
+        isOpen={isSaveFilterOpen}
+        onClose={() => setIsSaveFilterOpen(false)}
+        initialFilter={activeFilter}
+      />
+
       {/* Quick add bar - compact */}
       {(selectedListId as SmartListId) !== 'completed' && (
         <div className="flex-shrink-0 px-4 py-2 border-b border-gray-100 dark:border-gray-800">
@@ -277,6 +496,7 @@ export function TaskList() {
                     Cancel
                   </button>
                 )}
+                <TemplateMenu onSelect={handleAddFromTemplate} />
                 {/* Pin toggle button */}
                 <button
                   onMouseDown={e => e.preventDefault()} // Prevent input blur
@@ -307,6 +527,8 @@ export function TaskList() {
                       className={`inline-flex items-center px-1.5 py-0.5 text-[10px] rounded-full ${
                         chip.type === 'date'
                           ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                          : chip.type === 'start'
+                          ? 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300'
                           : chip.type === 'priority'
                           ? chip.label === 'high'
                             ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
@@ -325,35 +547,38 @@ export function TaskList() {
               )}
             </div>
           ) : (
-            <button
-              onClick={() => setIsAddingTask(true)}
-              className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
-            >
-              <svg
-                className="w-4 h-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setIsAddingTask(true)}
+                className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 4v16m8-8H4"
-                />
-              </svg>
-              <span>Add Task</span>
-              <span className="text-[10px] text-gray-400 dark:text-gray-500 ml-1">
-                Ctrl+N
-              </span>
-            </button>
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+                <span>Add Task</span>
+                <span className="text-[10px] text-gray-400 dark:text-gray-500 ml-1">
+                  Ctrl+N
+                </span>
+              </button>
+              <TemplateMenu onSelect={handleAddFromTemplate} />
+            </div>
           )}
         </div>
       )}
 
       {/* Task list */}
       <div className="flex-1 overflow-y-auto">
-        {incompleteTasks.length === 0 && completedTasks.length === 0 ? (
+        {incompleteTasks.length === 0 && (completedTasks.length === 0 || (!showCompletedSection && (selectedListId as SmartListId) !== 'completed')) ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-400 dark:text-gray-500">
             <svg
               className="w-16 h-16 mb-4"
@@ -380,17 +605,63 @@ export function TaskList() {
               onDragEnd={handleDragEnd}
             >
               <SortableContext
-                items={incompleteTasks.map(t => t.id)}
+                items={orderedRows.map(row => row.task.id)}
                 strategy={verticalListSortingStrategy}
               >
-                <div>
-                  {incompleteTasks.map(task => (
-                    <SortableTaskItem key={task.id} task={task} />
-                  ))}
-                </div>
+                {(sectionGroups ?? [{ section: null, rows: taskRows }]).map(group => (
+                  <div key={group.section?.id ?? 'none'}>
+                    {sectionGroups && <SectionHeader section={group.section} count={group.rows.length} />}
+                    {group.rows.map(({ task, depth, hasChildren }) => (
+                      <SortableTaskItem
+                        key={task.id}
+                        task={task}
+                        depth={depth}
+                        hasChildren={hasChildren}
+                        isCollapsed={collapsedTaskIds.has(task.id)}
+                        onToggleCollapse={() => toggleCollapsed(task.id)}
+                        isSelected={multiSelectedIds.has(task.id)}
+                        onSelect={e => handleTaskClick(task.id, e)}
+                      />
+                    ))}
+                  </div>
+                ))}
               </SortableContext>
             </DndContext>
 
+            {/* Add a section to the current list */}
+            {lists.some(l => l.id === selectedListId) && !activeFilter && (
+              <div className="px-4 py-2">
+                {newSectionName !== null ? (
+                  <input
+                    type="text"
+                    value={newSectionName}
+                    onChange={e => setNewSectionName(e.target.value)}
+                    onKeyDown={async e => {
+                      if (e.key === 'Enter' && newSectionName.trim()) {
+                        await createSection(newSectionName.trim());
+                        setNewSectionName(null);
+                      } else if (e.key === 'Escape') {
+                        setNewSectionName(null);
+                      }
+                    }}
+                    onBlur={() => {
+                      if (!newSectionName.trim()) setNewSectionName(null);
+                    }}
+                    placeholder="Section name..."
+                    className="w-48 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 focus:border-primary-500"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    onClick={() => setNewSectionName('')}
+                    className="text-xs text-gray-400 hover:text-primary-500 transition-colors"
+                  >
+                    + Add section
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Completed tasks section */}
             {showCompletedSection && (
               <div className="mt-4">
@@ -408,7 +679,12 @@ export function TaskList() {
                   </button>
                 </div>
                 {completedTasks.map(task => (
-                  <TaskItem key={task.id} task={task} />
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    isSelected={multiSelectedIds.has(task.id)}
+                    onSelect={e => handleTaskClick(task.id, e)}
+                  />
                 ))}
               </div>
             )}
@@ -432,7 +708,12 @@ export function TaskList() {
                   </div>
                 )}
                 {tasks.map(task => (
-                  <TaskItem key={task.id} task={task} />
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    isSelected={multiSelectedIds.has(task.id)}
+                    onSelect={e => handleTaskClick(task.id, e)}
+                  />
                 ))}
               </div>
             )}
@@ -440,6 +721,11 @@ export function TaskList() {
         )}
       </div>
 
+      {/* Bulk actions for the selected tasks */}
+      {selectedTaskIds.length > 0 && (
+        <BulkActionBar taskIds={selectedTaskIds} onClearSelection={clearSelection} />
+      )}
+
       {/* Toast notifications */}
       {toast && (
         <Toast
@@ -0,0 +1,111 @@
+import { useState, useEffect, useRef } from 'react';
+import type { TaskTemplate } from '../../shared/types';
+
+interface TemplateMenuProps {
+  onSelect: (template: TaskTemplate) => void;
+  align?: 'left' | 'right';
+  buttonClassName?: string;
+}
+
+// "New from template" button with a dropdown of saved templates
+export function TemplateMenu({ onSelect, align = 'right', buttonClassName }: TemplateMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Templates are loaded fresh each time the menu opens
+  useEffect(() => {
+    if (isOpen) {
+      window.electronAPI.template.getAll().then(setTemplates);
+    }
+  }, [isOpen]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Tasks created from it are not affected.`)) return;
+    await window.electronAPI.template.delete(template.id);
+    setTemplates(templates.filter(t => t.id !== template.id));
+  };
+
+  // Number of tasks a template creates, including nested subtasks
+  const countTasks = (task: TaskTemplate['task']): number =>
+    1 + task.subtasks.reduce((sum, subtask) => sum + countTasks(subtask), 0);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onMouseDown={e => e.preventDefault()} // Keep the quick add input focused
+        onClick={() => setIsOpen(!isOpen)}
+        className={
+          buttonClassName ??
+          'p-1.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors'
+        }
+        title="New from template"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute z-20 mt-1 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1 ${
+            align === 'right' ? 'right-0' : 'left-0'
+          }`}
+        >
+          <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+            New from template
+          </div>
+          {templates.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+              No templates yet. Use "Save as template" in a task's details.
+            </p>
+          ) : (
+            templates.map(template => (
+              <div key={template.id} className="group flex items-center hover:bg-gray-100 dark:hover:bg-gray-700">
+                <button
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => {
+                    setIsOpen(false);
+                    onSelect(template);
+                  }}
+                  className="flex-1 min-w-0 px-3 py-1.5 text-left"
+                >
+                  <span className="block text-sm truncate text-gray-700 dark:text-gray-300">{template.name}</span>
+                  {template.task.subtasks.length > 0 && (
+                    <span className="block text-xs text-gray-400">{countTasks(template.task)} tasks</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="p-1 mr-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-opacity"
+                  title="Delete template"
+                >
+                  <svg className="w-3.5 h-3.5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { formatMinutes, parseMinutes } from '../utils/timeFormat';
+import type { TaskTimeSummary } from '../../shared/types';
+
+interface TimeTrackingSectionProps {
+  taskId: string;
+}
+
+// Estimate, start/stop tracker and estimate vs actual for the task detail panel
+export function TimeTrackingSection({ taskId }: TimeTrackingSectionProps) {
+  const { tasks, updateTask, dataVersion } = useApp();
+  const [summary, setSummary] = useState<TaskTimeSummary | null>(null);
+  const [estimateInput, setEstimateInput] = useState('');
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [showEntries, setShowEntries] = useState(false);
+
+  const loadSummary = useCallback(async () => {
+    const loaded = await window.electronAPI.time.getSummary(taskId);
+    setSummary(loaded);
+    setEstimateInput(loaded.estimatedMinutes !== null ? formatMinutes(loaded.estimatedMinutes) : '');
+  }, [taskId]);
+
+  useEffect(() => {
+    setEstimateError(null);
+  }, [taskId]);
+
+  // Reload when tasks change too, so pomodoro time and estimate edits show up
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary, tasks, dataVersion]);
+
+  // Tick the running timer once a second
+  const isRunning = summary?.running != null;
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const handleEstimateSave = async () => {
+    // An empty field clears the estimate; text we can't read keeps the old one
+    const minutes = parseMinutes(estimateInput);
+    if (minutes === null && estimateInput.trim()) {
+      const current = summary?.estimatedMinutes ?? null;
+      setEstimateError(`Couldn't read "${estimateInput.trim()}"; try e.g. 45m, 1.5h or 1h 30m`);
+      setEstimateInput(current !== null ? formatMinutes(current) : '');
+      return;
+    }
+    setEstimateError(null);
+    if (minutes === (summary?.estimatedMinutes ?? null)) {
+      setEstimateInput(minutes !== null ? formatMinutes(minutes) : '');
+      return;
+    }
+    await updateTask(taskId, { estimatedMinutes: minutes });
+    await loadSummary();
+  };
+
+  const handleToggleTimer = async () => {
+    if (isRunning) {
+      await window.electronAPI.time.stop();
+    } else {
+      await window.electronAPI.time.start(taskId);
+    }
+    await loadSummary();
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+    await window.electronAPI.time.deleteEntry(id);
+    await loadSummary();
+  };
+
+  if (!summary) return null;
+
+  const runningSeconds = summary.running
+    ? Math.max(0, Math.floor((now - new Date(summary.running.startedAt).getTime()) / 1000))
+    : 0;
+  const elapsed = `${Math.floor(runningSeconds / 60)}:${String(runningSeconds % 60).padStart(2, '0')}`;
+  const actualMinutes = summary.actualMinutes + Math.floor(runningSeconds / 60);
+  const estimate = summary.estimatedMinutes;
+  const isOver = estimate !== null && actualMinutes > estimate;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Time
+      </label>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={estimateInput}
+            onChange={e => {
+              setEstimateInput(e.target.value);
+              setEstimateError(null);
+            }}
+            onBlur={handleEstimateSave}
+            onKeyDown={e => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            placeholder="Estimate, e.g. 1h 30m"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+          />
+          <button
+            onClick={handleToggleTimer}
+            className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              isRunning
+                ? 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300'
+                : 'bg-teal-100 text-teal-700 hover:bg-teal-200 dark:bg-teal-900/30 dark:text-teal-300'
+            }`}
+            title={isRunning ? 'Stop tracking time' : 'Start tracking time on this task'}
+          >
+            {isRunning ? (
+              <>
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="1" />
+                </svg>
+                {elapsed}
+              </>
+            ) : (
+              <>
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M8 5v14l11-7z" />
+                </svg>
+                Start
+              </>
+            )}
+          </button>
+        </div>
+        {estimateError && <p className="text-xs text-red-500">{estimateError}</p>}
+
+        {/* Estimate vs actual */}
+        {(estimate !== null || actualMinutes > 0) && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>
+                <span className={isOver ? 'text-red-500 font-medium' : 'text-gray-700 dark:text-gray-300 font-medium'}>
+                  {formatMinutes(actualMinutes)}
+                </span>
+                {estimate !== null && ` of ${formatMinutes(estimate)}`}
+              </span>
+              {summary.pomodoroMinutes > 0 && (
+                <span title="Tracked with the timer + completed pomodoro sessions">
+                  {formatMinutes(summary.trackedMinutes)} tracked · {formatMinutes(summary.pomodoroMinutes)} focus
+                </span>
+              )}
+            </div>
+            {estimate !== null && estimate > 0 && (
+              <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${isOver ? 'bg-red-500' : 'bg-teal-500'}`}
+                  style={{ width: `${Math.min((actualMinutes / estimate) * 100, 100)}%` }}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Time entries */}
+        {summary.entries.length > 0 && (
+          <div>
+            <button
+              onClick={() => setShowEntries(!showEntries)}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              {showEntries ? 'Hide' : 'Show'} {summary.entries.length} time entr{summary.entries.length !== 1 ? 'ies' : 'y'}
+            </button>
+            {showEntries && (
+              <ul className="mt-1 space-y-1">
+                {summary.entries.map(entry => (
+                  <li key={entry.id} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 group">
+                    <span className="flex-1">
+                      {new Date(entry.startedAt).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                    <span className="font-medium">{formatMinutes(entry.minutes)}</span>
+                    <button
+                      onClick={() => handleDeleteEntry(entry.id)}
+                      className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 rounded transition-opacity"
+                      title="Delete time entry"
+                    >
+                      <svg className="w-3 h-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { flattenTaskTree } from '../utils/taskTree';
+import { addDays, daysBetween, formatDateKey } from '../utils/calendar';
+import type { Task, TaskDependencyLink, UpdateTaskDTO } from '../../shared/types';
+
+type TimelineZoom = 'day' | 'week' | 'month';
+
+// A task's bar, in YYYY-MM-DD dates. Without a start date the bar begins at
+// the task's creation; a task with only a start date is a one-day bar.
+interface TimelineBar {
+  start: string;
+  end: string;
+  hasStart: boolean;
+}
+
+// A bar being dragged: which part, and how many days it has moved so far
+interface BarDrag {
+  taskId: string;
+  part: 'move' | 'start' | 'end';
+  delta: number;
+}
+
+const ZOOM_OPTIONS: { value: TimelineZoom; label: string; dayWidth: number; padding: number }[] = [
+  { value: 'day', label: 'Day', dayWidth: 40, padding: 7 },
+  { value: 'week', label: 'Week', dayWidth: 16, padding: 14 },
+  { value: 'month', label: 'Month', dayWidth: 4, padding: 60 },
+];
+
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const LABEL_WIDTH = 240;
+const HEADER_HEIGHT = 48;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function getBar(task: Task): TimelineBar | null {
+  const due = task.dueDate?.split('T')[0];
+  const start = task.startDate?.split('T')[0];
+  if (!due && !start) return null;
+
+  const end = due ?? start!;
+  const barStart = start ?? task.createdAt.split('T')[0];
+  return { start: barStart < end ? barStart : end, end, hasStart: !!start };
+}
+
+// Apply a drag to a bar, keeping the start on or before the end
+function applyDrag(bar: TimelineBar, part: BarDrag['part'], delta: number): TimelineBar {
+  if (part === 'move') {
+    return { ...bar, start: addDays(bar.start, delta), end: addDays(bar.end, delta) };
+  }
+  if (part === 'start') {
+    const start = addDays(bar.start, delta);
+    return { ...bar, start: start < bar.end ? start : bar.end };
+  }
+  const end = addDays(bar.end, delta);
+  return { ...bar, end: end > bar.start ? end : bar.start };
+}
+
+// Header cells for the zoom level: the unit row and the row grouping it
+function getScale(rangeStart: string, totalDays: number, zoom: TimelineZoom) {
+  const groups: { label: string; offset: number; days: number }[] = [];
+  const units: { label: string; offset: number; days: number; shaded: boolean }[] = [];
+
+  for (let offset = 0; offset < totalDays; offset++) {
+    const date = new Date(addDays(rangeStart, offset));
+    const day = date.getUTCDate();
+    const month = date.getUTCMonth();
+    const year = date.getUTCFullYear();
+    const groupLabel = zoom === 'month' ? String(year) : `${MONTH_NAMES[month]} ${year}`;
+
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup?.label === groupLabel) {
+      lastGroup.days++;
+    } else {
+      groups.push({ label: groupLabel, offset, days: 1 });
+    }
+
+    const startsUnit =
+      zoom === 'day' || (zoom === 'week' && date.getUTCDay() === 0) || (zoom === 'month' && day === 1);
+    const lastUnit = units[units.length - 1];
+    if (startsUnit || !lastUnit) {
+      units.push({
+        label: zoom === 'month' ? MONTH_NAMES[month] : String(day),
+        offset,
+        days: 1,
+        shaded: zoom === 'day' && (date.getUTCDay() === 0 || date.getUTCDay() === 6),
+      });
+    } else {
+      lastUnit.days++;
+    }
+  }
+
+  return { groups, units };
+}
+
+// Horizontal timeline of the current tasks: bars from start to due date,
+// dependency arrows between them, and drag to move or stretch a bar
+export function TimelineView() {
+  const { tasks, updateTask, selectedTask, setSelectedTaskId } = useApp();
+  const [zoom, setZoom] = useState<TimelineZoom>(() => {
+    // Load the last used zoom from localStorage
+    const saved = localStorage.getItem('timelineZoom');
+    return saved === 'week' || saved === 'month' ? saved : 'day';
+  });
+  const [links, setLinks] = useState<TaskDependencyLink[]>([]);
+  const [drag, setDrag] = useState<BarDrag | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const suppressClickRef = useRef(false);
+
+  const { dayWidth, padding } = ZOOM_OPTIONS.find(option => option.value === zoom)!;
+  const todayKey = formatDateKey(new Date());
+
+  const rows = useMemo(() => flattenTaskTree(tasks, new Set()), [tasks]);
+  const bars = useMemo(() => new Map(tasks.map(task => [task.id, getBar(task)])), [tasks]);
+  const scheduledCount = [...bars.values()].filter(bar => bar !== null).length;
+
+  // Load the dependencies between the shown tasks
+  useEffect(() => {
+    window.electronAPI.task.getDependencyLinks(tasks.map(t => t.id)).then(setLinks);
+  }, [tasks]);
+
+  // Dates covered: every bar and today, padded for room to drag
+  const { rangeStart, totalDays } = useMemo(() => {
+    let first = todayKey;
+    let last = todayKey;
+    bars.forEach(bar => {
+      if (bar && bar.start < first) first = bar.start;
+      if (bar && bar.end > last) last = bar.end;
+    });
+    let start = addDays(first, -padding);
+    // Line the range up with the header units
+    if (zoom === 'week') {
+      start = addDays(start, -new Date(start).getUTCDay());
+    } else if (zoom === 'month') {
+      start = `${start.slice(0, 7)}-01`;
+    }
+    return { rangeStart: start, totalDays: daysBetween(start, addDays(last, padding)) + 1 };
+  }, [bars, todayKey, padding, zoom]);
+
+  const scale = useMemo(() => getScale(rangeStart, totalDays, zoom), [rangeStart, totalDays, zoom]);
+  const todayOffset = daysBetween(rangeStart, todayKey);
+
+  // Scroll so today is near the left edge
+  const scrollToToday = () => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollLeft = Math.max((todayOffset - padding / 2) * dayWidth, 0);
+    }
+  };
+
+  // Start at today when opening or changing zoom
+  useEffect(() => {
+    scrollToToday();
+  }, [zoom]);
+
+  const handleZoomChange = (newZoom: TimelineZoom) => {
+    setZoom(newZoom);
+    localStorage.setItem('timelineZoom', newZoom);
+  };
+
+  // Bar as currently shown, including an in-progress drag
+  const getShownBar = (taskId: string): TimelineBar | null => {
+    const bar = bars.get(taskId) ?? null;
+    return bar && drag?.taskId === taskId ? applyDrag(bar, drag.part, drag.delta) : bar;
+  };
+
+  // Dates to write back for a finished drag. Moving a bar that began at
+  // creation sets its start date too, so the bar keeps its length.
+  const getDragUpdates = (task: Task, bar: TimelineBar, part: BarDrag['part']): UpdateTaskDTO => {
+    if (part === 'end') return { dueDate: bar.end };
+    if (part === 'start') return { startDate: bar.start };
+    if (!task.dueDate) return { startDate: bar.start };
+    return bar.hasStart || bar.start < bar.end
+      ? { startDate: bar.start, dueDate: bar.end }
+      : { dueDate: bar.end };
+  };
+
+  const handleBarMouseDown = (e: React.MouseEvent, task: Task, part: BarDrag['part']) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const bar = bars.get(task.id);
+    if (!bar) return;
+
+    const startX = e.clientX;
+    let delta = 0;
+    setDrag({ taskId: task.id, part, delta });
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      delta = Math.round((moveEvent.clientX - startX) / dayWidth);
+      setDrag({ taskId: task.id, part, delta });
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setDrag(null);
+      if (delta !== 0) {
+        // The click that ends a drag shouldn't open the task
+        suppressClickRef.current = true;
+        setTimeout(() => (suppressClickRef.current = false), 0);
+        updateTask(task.id, getDragUpdates(task, applyDrag(bar, part, delta), part));
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleBarClick = (taskId: string) => {
+    if (!suppressClickRef.current) {
+      setSelectedTaskId(taskId);
+    }
+  };
+
+  // Elbow arrow from the end of the blocker's bar to the start of the waiting task's bar
+  const rowIndex = new Map(rows.map((row, index) => [row.task.id, index]));
+  const arrows = links.flatMap(link => {
+    const fromBar = getShownBar(link.dependsOnId);
+    const toBar = getShownBar(link.taskId);
+    const fromRow = rowIndex.get(link.dependsOnId);
+    const toRow = rowIndex.get(link.taskId);
+    if (!fromBar || !toBar || fromRow === undefined || toRow === undefined) return [];
+
+    const x1 = (daysBetween(rangeStart, fromBar.end) + 1) * dayWidth;
+    const x2 = daysBetween(rangeStart, toBar.start) * dayWidth;
+    const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const path =
+      x2 - x1 >= 16
+        ? `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`
+        : `M ${x1} ${y1} h 8 V ${y2 + (y1 < y2 ? -1 : 1) * (ROW_HEIGHT / 2)} H ${x2 - 8} V ${y2} H ${x2}`;
+    // A blocker due after the waiting task starts is a scheduling conflict
+    return [{ key: `${link.dependsOnId}-${link.taskId}`, path, conflict: fromBar.end > toBar.start }];
+  });
+
+  const timelineWidth = totalDays * dayWidth;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="flex-shrink-0 px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Timeline</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {scheduledCount} of {tasks.length} task{tasks.length !== 1 ? 's' : ''} scheduled
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {ZOOM_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => handleZoomChange(option.value)}
+                className={`px-3 py-1 text-sm transition-colors ${
+                  zoom === option.value
+                    ? 'bg-primary-500 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={scrollToToday}
+            className="px-3 py-1 text-sm font-medium text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg transition-colors"
+          >
+            Today
+          </button>
+        </div>
+      </header>
+
+      {rows.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-400 dark:text-gray-500">
+          <p className="text-lg font-medium">No tasks to show</p>
+          <p className="text-sm mt-1">Tasks with a start or due date appear here as bars</p>
+        </div>
+      ) : (
+        <div ref={scrollRef} className={`flex-1 overflow-auto ${drag ? 'select-none' : ''}`}>
+          <div className="relative" style={{ width: LABEL_WIDTH + timelineWidth }}>
+            {/* Date scale */}
+            <div
+              className="sticky top-0 z-20 flex bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700"
+              style={{ height: HEADER_HEIGHT }}
+            >
+              <div
+                className="sticky left-0 z-10 flex-shrink-0 flex items-end px-3 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700"
+                style={{ width: LABEL_WIDTH }}
+              >
+                Task
+              </div>
+              <div className="relative" style={{ width: timelineWidth }}>
+                {scale.groups.map(group => (
+                  <div
+                    key={group.offset}
+                    className="absolute top-0 h-1/2 px-1 text-xs font-medium text-gray-700 dark:text-gray-300 border-l border-gray-200 dark:border-gray-700 truncate"
+                    style={{ left: group.offset * dayWidth, width: group.days * dayWidth }}
+                  >
+                    {group.label}
+                  </div>
+                ))}
+                {scale.units.map(unit => (
+                  <div
+                    key={unit.offset}
+                    className={`absolute bottom-0 h-1/2 text-xs text-gray-500 dark:text-gray-400 border-l border-gray-100 dark:border-gray-800 truncate ${
+                      zoom === 'day' ? 'text-center' : 'px-1'
+                    } ${unit.offset === todayOffset && zoom === 'day' ? 'text-primary-600 dark:text-primary-400 font-bold' : ''}`}
+                    style={{ left: unit.offset * dayWidth, width: unit.days * dayWidth }}
+                  >
+                    {unit.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Rows */}
+            <div className="relative">
+              {/* Weekend shading and today line behind the bars */}
+              <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: timelineWidth }}>
+                {scale.units
+                  .filter(unit => unit.shaded)
+                  .map(unit => (
+                    <div
+                      key={unit.offset}
+                      className="absolute top-0 bottom-0 bg-gray-50 dark:bg-gray-800/50"
+                      style={{ left: unit.offset * dayWidth, width: dayWidth }}
+                    />
+                  ))}
+                <div
+                  className="absolute top-0 bottom-0 border-l-2 border-red-400"
+                  style={{ left: (todayOffset + 0.5) * dayWidth }}
+                />
+              </div>
+
+              {rows.map(({ task, depth }) => {
+                const bar = getShownBar(task.id);
+                const left = bar ? daysBetween(rangeStart, bar.start) * dayWidth : 0;
+                const width = bar ? (daysBetween(bar.start, bar.end) + 1) * dayWidth : 0;
+                const isDragging = drag?.taskId === task.id;
+
+                return (
+                  <div
+                    key={task.id}
+                    className={`flex border-b border-gray-100 dark:border-gray-800 ${
+                      selectedTask?.id === task.id ? 'bg-primary-50/50 dark:bg-primary-900/10' : ''
+                    }`}
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    <button
+                      onClick={() => setSelectedTaskId(task.id)}
+                      className={`sticky left-0 z-10 flex-shrink-0 flex items-center text-left text-sm truncate bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 ${
+                        task.completed ? 'text-gray-400 line-through' : 'text-gray-800 dark:text-gray-200'
+                      }`}
+                      style={{ width: LABEL_WIDTH, paddingLeft: 12 + depth * 16, paddingRight: 12 }}
+                      title={task.title}
+                    >
+                      <span className="truncate">{task.title}</span>
+                    </button>
+
+                    <div className="relative flex-shrink-0" style={{ width: timelineWidth }}>
+                      {bar && (
+                        <div
+                          onMouseDown={e => handleBarMouseDown(e, task, 'move')}
+                          onClick={() => handleBarClick(task.id)}
+                          title={`${task.title} (${bar.hasStart ? bar.start : `created ${bar.start}`} – ${bar.end})`}
+                          className={`absolute group rounded cursor-grab flex items-center overflow-hidden ${
+                            task.completed
+                              ? 'bg-gray-300 dark:bg-gray-600'
+                              : bar.hasStart
+                              ? 'bg-primary-500'
+                              : 'bg-gradient-to-r from-primary-200 to-primary-500 dark:from-primary-900'
+                          } ${isDragging ? 'cursor-grabbing shadow-lg opacity-90' : 'hover:shadow'}`}
+                          style={{ left, width, top: (ROW_HEIGHT - BAR_HEIGHT) / 2, height: BAR_HEIGHT }}
+                        >
+                          {task.dueDate && (
+                            <div
+                              onMouseDown={e => handleBarMouseDown(e, task, 'start')}
+                              className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-black/20"
+                              title="Drag to change the start date"
+                            />
+                          )}
+                          {zoom !== 'month' && width > 48 && (
+                            <span className="px-2 text-xs text-white truncate pointer-events-none">{task.title}</span>
+                          )}
+                          <div
+                            onMouseDown={e => handleBarMouseDown(e, task, 'end')}
+                            className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-black/20"
+                            title="Drag to change the due date"
+                          />
+                        </div>
+                      )}
+                      {isDragging && bar && (
+                        <span
+                          className="absolute text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap pointer-events-none"
+                          style={{ left: left + width + 6, top: (ROW_HEIGHT - 16) / 2 }}
+                        >
+                          {bar.start === bar.end ? bar.end : `${bar.start} – ${bar.end}`}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Dependency arrows */}
+              {arrows.length > 0 && (
+                <svg
+                  className="absolute top-0 pointer-events-none overflow-visible"
+                  style={{ left: LABEL_WIDTH }}
+                  width={timelineWidth}
+                  height={rows.length * ROW_HEIGHT}
+                >
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 8 4 L 0 8 z" className="fill-gray-400" />
+                    </marker>
+                    <marker id="timeline-arrow-conflict" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 8 4 L 0 8 z" className="fill-red-500" />
+                    </marker>
+                  </defs>
+                  {arrows.map(arrow => (
+                    <path
+                      key={arrow.key}
+                      d={arrow.path}
+                      fill="none"
+                      strokeWidth={1.5}
+                      className={arrow.conflict ? 'stroke-red-500' : 'stroke-gray-400'}
+                      markerEnd={`url(#${arrow.conflict ? 'timeline-arrow-conflict' : 'timeline-arrow'})`}
+                    />
+                  ))}
+                </svg>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useToast } from './Toast';
+import type { TrashContents, TrashItemType } from '../../shared/types';
+
+const EMPTY_TRASH: TrashContents = { tasks: [], lists: [], habits: [] };
+
+function TrashRow({ icon, title, subtitle, deletedAt, retentionDays, onRestore, onPurge }: {
+  icon: string;
+  title: string;
+  subtitle?: string;
+  deletedAt: string;
+  retentionDays: number;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  const daysInTrash = Math.floor((Date.now() - new Date(deletedAt).getTime()) / 86400000);
+  const daysLeft = retentionDays - daysInTrash;
+
+  return (
+    <li className="group flex items-center gap-3 px-4 py-2 border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50">
+      <span className="text-base">{icon}</span>
+      <div className="flex-1 min-w-0">
+        <span className="block text-sm text-gray-900 dark:text-gray-100 truncate">{title}</span>
+        <span className="block text-xs text-gray-500 dark:text-gray-400">
+          {subtitle && `${subtitle} · `}
+          Deleted {daysInTrash === 0 ? 'today' : `${daysInTrash} day${daysInTrash !== 1 ? 's' : ''} ago`}
+          {retentionDays > 0 && ` · removed in ${Math.max(daysLeft, 0)} day${daysLeft !== 1 ? 's' : ''}`}
+        </span>
+      </div>
+      <button
+        onClick={onRestore}
+        className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded"
+      >
+        Restore
+      </button>
+      <button
+        onClick={onPurge}
+        className="px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+      >
+        Delete Forever
+      </button>
+    </li>
+  );
+}
+
+function TrashSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h3 className="px-4 pt-3 pb-1 text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+        {title}
+      </h3>
+      <ul>{children}</ul>
+    </div>
+  );
+}
+
+export function TrashView() {
+  const { lists, loadLists, loadTasks, settings, dataVersion } = useApp();
+  const { showToast } = useToast();
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
+
+  const loadTrash = useCallback(async () => {
+    setTrash(await window.electronAPI.trash.getAll());
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash, dataVersion]);
+
+  const itemCount = trash.tasks.length + trash.lists.length + trash.habits.length;
+
+  const handleRestore = async (type: TrashItemType, id: string, name: string) => {
+    await window.electronAPI.trash.restore(type, id);
+    await Promise.all([loadTrash(), loadLists(), loadTasks()]);
+    showToast(`"${name}" restored`);
+  };
+
+  const handlePurge = async (type: TrashItemType, id: string, name: string) => {
+    if (!confirm(`Permanently delete "${name}"? This cannot be undone.`)) return;
+    await window.electronAPI.trash.purge(type, id);
+    await loadTrash();
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`Permanently delete ${itemCount} item${itemCount !== 1 ? 's' : ''} in the trash? This cannot be undone.`)) return;
+    await window.electronAPI.trash.empty();
+    await loadTrash();
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="flex-shrink-0 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Trash</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {itemCount} item{itemCount !== 1 ? 's' : ''}
+              {settings.trashRetentionDays > 0 && ` · deleted permanently after ${settings.trashRetentionDays} days`}
+            </p>
+          </div>
+          {itemCount > 0 && (
+            <button
+              onClick={handleEmpty}
+              className="px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+            >
+              Empty Trash
+            </button>
+          )}
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto">
+        {itemCount === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-400 dark:text-gray-500">
+            <span className="text-5xl mb-4">🗑️</span>
+            <p className="text-lg font-medium">Trash is empty</p>
+            <p className="text-sm mt-1">Deleted tasks, lists and habits show up here</p>
+          </div>
+        ) : (
+          <>
+            {trash.tasks.length > 0 && (
+              <TrashSection title="Tasks">
+                {trash.tasks.map(task => {
+                  const list = lists.find(l => l.id === task.listId);
+                  return (
+                    <TrashRow
+                      key={task.id}
+                      icon={task.completed ? '✅' : '☐'}
+                      title={task.title}
+                      subtitle={list ? `${list.icon} ${list.name}` : 'Inbox'}
+                      deletedAt={task.deletedAt!}
+                      retentionDays={settings.trashRetentionDays}
+                      onRestore={() => handleRestore('task', task.id, task.title)}
+                      onPurge={() => handlePurge('task', task.id, task.title)}
+                    />
+                  );
+                })}
+              </TrashSection>
+            )}
+            {trash.lists.length > 0 && (
+              <TrashSection title="Lists">
+                {trash.lists.map(list => (
+                  <TrashRow
+                    key={list.id}
+                    icon={list.icon}
+                    title={list.name}
+                    subtitle={`${list.taskCount} task${list.taskCount !== 1 ? 's' : ''}`}
+                    deletedAt={list.deletedAt!}
+                    retentionDays={settings.trashRetentionDays}
+                    onRestore={() => handleRestore('list', list.id, list.name)}
+                    onPurge={() => handlePurge('list', list.id, list.name)}
+                  />
+                ))}
+              </TrashSection>
+            )}
+            {trash.habits.length > 0 && (
+              <TrashSection title="Habits">
+                {trash.habits.map(habit => (
+                  <TrashRow
+                    key={habit.id}
+                    icon={habit.icon}
+                    title={habit.name}
+                    deletedAt={habit.deletedAt!}
+                    retentionDays={settings.trashRetentionDays}
+                    onRestore={() => handleRestore('habit', habit.id, habit.name)}
+                    onPurge={() => handlePurge('habit', habit.id, habit.name)}
+                  />
+                ))}
+              </TrashSection>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import type { Task, List, SmartListId, TaskWithSubtasks, Tag, TaskFilter, ViewMode, CreateTaskDTO, Priority } from '../../shared/types';
-import { SMART_LISTS } from '../../shared/types';
+import type { Task, List, Folder, Section, SmartListId, TaskWithSubtasks, TaskProgress, Tag, TaskFilter, ViewMode, CreateTaskDTO, UpdateTaskDTO, Priority, AppSettings, SavedFilter, CreateSavedFilterDTO, UpdateSavedFilterDTO } from '../../shared/types';
+import { SMART_LISTS, DEFAULT_SETTINGS } from '../../shared/types';
 
 interface AppContextType {
   // Lists
@@ -9,22 +9,67 @@ interface AppContextType {
   createList: (name: string, color?: string, icon?: string) => Promise<List>;
   updateList: (id: string, data: Partial<List>) => Promise<void>;
   deleteList: (id: string) => Promise<void>;
+  moveList: (id: string, folderId: string | null, listIds: string[]) => Promise<void>;
+
+  // Folders grouping lists in the sidebar
+  folders: Folder[];
+  loadFolders: () => Promise<void>;
+  createFolder: (name: string) => Promise<Folder>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  deleteFolder: (id: string) => Promise<void>;
+  reorderFolders: (folderIds: string[]) => Promise<void>;
+
+  // Sections of the selected list (empty unless a user list is selected)
+  sections: Section[];
+  loadSections: () => Promise<void>;
+  createSection: (name: string) => Promise<Section | null>;
+  renameSection: (id: string, name: string) => Promise<void>;
+  deleteSection: (id: string) => Promise<void>;
+  reorderSections: (sectionIds: string[]) => Promise<void>;
+  moveTaskToSection: (taskId: string, sectionId: string | null, taskIds: string[]) => Promise<void>;
 
   // Tasks
   tasks: Task[];
+  blockedTaskIds: Set<string>; // Tasks that still wait on an open blocker
+  taskProgress: Record<string, TaskProgress>; // Descendant completion of tasks with children
   loadTasks: () => Promise<void>;
   createTask: (title: string, options?: Partial<CreateTaskDTO>) => Promise<Task>;
   updateTask: (id: string, data: Partial<Task>) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
   toggleTaskComplete: (id: string) => Promise<void>;
+  indentTask: (id: string) => Promise<void>;
+  outdentTask: (id: string) => Promise<void>;
   addTagToTask: (taskId: string, tagId: string) => Promise<void>;
 
+  // Bulk actions on several tasks, each undone as one step
+  updateTasks: (ids: string[], data: UpdateTaskDTO) => Promise<void>;
+  completeTasks: (ids: string[]) => Promise<void>;
+  deleteTasks: (ids: string[]) => Promise<void>;
+  shiftTaskDates: (ids: string[], days: number) => Promise<void>;
+  addTagToTasks: (taskIds: string[], tagId: string) => Promise<void>;
+  removeTagFromTasks: (taskIds: string[], tagId: string) => Promise<void>;
+
   // Tags
   tags: Tag[];
   loadTags: () => Promise<void>;
   createTag: (name: string, color?: string) => Promise<Tag>;
   updateTag: (id: string, data: Partial<Tag>) => Promise<void>;
   deleteTag: (id: string) => Promise<void>;
+  mergeTags: (sourceId: string, targetId: string) => Promise<void>;
+  deleteTags: (ids: string[]) => Promise<void>;
+
+  // Saved filters (custom smart lists)
+  savedFilters: SavedFilter[];
+  loadSavedFilters: () => Promise<void>;
+  createSavedFilter: (data: CreateSavedFilterDTO) => Promise<SavedFilter>;
+  updateSavedFilter: (id: string, data: UpdateSavedFilterDTO) => Promise<void>;
+  deleteSavedFilter: (id: string) => Promise<void>;
+  reorderSavedFilters: (filterIds: string[]) => Promise<void>;
+
+  // Settings
+  settings: AppSettings;
+  loadSettings: () => Promise<void>;
+  updateSettings: (data: Partial<AppSettings>) => Promise<void>;
 
   // Filtering
   activeFilter: TaskFilter | null;
@@ -42,19 +87,32 @@ interface AppContextType {
   setIsTaskDetailOpen: (open: boolean) => void;
   viewMode: ViewMode;
   setViewMode: (mode: ViewMode) => void;
+
+  // Undo/redo - resolve to the label of the reverted command, or null if there was nothing to do
+  undo: () => Promise<string | null>;
+  redo: () => Promise<string | null>;
+  // Bumped after undo/redo so views holding their own data (habits, trash) can reload
+  dataVersion: number;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export function AppProvider({ children }: { children: React.ReactNode }) {
   const [lists, setLists] = useState<List[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [blockedTaskIds, setBlockedTaskIds] = useState<Set<string>>(new Set());
+  const [taskProgress, setTaskProgress] = useState<Record<string, TaskProgress>>({});
   const [tags, setTags] = useState<Tag[]>([]);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
   const [selectedListId, setSelectedListId] = useState<string | SmartListId>('inbox');
   const [selectedTask, setSelectedTask] = useState<TaskWithSubtasks | null>(null);
   const [isTaskDetailOpen, setIsTaskDetailOpen] = useState(false);
   const [activeFilter, setActiveFilter] = useState<TaskFilter | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [dataVersion, setDataVersion] = useState(0);
 
   // Load lists from database
   const loadLists = useCallback(async () => {
@@ -62,6 +120,21 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     setLists(loadedLists);
   }, []);
 
+  // Load folders from database
+  const loadFolders = useCallback(async () => {
+    const loadedFolders = await window.electronAPI.folder.getAll();
+    setFolders(loadedFolders);
+  }, []);
+
+  // Load the selected list's sections
+  const loadSections = useCallback(async () => {
+    if (lists.some(l => l.id === selectedListId)) {
+      setSections(await window.electronAPI.section.getByList(selectedListId));
+    } else {
+      setSections([]);
+    }
+  }, [selectedListId, lists]);
+
   // Load tasks based on selected list or active filter
   const loadTasks = useCallback(async () => {
     let loadedTasks: Task[];
@@ -70,12 +143,23 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       loadedTasks = await window.electronAPI.task.search(activeFilter);
     } else if (SMART_LISTS.some(sl => sl.id === selectedListId)) {
       loadedTasks = await window.electronAPI.task.getSmart(selectedListId as SmartListId);
+    } else if (savedFilters.some(sf => sf.id === selectedListId)) {
+      loadedTasks = await window.electronAPI.savedFilter.getTasks(selectedListId);
+    } else if (folders.some(f => f.id === selectedListId)) {
+      loadedTasks = await window.electronAPI.folder.getTasks(selectedListId);
     } else {
       loadedTasks = await window.electronAPI.task.getByList(selectedListId);
     }
 
+    // Completing or reopening any task can change which tasks are blocked and parent progress
+    const [blockedIds, progress] = await Promise.all([
+      window.electronAPI.task.getBlockedIds(),
+      window.electronAPI.task.getProgress(),
+    ]);
     setTasks(loadedTasks);
-  }, [selectedListId, activeFilter]);
+    setBlockedTaskIds(new Set(blockedIds));
+    setTaskProgress(progress);
+  }, [selectedListId, activeFilter, savedFilters, folders]);
 
   // Load tags from database
   const loadTags = useCallback(async () => {
@@ -83,6 +167,24 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     setTags(loadedTags);
   }, []);
 
+  // Load saved filters from database
+  const loadSavedFilters = useCallback(async () => {
+    const loadedFilters = await window.electronAPI.savedFilter.getAll();
+    setSavedFilters(loadedFilters);
+  }, []);
+
+  // Load settings from database
+  const loadSettings = useCallback(async () => {
+    const loadedSettings = await window.electronAPI.settings.get();
+    setSettings(loadedSettings);
+  }, []);
+
+  // Update settings
+  const updateSettings = useCallback(async (data: Partial<AppSettings>) => {
+    const updated = await window.electronAPI.settings.set(data);
+    setSettings(updated);
+  }, []);
+
   // Search tasks with filter
   const searchTasks = useCallback(async (filter: TaskFilter) => {
     return await window.electronAPI.task.search(filter);
@@ -91,13 +193,20 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   // Load data on mount and when selected list changes
   useEffect(() => {
     loadLists();
+    loadFolders();
     loadTags();
-  }, [loadLists, loadTags]);
+    loadSavedFilters();
+    loadSettings();
+  }, [loadLists, loadFolders, loadTags, loadSavedFilters, loadSettings]);
 
   useEffect(() => {
     loadTasks();
   }, [loadTasks]);
 
+  useEffect(() => {
+    loadSections();
+  }, [loadSections]);
+
   // Listen for reminder notification clicks
   useEffect(() => {
     window.electronAPI.reminder.onClicked((taskId) => {
@@ -122,17 +231,92 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const deleteList = useCallback(async (id: string) => {
     await window.electronAPI.list.delete(id);
     await loadLists();
+    // The default list falls back to the inbox when it is deleted
+    await loadSettings();
     if (selectedListId === id) {
       setSelectedListId('inbox');
     }
-  }, [loadLists, selectedListId]);
+  }, [loadLists, loadSettings, selectedListId]);
+
+  // Move a list into a folder (null for the top level) and apply the new list order
+  const moveList = useCallback(async (id: string, folderId: string | null, listIds: string[]) => {
+    setLists(prev => listIds
+      .map(listId => prev.find(l => l.id === listId))
+      .filter((l): l is List => l !== undefined)
+      .map(l => (l.id === id ? { ...l, folderId } : l)));
+    await window.electronAPI.list.move(id, folderId, listIds);
+  }, []);
 
-  // Create a new tag
+  // Create a new folder
+  const createFolder = useCallback(async (name: string) => {
+    const newFolder = await window.electronAPI.folder.create(name);
+    setFolders(prev => [...prev, newFolder]);
+    return newFolder;
+  }, []);
+
+  // Rename a folder
+  const renameFolder = useCallback(async (id: string, name: string) => {
+    await window.electronAPI.folder.rename(id, name);
+    await loadFolders();
+  }, [loadFolders]);
+
+  // Delete a folder; its lists move back to the top level
+  const deleteFolder = useCallback(async (id: string) => {
+    await window.electronAPI.folder.delete(id);
+    await Promise.all([loadFolders(), loadLists()]);
+    if (selectedListId === id) {
+      setSelectedListId('inbox');
+    }
+  }, [loadFolders, loadLists, selectedListId]);
+
+  // Reorder folders
+  const reorderFolders = useCallback(async (folderIds: string[]) => {
+    setFolders(prev => folderIds
+      .map(id => prev.find(f => f.id === id))
+      .filter((f): f is Folder => f !== undefined));
+    await window.electronAPI.folder.reorder(folderIds);
+  }, []);
+
+  // Add a section to the selected list
+  const createSection = useCallback(async (name: string) => {
+    if (!lists.some(l => l.id === selectedListId)) return null;
+    const newSection = await window.electronAPI.section.create(selectedListId, name);
+    setSections(prev => [...prev, newSection]);
+    return newSection;
+  }, [selectedListId, lists]);
+
+  // Rename a section
+  const renameSection = useCallback(async (id: string, name: string) => {
+    await window.electronAPI.section.rename(id, name);
+    await loadSections();
+  }, [loadSections]);
+
+  // Delete a section; its tasks stay in the list without a section
+  const deleteSection = useCallback(async (id: string) => {
+    await window.electronAPI.section.delete(id);
+    await Promise.all([loadSections(), loadTasks()]);
+  }, [loadSections, loadTasks]);
+
+  // Reorder sections
+  const reorderSections = useCallback(async (sectionIds: string[]) => {
+    setSections(prev => sectionIds
+      .map(id => prev.find(s => s.id === id))
+      .filter((s): s is Section => s !== undefined));
+    await window.electronAPI.section.reorder(sectionIds);
+  }, []);
+
+  // Move a task into a section (null for none) and apply the new task order
+  const moveTaskToSection = useCallback(async (taskId: string, sectionId: string | null, taskIds: string[]) => {
+    await window.electronAPI.section.moveTask(taskId, sectionId, taskIds);
+    await loadTasks();
+  }, [loadTasks]);
+
+  // Create a new tag (nested names also add their missing parents)
   const createTag = useCallback(async (name: string, color?: string) => {
     const newTag = await window.electronAPI.tag.create({ name, color });
-    setTags(prev => [...prev, newTag]);
+    await loadTags();
     return newTag;
-  }, []);
+  }, [loadTags]);
 
   // Update a tag
   const updateTag = useCallback(async (id: string, data: Partial<Tag>) => {
@@ -143,31 +327,76 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   // Delete a tag
   const deleteTag = useCallback(async (id: string) => {
     await window.electronAPI.tag.delete(id);
-    await loadTags();
-  }, [loadTags]);
+    // Saved filters drop the deleted tags
+    await Promise.all([loadTags(), loadSavedFilters()]);
+  }, [loadTags, loadSavedFilters]);
+
+  // Move a tag's tasks onto another tag and remove it
+  const mergeTags = useCallback(async (sourceId: string, targetId: string) => {
+    await window.electronAPI.tag.merge(sourceId, targetId);
+    await Promise.all([loadTags(), loadTasks(), loadSavedFilters()]);
+  }, [loadTags, loadTasks, loadSavedFilters]);
+
+  // Delete several tags at once
+  const deleteTags = useCallback(async (ids: string[]) => {
+    await window.electronAPI.tag.deleteMany(ids);
+    await Promise.all([loadTags(), loadTasks(), loadSavedFilters()]);
+  }, [loadTags, loadTasks, loadSavedFilters]);
+
+  // Save a filter as a custom smart list
+  const createSavedFilter = useCallback(async (data: CreateSavedFilterDTO) => {
+    const newFilter = await window.electronAPI.savedFilter.create(data);
+    setSavedFilters(prev => [...prev, newFilter]);
+    return newFilter;
+  }, []);
+
+  // Update a saved filter
+  const updateSavedFilter = useCallback(async (id: string, data: UpdateSavedFilterDTO) => {
+    await window.electronAPI.savedFilter.update(id, data);
+    await loadSavedFilters();
+  }, [loadSavedFilters]);
+
+  // Delete a saved filter
+  const deleteSavedFilter = useCallback(async (id: string) => {
+    await window.electronAPI.savedFilter.delete(id);
+    await loadSavedFilters();
+    if (selectedListId === id) {
+      setSelectedListId('inbox');
+    }
+  }, [loadSavedFilters, selectedListId]);
+
+  // Reorder saved filters
+  const reorderSavedFilters = useCallback(async (filterIds: string[]) => {
+    setSavedFilters(prev => filterIds
+      .map(id => prev.find(sf => sf.id === id))
+      .filter((sf): sf is SavedFilter => sf !== undefined));
+    await window.electronAPI.savedFilter.reorder(filterIds);
+  }, []);
 
   // Create a new task
   const createTask = useCallback(async (title: string, options?: Partial<CreateTaskDTO>) => {
     // Determine which list to add the task to
-    let targetListId: string | null = null;
+    let targetListId: string | null = settings.defaultListId;
 
     if (options?.listId !== undefined) {
       targetListId = options.listId;
-    } else if (!SMART_LISTS.some(sl => sl.id === selectedListId)) {
+    } else if (lists.some(l => l.id === selectedListId)) {
       targetListId = selectedListId;
     }
 
     const newTask = await window.electronAPI.task.create({
       title,
       listId: targetListId,
+      startDate: options?.startDate,
       dueDate: options?.dueDate,
       dueTime: options?.dueTime,
       priority: options?.priority,
+      sectionId: options?.sectionId,
     });
 
     await loadTasks();
     return newTask;
-  }, [selectedListId, loadTasks]);
+  }, [selectedListId, lists, settings.defaultListId, loadTasks]);
 
   // Add a tag to a task
   const addTagToTask = useCallback(async (taskId: string, tagId: string) => {
@@ -201,7 +430,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const toggleTaskComplete = useCallback(async (id: string) => {
     const task = tasks.find(t => t.id === id);
     if (task) {
-      if (!task.completed && task.recurrencePattern !== 'none') {
+      if (!task.completed && task.recurrenceRule) {
         // Handle recurring task completion
         const result = await window.electronAPI.task.completeRecurring(id);
         if (result) {
@@ -228,6 +457,69 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   }, [tasks, loadTasks, selectedTask]);
 
+  // Reload tasks after a bulk action; the open task follows the change or closes if it was deleted
+  const reloadAfterBulkAction = useCallback(async (ids: string[]) => {
+    await loadTasks();
+    if (selectedTask && ids.includes(selectedTask.id)) {
+      const updated = await window.electronAPI.task.getById(selectedTask.id);
+      if (updated && !updated.deletedAt) {
+        setSelectedTask(updated);
+      } else {
+        setSelectedTask(null);
+        setIsTaskDetailOpen(false);
+      }
+    }
+  }, [loadTasks, selectedTask]);
+
+  const updateTasks = useCallback(async (ids: string[], data: UpdateTaskDTO) => {
+    await window.electronAPI.task.updateMany(ids, data);
+    await reloadAfterBulkAction(ids);
+  }, [reloadAfterBulkAction]);
+
+  // Complete several tasks; recurring ones get their next occurrence
+  const completeTasks = useCallback(async (ids: string[]) => {
+    await window.electronAPI.task.completeMany(ids);
+    await reloadAfterBulkAction(ids);
+  }, [reloadAfterBulkAction]);
+
+  const deleteTasks = useCallback(async (ids: string[]) => {
+    await window.electronAPI.task.deleteMany(ids);
+    await reloadAfterBulkAction(ids);
+  }, [reloadAfterBulkAction]);
+
+  // Move the start and due dates of several tasks by a number of days
+  const shiftTaskDates = useCallback(async (ids: string[], days: number) => {
+    await window.electronAPI.task.shiftDates(ids, days);
+    await reloadAfterBulkAction(ids);
+  }, [reloadAfterBulkAction]);
+
+  const addTagToTasks = useCallback(async (taskIds: string[], tagId: string) => {
+    await window.electronAPI.tag.addToTasks(taskIds, tagId);
+    await reloadAfterBulkAction(taskIds);
+  }, [reloadAfterBulkAction]);
+
+  const removeTagFromTasks = useCallback(async (taskIds: string[], tagId: string) => {
+    await window.electronAPI.tag.removeFromTasks(taskIds, tagId);
+    await reloadAfterBulkAction(taskIds);
+  }, [reloadAfterBulkAction]);
+
+  // Nest a task under the task above it, or move it out of its parent
+  const moveTaskInTree = useCallback(async (id: string, direction: 'indent' | 'outdent') => {
+    const moved = direction === 'indent'
+      ? await window.electronAPI.task.indent(id)
+      : await window.electronAPI.task.outdent(id);
+    if (!moved) return;
+
+    await loadTasks();
+    // The selected task may be the moved task or one of the parents whose children changed
+    if (selectedTask) {
+      setSelectedTask(await window.electronAPI.task.getById(selectedTask.id));
+    }
+  }, [loadTasks, selectedTask]);
+
+  const indentTask = useCallback((id: string) => moveTaskInTree(id, 'indent'), [moveTaskInTree]);
+  const outdentTask = useCallback((id: string) => moveTaskInTree(id, 'outdent'), [moveTaskInTree]);
+
   // Set selected task by ID
   const setSelectedTaskId = useCallback(async (id: string | null) => {
     if (id) {
@@ -240,6 +532,41 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  // Reload everything an undo/redo may have changed
+  const reloadAfterUndo = useCallback(async () => {
+    await Promise.all([loadLists(), loadFolders(), loadTasks(), loadSections(), loadTags(), loadSavedFilters(), loadSettings()]);
+
+    if (selectedTask) {
+      const updated = await window.electronAPI.task.getById(selectedTask.id);
+      if (updated && !updated.deletedAt) {
+        setSelectedTask(updated);
+      } else {
+        setSelectedTask(null);
+        setIsTaskDetailOpen(false);
+      }
+    }
+
+    setDataVersion(prev => prev + 1);
+  }, [loadLists, loadFolders, loadTasks, loadSections, loadTags, loadSavedFilters, loadSettings, selectedTask]);
+
+  // Undo the last data change
+  const undo = useCallback(async () => {
+    const label = await window.electronAPI.undo.undo();
+    if (label) {
+      await reloadAfterUndo();
+    }
+    return label;
+  }, [reloadAfterUndo]);
+
+  // Redo the last undone change
+  const redo = useCallback(async () => {
+    const label = await window.electronAPI.undo.redo();
+    if (label) {
+      await reloadAfterUndo();
+    }
+    return label;
+  }, [reloadAfterUndo]);
+
   return (
     <AppContext.Provider
       value={{
@@ -248,18 +575,53 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         createList,
         updateList,
         deleteList,
+        moveList,
+        folders,
+        loadFolders,
+        createFolder,
+        renameFolder,
+        deleteFolder,
+        reorderFolders,
+        sections,
+        loadSections,
+        createSection,
+        renameSection,
+        deleteSection,
+        reorderSections,
+        moveTaskToSection,
         tasks,
+        blockedTaskIds,
+        taskProgress,
         loadTasks,
         createTask,
         updateTask,
         deleteTask,
         toggleTaskComplete,
+        indentTask,
+        outdentTask,
         addTagToTask,
+        updateTasks,
+        completeTasks,
+        deleteTasks,
+        shiftTaskDates,
+        addTagToTasks,
+        removeTagFromTasks,
         tags,
         loadTags,
         createTag,
         updateTag,
         deleteTag,
+        mergeTags,
+        deleteTags,
+        savedFilters,
+        loadSavedFilters,
+        createSavedFilter,
+        updateSavedFilter,
+        deleteSavedFilter,
+        reorderSavedFilters,
+        settings,
+        loadSettings,
+        updateSettings,
         activeFilter,
         setActiveFilter,
         searchTasks,
@@ -271,6 +633,9 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         setIsTaskDetailOpen,
         viewMode,
         setViewMode,
+        undo,
+        redo,
+        dataVersion,
       }}
     >
       {children}
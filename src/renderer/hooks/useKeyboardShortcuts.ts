@@ -1,5 +1,9 @@
 import { useEffect, useCallback } from 'react';
 import { useApp } from '../contexts/AppContext';
+import { useToast } from '../components/Toast';
+
+// Elements that Tab moves focus between; the task tree only takes Tab when none of them has focus
+const FOCUSABLE_SELECTOR = 'button, select, a[href], [tabindex]';
 
 interface KeyboardShortcutsOptions {
   onOpenPomodoro?: () => void;
@@ -8,15 +12,66 @@ interface KeyboardShortcutsOptions {
 }
 
 export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
-  const { setSelectedListId, setViewMode, viewMode } = useApp();
+  const { setSelectedListId, setViewMode, viewMode, undo, redo, selectedTask, indentTask, outdentTask } = useApp();
+  const { showToast } = useToast();
+
+  // Undo or redo, offering the opposite action on the toast
+  const applyHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const label = direction === 'undo' ? await undo() : await redo();
+    if (!label) {
+      showToast(`Nothing to ${direction}`);
+      return;
+    }
+
+    const opposite = direction === 'undo' ? 'redo' : 'undo';
+    showToast(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${label}`, {
+      label: opposite === 'undo' ? 'Undo' : 'Redo',
+      onClick: () => {
+        applyHistory(opposite);
+      },
+    });
+  }, [undo, redo, showToast]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    // Ignore if user is typing in an input
+    // Ignore if user is typing in an input (text fields keep their own undo)
     const target = e.target as HTMLElement;
     if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
       return;
     }
 
+    // Ctrl/Cmd + Z undoes, Ctrl/Cmd + Shift + Z or Ctrl + Y redoes
+    if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        applyHistory(e.shiftKey ? 'redo' : 'undo');
+        return;
+      }
+      if (key === 'y' && e.ctrlKey) {
+        e.preventDefault();
+        applyHistory('redo');
+        return;
+      }
+    }
+
+    // Tab nests the selected task under the one above it, Shift + Tab moves it back out
+    if (
+      e.key === 'Tab' &&
+      selectedTask &&
+      !e.ctrlKey &&
+      !e.metaKey &&
+      !e.altKey &&
+      !target.closest(FOCUSABLE_SELECTOR)
+    ) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        outdentTask(selectedTask.id);
+      } else {
+        indentTask(selectedTask.id);
+      }
+      return;
+    }
+
     // Alt + key shortcuts
     if (e.altKey) {
       switch (e.key.toLowerCase()) {
@@ -44,6 +99,14 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
           e.preventDefault();
           setViewMode('matrix');
           break;
+        case '4':
+          e.preventDefault();
+          setViewMode('board');
+          break;
+        case '5':
+          e.preventDefault();
+          setViewMode('timeline');
+          break;
       }
       return;
     }
@@ -77,7 +140,7 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
           break;
       }
     }
-  }, [setSelectedListId, setViewMode, options]);
+  }, [setSelectedListId, setViewMode, options, applyHistory, selectedTask, indentTask, outdentTask]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -0,0 +1,148 @@
+import { formatDateKey } from '../../shared/dates';
+import type { Task, UpdateTaskDTO } from '../../shared/types';
+
+// A task's appearance on one day: a single entry, or part of a start-to-due span
+export interface CalendarEntry {
+  task: Task;
+  segment: 'single' | 'start' | 'middle' | 'end';
+}
+
+// A timed task placed in a day column of the time grid
+export interface TimedBlock {
+  task: Task;
+  start: number; // Minutes from midnight
+  end: number;
+  lane: number; // Column within a group of overlapping blocks
+  lanes: number; // Number of columns in that group
+}
+
+// Block length for timed tasks with neither a duration nor an estimate
+export const DEFAULT_BLOCK_MINUTES = 30;
+
+// Shared with the main process, which needs the same local dates
+export { formatDateKey };
+
+// YYYY-MM-DD a number of days after (or before) another
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// Whole days from one YYYY-MM-DD date to another (negative if earlier)
+export function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((new Date(toKey).getTime() - new Date(fromKey).getTime()) / 86400000);
+}
+
+// "HH:MM" to minutes from midnight, or null if unreadable
+export function parseTimeOfDay(time: string | null): number | null {
+  const match = time ? /^(\d{1,2}):(\d{2})/.exec(time) : null;
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+// Minutes from midnight to "HH:MM"
+export function formatTimeOfDay(minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Priority colors for task dots
+export function getPriorityColor(priority: string): string {
+  switch (priority) {
+    case 'high': return 'bg-red-500';
+    case 'medium': return 'bg-yellow-500';
+    case 'low': return 'bg-green-500';
+    default: return 'bg-gray-400';
+  }
+}
+
+// Group tasks by date: on their due date, or on every day from start to due
+export function groupTasksByDate(tasks: Task[], dates: Date[]): Record<string, CalendarEntry[]> {
+  const grouped: Record<string, CalendarEntry[]> = {};
+  const add = (dateKey: string, entry: CalendarEntry) => {
+    if (!grouped[dateKey]) {
+      grouped[dateKey] = [];
+    }
+    grouped[dateKey].push(entry);
+  };
+
+  dates.forEach(date => {
+    const dateKey = formatDateKey(date);
+
+    tasks.forEach(task => {
+      const dueKey = task.dueDate?.split('T')[0]; // Get just the date part
+      const startKey = task.startDate?.split('T')[0];
+
+      if (startKey && dueKey && startKey < dueKey) {
+        if (dateKey >= startKey && dateKey <= dueKey) {
+          const segment = dateKey === startKey ? 'start' : dateKey === dueKey ? 'end' : 'middle';
+          add(dateKey, { task, segment });
+        }
+      } else if (dueKey === dateKey || (!dueKey && startKey === dateKey)) {
+        add(dateKey, { task, segment: 'single' });
+      }
+    });
+  });
+
+  // Spans first so their bars line up across neighbouring days
+  Object.values(grouped).forEach(entries =>
+    entries.sort((a, b) => Number(a.segment === 'single') - Number(b.segment === 'single'))
+  );
+
+  return grouped;
+}
+
+// Updates that move a task to another day. A start-to-due span moves as a
+// whole, keeping its length; a task with only a start date moves that instead.
+export function moveToDateUpdates(task: Task, dateKey: string): UpdateTaskDTO {
+  if (task.startDate && !task.dueDate) {
+    return { startDate: dateKey };
+  }
+
+  const updates: UpdateTaskDTO = { dueDate: dateKey };
+  if (task.startDate && task.dueDate) {
+    const shiftDays = daysBetween(task.dueDate.split('T')[0], dateKey);
+    updates.startDate = addDays(task.startDate.split('T')[0], shiftDays);
+  }
+  return updates;
+}
+
+// Length of a timed task's block: its duration, else its estimate
+export function getBlockMinutes(task: Task): number {
+  return task.durationMinutes ?? task.estimatedMinutes ?? DEFAULT_BLOCK_MINUTES;
+}
+
+// Place timed entries side by side where they overlap. Blocks that overlap,
+// directly or through a chain, share a group and split its width into lanes.
+export function layoutTimedBlocks(entries: CalendarEntry[]): TimedBlock[] {
+  const blocks = entries
+    .map(({ task }) => {
+      const start = parseTimeOfDay(task.dueTime) ?? 0;
+      return { task, start, end: Math.min(start + Math.max(getBlockMinutes(task), 15), 24 * 60), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let group: TimedBlock[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    group.forEach(block => (block.lanes = laneEnds.length));
+    group = [];
+    laneEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.start >= groupEnd) {
+      closeGroup();
+    }
+    const lane = laneEnds.findIndex(end => end <= block.start);
+    block.lane = lane === -1 ? laneEnds.length : lane;
+    laneEnds[block.lane] = block.end;
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.end);
+  }
+  closeGroup();
+
+  return blocks;
+}
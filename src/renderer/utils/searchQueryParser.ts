@@ -0,0 +1,217 @@
+import * as chrono from 'chrono-node';
+import type { Priority, TaskFilter, Tag, List, ParsedSearchQuery, SearchQueryError } from '../../shared/types';
+
+type Operator = ':' | '=' | '<' | '<=' | '>' | '>=';
+
+// -key:value / key<value (value may be "quoted"), a "quoted phrase", or a plain word
+const TOKEN_PATTERN = /(-)?(?:([a-z]+)(:|<=|>=|<|>|=)("[^"]*"?|[^\s"]*)|("[^"]*"?)|(\S+))/gi;
+
+const PRIORITY_VALUES: Record<string, Priority> = {
+  high: 'high',
+  medium: 'medium',
+  med: 'medium',
+  low: 'low',
+  none: 'none',
+};
+
+const IS_VALUES = ['overdue', 'completed', 'done', 'open', 'recurring'];
+const HAS_VALUES = ['subtasks', 'due', 'reminder', 'tags'];
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addUnique<T>(values: T[] | undefined, value: T): T[] {
+  return values?.includes(value) ? values : [...(values ?? []), value];
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return toDateString(result);
+}
+
+/**
+ * Parse a search query into a TaskFilter
+ *
+ * Supported syntax:
+ * - tag:work, #work, -tag:someday
+ * - list:"Home", list:inbox, -list:work
+ * - priority:high (high, medium/med, low, none)
+ * - due:today, due<friday, due>=2026-01-01, due:none
+ * - is:overdue, is:completed, is:open, is:recurring
+ * - has:subtasks, has:due, has:reminder, has:tags
+ * - Anything else is free text; -word excludes tasks containing it
+ *
+ * Any key can be negated with a leading "-". Date operands are parsed with chrono.
+ */
+export function parseSearchQuery(input: string, tags: Tag[], lists: List[]): ParsedSearchQuery {
+  const filter: TaskFilter = {};
+  const errors: SearchQueryError[] = [];
+  const words: string[] = [];
+
+  const addTag = (tagId: string, negate: boolean) => {
+    if (negate) filter.excludeTagIds = addUnique(filter.excludeTagIds, tagId);
+    else filter.tagIds = addUnique(filter.tagIds, tagId);
+  };
+  const addList = (listId: string | null, negate: boolean) => {
+    if (negate) filter.excludeListIds = addUnique(filter.excludeListIds, listId);
+    else filter.listIds = addUnique(filter.listIds, listId);
+  };
+
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(input)) !== null) {
+    const [token, negation, rawKey, operator, rawValue, phrase, word] = match;
+    const start = match.index;
+    const end = start + token.length;
+    const negate = negation === '-';
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    // Quoted free text
+    if (phrase !== undefined) {
+      if (phrase.length < 2 || !phrase.endsWith('"')) {
+        fail('Missing closing quote');
+        continue;
+      }
+      const text = phrase.slice(1, -1).trim();
+      if (text) {
+        if (negate) filter.excludeTerms = addUnique(filter.excludeTerms, text);
+        else words.push(text);
+      }
+      continue;
+    }
+
+    // Plain word (#name is shorthand for tag:name)
+    if (word !== undefined) {
+      if (word.startsWith('#') && word.length > 1) {
+        const tag = tags.find(t => t.name.toLowerCase() === word.slice(1).toLowerCase());
+        if (!tag) fail(`No tag named "${word.slice(1)}"`);
+        else addTag(tag.id, negate);
+      } else if (negate) {
+        filter.excludeTerms = addUnique(filter.excludeTerms, word);
+      } else {
+        words.push(word);
+      }
+      continue;
+    }
+
+    const key = rawKey.toLowerCase();
+    if (rawValue.startsWith('"') && (rawValue.length < 2 || !rawValue.endsWith('"'))) {
+      fail('Missing closing quote');
+      continue;
+    }
+    const value = (rawValue.startsWith('"') ? rawValue.slice(1, -1) : rawValue).trim();
+    if (!value) {
+      fail(`Missing value after "${rawKey}${operator}"`);
+      continue;
+    }
+
+    const isComparison = operator !== ':' && operator !== '=';
+    if (isComparison && key !== 'due') {
+      fail(`"${rawKey}" can't be compared with ${operator}`);
+      continue;
+    }
+
+    switch (key) {
+      case 'tag': {
+        const name = value.replace(/^#/, '').toLowerCase();
+        const tag = tags.find(t => t.name.toLowerCase() === name);
+        if (!tag) fail(`No tag named "${value}"`);
+        else addTag(tag.id, negate);
+        break;
+      }
+      case 'list': {
+        if (value.toLowerCase() === 'inbox') {
+          addList(null, negate);
+          break;
+        }
+        const list = lists.find(l => l.name.toLowerCase() === value.toLowerCase());
+        if (!list) fail(`No list named "${value}"`);
+        else addList(list.id, negate);
+        break;
+      }
+      case 'priority': {
+        const priority = PRIORITY_VALUES[value.toLowerCase()];
+        if (!priority) fail(`Unknown priority "${value}" (use high, medium, low or none)`);
+        else if (negate) filter.excludePriorities = addUnique(filter.excludePriorities, priority);
+        else filter.priorities = addUnique(filter.priorities, priority);
+        break;
+      }
+      case 'due': {
+        if (value.toLowerCase() === 'none' && !isComparison) {
+          filter.hasDueDate = negate;
+          break;
+        }
+        if (negate) {
+          fail('"-due" isn\'t supported; use the opposite comparison instead');
+          break;
+        }
+        const parsed = chrono.parseDate(value, new Date(), { forwardDate: true });
+        if (!parsed) {
+          fail(`Can't read "${value}" as a date`);
+          break;
+        }
+        const date = toDateString(parsed);
+        switch (operator as Operator) {
+          case '<':
+          case '<=': {
+            const before = operator === '<' ? date : addDays(date, 1);
+            filter.dueBefore = filter.dueBefore && filter.dueBefore < before ? filter.dueBefore : before;
+            break;
+          }
+          case '>':
+          case '>=': {
+            const after = operator === '>' ? date : addDays(date, -1);
+            filter.dueAfter = filter.dueAfter && filter.dueAfter > after ? filter.dueAfter : after;
+            break;
+          }
+          default:
+            filter.dateRange = { start: date, end: date };
+        }
+        break;
+      }
+      case 'is': {
+        const state = value.toLowerCase();
+        if (!IS_VALUES.includes(state)) {
+          fail(`Unknown state "${value}" (use ${IS_VALUES.join(', ')})`);
+        } else if (state === 'overdue') {
+          filter.overdue = !negate;
+        } else if (state === 'recurring') {
+          filter.recurring = !negate;
+        } else {
+          // is:open is the opposite of is:completed
+          filter.completed = (state !== 'open') !== negate;
+        }
+        break;
+      }
+      case 'has': {
+        const property = value.toLowerCase();
+        if (!HAS_VALUES.includes(property)) {
+          fail(`Unknown property "${value}" (use ${HAS_VALUES.join(', ')})`);
+        } else if (property === 'subtasks') {
+          filter.hasSubtasks = !negate;
+        } else if (property === 'due') {
+          filter.hasDueDate = !negate;
+        } else if (property === 'reminder') {
+          filter.hasReminder = !negate;
+        } else {
+          filter.hasTags = !negate;
+        }
+        break;
+      }
+      default:
+        fail(`Unknown filter "${rawKey}" (use tag, list, priority, due, is or has)`);
+    }
+  }
+
+  if (words.length > 0) {
+    filter.searchQuery = words.join(' ');
+  }
+  // Every tag in a query must match, unlike the "any of" tag chips
+  if (filter.tagIds && filter.tagIds.length > 1) {
+    filter.tagMatch = 'all';
+  }
+
+  return { filter, errors };
+}
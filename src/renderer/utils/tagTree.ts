@@ -0,0 +1,71 @@
+import { TAG_PATH_SEPARATOR, type Tag } from '../../shared/types';
+
+export interface TagTreeRow {
+  tag: Tag;
+  depth: number;
+  label: string; // The name's last level, or the rest of it below the nearest shown parent
+}
+
+// Tags ordered as a tree, children right after their parent and siblings by name.
+// A tag whose parent doesn't exist (e.g. from an old backup) hangs off the nearest ancestor that does.
+export function buildTagTree(tags: Tag[]): TagTreeRow[] {
+  const byName = new Map(tags.map(tag => [tag.name, tag]));
+  const childrenOf = new Map<string | null, Tag[]>();
+
+  for (const tag of tags) {
+    const parts = tag.name.split(TAG_PATH_SEPARATOR);
+    let parentName: string | null = null;
+    for (let depth = parts.length - 1; depth > 0; depth--) {
+      const candidate = parts.slice(0, depth).join(TAG_PATH_SEPARATOR);
+      if (byName.has(candidate)) {
+        parentName = candidate;
+        break;
+      }
+    }
+    const siblings = childrenOf.get(parentName) ?? [];
+    siblings.push(tag);
+    childrenOf.set(parentName, siblings);
+  }
+
+  const rows: TagTreeRow[] = [];
+  const visit = (parentName: string | null, depth: number) => {
+    const children = [...(childrenOf.get(parentName) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const tag of children) {
+      const label = parentName ? tag.name.slice(parentName.length + 1) : tag.name;
+      rows.push({ tag, depth, label });
+      visit(tag.name, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return rows;
+}
+
+// Whether `name` is `ancestor` itself or nested somewhere under it
+export function isTagWithin(name: string, ancestor: string): boolean {
+  return name === ancestor || name.startsWith(ancestor + TAG_PATH_SEPARATOR);
+}
+
+// Trim each level of a nested name and drop empty ones, matching how tags are saved
+export function normalizeTagName(name: string): string {
+  return name
+    .split(TAG_PATH_SEPARATOR)
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .join(TAG_PATH_SEPARATOR);
+}
+
+// Why renaming `tag` to `newName` isn't possible, or null if it is. Nested tags
+// are renamed along with it, so none of their new names may be taken either.
+export function getTagRenameError(tags: Tag[], tag: Tag, newName: string): string | null {
+  const name = normalizeTagName(newName);
+  if (!name) return 'Tag name is required';
+  if (name !== tag.name && isTagWithin(name, tag.name)) return `"${tag.name}" can't be moved inside itself`;
+
+  const taken = new Set(tags.filter(t => !isTagWithin(t.name, tag.name)).map(t => t.name));
+  const conflict = tags
+    .filter(t => isTagWithin(t.name, tag.name))
+    .map(t => name + t.name.slice(tag.name.length))
+    .find(renamed => taken.has(renamed));
+  return conflict ? `A tag named "${conflict}" already exists` : null;
+}
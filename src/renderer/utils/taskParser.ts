@@ -1,19 +1,37 @@
 import * as chrono from 'chrono-node';
 import type { Priority, ParsedTaskInput } from '../../shared/types';
 
+// The next date (today included) falling on a day of the month, e.g. 5 for "the 5th";
+// months too short for the day are skipped. Noon keeps the date stable across time zones.
+function nextDayOfMonth(day: number): Date | null {
+  if (day < 1 || day > 31) return null;
+  const today = new Date();
+  for (let offset = 0; offset < 12; offset++) {
+    const date = new Date(today.getFullYear(), today.getMonth() + offset, day, 12);
+    if (date.getDate() === day && (offset > 0 || day >= today.getDate())) {
+      return date;
+    }
+  }
+  return null;
+}
+
 /**
  * Parse natural language task input into structured data
  *
  * Examples:
  * - "Buy milk tomorrow 3pm" → title: "Buy milk", dueDate: tomorrow, dueTime: 15:00
  * - "Call mom !high #family" → title: "Call mom", priority: high, tags: ["family"]
+ * - "Prep agenda #work/meetings" → tags: ["work/meetings"] (nested under "work")
  * - "Meeting ^work every monday" → title: "Meeting", listName: "work"
+ * - "Tax return start monday due friday" → startDate: monday, dueDate: friday
+ * - "Plan trip starts on the 5th" → startDate: the next 5th of a month
  */
 export function parseTaskInput(input: string): ParsedTaskInput {
   let text = input.trim();
 
   const result: ParsedTaskInput = {
     title: '',
+    startDate: null,
     dueDate: null,
     dueTime: null,
     priority: null,
@@ -39,8 +57,8 @@ export function parseTaskInput(input: string): ParsedTaskInput {
     }
   }
 
-  // Extract tags (#tagname)
-  const tagPattern = /#(\w+)/g;
+  // Extract tags (#tagname, or #parent/child for nested tags)
+  const tagPattern = /#(\w+(?:\/\w+)*)/g;
   let tagMatch;
   while ((tagMatch = tagPattern.exec(text)) !== null) {
     result.tags.push(tagMatch[1]);
@@ -55,6 +73,27 @@ export function parseTaskInput(input: string): ParsedTaskInput {
     text = text.replace(listPattern, ' ');
   }
 
+  // Extract start date ("start monday", "starts on the 5th") before the due date
+  const startPattern = /\bstart(?:s|ing)?\s+(?:on\s+)?/i;
+  const startMatch = startPattern.exec(text);
+  if (startMatch) {
+    const afterKeyword = startMatch.index + startMatch[0].length;
+    const rest = text.slice(afterKeyword);
+    const [startDate] = chrono.parse(rest, new Date(), { forwardDate: true });
+    // chrono doesn't read a bare day of the month like "the 5th"
+    const ordinalMatch = /^(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)\b/i.exec(rest);
+    const ordinalDate = ordinalMatch ? nextDayOfMonth(parseInt(ordinalMatch[1], 10)) : null;
+
+    // Only a date right after the keyword counts, so "start on the report" stays in the title
+    if (startDate && startDate.index === 0) {
+      result.startDate = startDate.start.date().toISOString().split('T')[0];
+      text = text.slice(0, startMatch.index) + text.slice(afterKeyword + startDate.text.length);
+    } else if (ordinalMatch && ordinalDate) {
+      result.startDate = ordinalDate.toISOString().split('T')[0];
+      text = text.slice(0, startMatch.index) + text.slice(afterKeyword + ordinalMatch[0].length);
+    }
+  }
+
   // Parse date/time using chrono
   const parsedDate = chrono.parse(text, new Date(), { forwardDate: true });
 
@@ -72,8 +111,9 @@ export function parseTaskInput(input: string): ParsedTaskInput {
       result.dueTime = `${hours}:${minutes}`;
     }
 
-    // Remove the date text from input
-    text = text.slice(0, parsed.index) + text.slice(parsed.index + parsed.text.length);
+    // Remove the date text from input, along with a "due" right in front of it
+    const beforeDate = text.slice(0, parsed.index).replace(/\bdue\s+$/i, '');
+    text = beforeDate + text.slice(parsed.index + parsed.text.length);
   }
 
   // Clean up title - remove extra whitespace
@@ -174,24 +214,12 @@ export function checkIsUrgent(dueDate: string | null): boolean {
 export function formatParsedChips(parsed: ParsedTaskInput): { type: string; label: string }[] {
   const chips: { type: string; label: string }[] = [];
 
+  if (parsed.startDate) {
+    chips.push({ type: 'start', label: `Starts ${formatChipDate(parsed.startDate)}` });
+  }
+
   if (parsed.dueDate) {
-    const date = new Date(parsed.dueDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    let dateLabel: string;
-    const taskDate = new Date(parsed.dueDate);
-    taskDate.setHours(0, 0, 0, 0);
-
-    if (taskDate.getTime() === today.getTime()) {
-      dateLabel = 'Today';
-    } else if (taskDate.getTime() === tomorrow.getTime()) {
-      dateLabel = 'Tomorrow';
-    } else {
-      dateLabel = date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
-    }
+    let dateLabel = formatChipDate(parsed.dueDate);
 
     if (parsed.dueTime) {
       dateLabel += ` ${parsed.dueTime}`;
@@ -214,3 +242,23 @@ export function formatParsedChips(parsed: ParsedTaskInput): { type: string; labe
 
   return chips;
 }
+
+/**
+ * Label a YYYY-MM-DD date for a chip: Today, Tomorrow or e.g. "Mon, Oct 26"
+ */
+function formatChipDate(dateString: string): string {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  const taskDate = new Date(dateString);
+  taskDate.setHours(0, 0, 0, 0);
+
+  if (taskDate.getTime() === today.getTime()) {
+    return 'Today';
+  } else if (taskDate.getTime() === tomorrow.getTime()) {
+    return 'Tomorrow';
+  }
+  return new Date(dateString).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
@@ -0,0 +1,103 @@
+import type { Task, Section } from '../../shared/types';
+
+export interface TaskTreeRow {
+  task: Task;
+  depth: number;
+  hasChildren: boolean;
+}
+
+// Flatten tasks into indented rows, children right after their parent.
+// A task whose parent isn't in the given set (filtered out, other list)
+// shows at the top level. Descendants of collapsed tasks are skipped.
+export function flattenTaskTree(tasks: Task[], collapsedIds: Set<string>): TaskTreeRow[] {
+  const ids = new Set(tasks.map(t => t.id));
+  const childrenOf = new Map<string, Task[]>();
+  const roots: Task[] = [];
+
+  for (const task of tasks) {
+    if (task.parentId && ids.has(task.parentId)) {
+      const siblings = childrenOf.get(task.parentId) ?? [];
+      siblings.push(task);
+      childrenOf.set(task.parentId, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const rows: TaskTreeRow[] = [];
+  const visit = (task: Task, depth: number) => {
+    const children = childrenOf.get(task.id) ?? [];
+    rows.push({ task, depth, hasChildren: children.length > 0 });
+    if (!collapsedIds.has(task.id)) {
+      children.forEach(child => visit(child, depth + 1));
+    }
+  };
+  roots.forEach(task => visit(task, 0));
+
+  return rows;
+}
+
+export interface SectionGroup {
+  section: Section | null; // null for tasks without a section
+  rows: TaskTreeRow[];
+}
+
+// Drop target ID of a section group's header or column
+export function sectionDropId(section: Section | null): string {
+  return `section:${section?.id ?? 'none'}`;
+}
+
+// Group rows under their top-level task's section, in section order.
+// Tasks without a section (or with one that's gone) come first.
+export function groupRowsBySection(rows: TaskTreeRow[], sections: Section[]): SectionGroup[] {
+  const groups: SectionGroup[] = [
+    { section: null, rows: [] },
+    ...sections.map(section => ({ section, rows: [] })),
+  ];
+  const groupsById = new Map(groups.map(group => [group.section?.id ?? null, group]));
+
+  let current = groups[0];
+  for (const row of rows) {
+    if (row.depth === 0) {
+      current = groupsById.get(row.task.sectionId) ?? groups[0];
+    }
+    current.rows.push(row);
+  }
+  return groups;
+}
+
+// Where a dragged row lands when dropped on another row or a section drop target:
+// the new order of all task IDs and the section it ends up in
+export function resolveSectionDrop(
+  groups: SectionGroup[],
+  activeId: string,
+  overId: string
+): { taskIds: string[]; sectionId: string | null } | null {
+  const rows = groups.flatMap(group => group.rows);
+  const oldIndex = rows.findIndex(row => row.task.id === activeId);
+  if (oldIndex === -1) return null;
+
+  const overGroupIndex = groups.findIndex(group => sectionDropId(group.section) === overId);
+  let newIndex: number;
+  let targetGroup: SectionGroup | undefined;
+
+  if (overGroupIndex !== -1) {
+    // Dropped on a section itself: first in that section
+    targetGroup = groups[overGroupIndex];
+    const start = groups.slice(0, overGroupIndex).reduce((sum, group) => sum + group.rows.length, 0);
+    newIndex = start > oldIndex ? start - 1 : start;
+  } else {
+    newIndex = rows.findIndex(row => row.task.id === overId);
+    targetGroup = groups.find(group => group.rows.some(row => row.task.id === overId));
+  }
+  if (newIndex === -1 || !targetGroup) return null;
+
+  const reordered = [...rows];
+  const [moved] = reordered.splice(oldIndex, 1);
+  reordered.splice(newIndex, 0, moved);
+
+  return {
+    taskIds: reordered.map(row => row.task.id),
+    sectionId: targetGroup.section?.id ?? null,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Format a number of minutes as e.g. "45m", "2h" or "1h 30m"
+ */
+export function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+/**
+ * Parse an estimate typed as minutes ("45"), hours ("1.5h") or both ("1h 30m").
+ * Returns null for empty or unreadable input.
+ */
+export function parseMinutes(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  if (!text) return null;
+
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  const match = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/.exec(text);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const hours = match[1] ? parseFloat(match[1]) : 0;
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  return Math.round(hours * 60) + minutes;
+}
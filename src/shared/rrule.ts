@@ -0,0 +1,372 @@
+import type { Weekday } from './types';
+
+// Recurrence rules are stored as RFC 5545 RRULE values, e.g. "FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2"
+// for the second Tuesday of every month. Occurrences are whole days (YYYY-MM-DD); a task's time
+// of day stays in its own column.
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// A BYDAY entry: a weekday, or the nth one of the month or year (negative counts from the end)
+export interface RRuleDay {
+  weekday: Weekday;
+  nth: number | null;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleDay[];
+  byMonthDay: number[]; // 1 to 31, or -1 (last day) to -31
+  byMonth: number[]; // 1 to 12
+  bySetPos: number[]; // Picks from each period's matching days, -1 being the last
+  count: number | null; // Number of occurrences from the start date on
+  until: string | null; // Last possible date (YYYY-MM-DD), inclusive
+  weekStart: Weekday; // WKST, Monday unless set
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const FREQUENCY_UNITS: Record<RRuleFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+// Rules that never match (e.g. February 30th) stop looking this far past the start date
+const MAX_SEARCH_YEARS = 100;
+
+export function createRRule(freq: RRuleFrequency): RRule {
+  return { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [], count: null, until: null, weekStart: 1 };
+}
+
+// Parse a comma-separated list of non-zero integers between min and max
+function parseNumberList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(part => (/^[+-]?\d+$/.test(part) ? parseInt(part, 10) : NaN));
+  return numbers.every(n => !isNaN(n) && n !== 0 && n >= min && n <= max) ? numbers : null;
+}
+
+function parseWeekday(code: string): Weekday | null {
+  const index = (WEEKDAY_CODES as readonly string[]).indexOf(code);
+  return index === -1 ? null : (index as Weekday);
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Returns null when it isn't
+ * valid or uses parts this engine doesn't support, such as BYHOUR.
+ */
+export function parseRRule(value: string): RRule | null {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const rule = createRRule('DAILY');
+  let hasFreq = false;
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.toUpperCase();
+    const val = rawValue.toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as RRuleFrequency)) return null;
+        rule.freq = val as RRuleFrequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        if (!/^\d+$/.test(val) || parseInt(val, 10) < 1) return null;
+        if (key === 'INTERVAL') rule.interval = parseInt(val, 10);
+        else rule.count = parseInt(val, 10);
+        break;
+      }
+      case 'UNTIL': {
+        // Date or date-time form; only the date matters here
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(val);
+        if (!match) return null;
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY': {
+        const days: RRuleDay[] = [];
+        for (const item of val.split(',')) {
+          const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(item);
+          const weekday = match ? parseWeekday(match[2]) : null;
+          const nth = match?.[1] ? parseInt(match[1], 10) : null;
+          if (weekday === null || nth === 0 || (nth !== null && Math.abs(nth) > 53)) return null;
+          days.push({ weekday, nth });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY':
+      case 'BYMONTH':
+      case 'BYSETPOS': {
+        const limits = { BYMONTHDAY: [-31, 31], BYMONTH: [1, 12], BYSETPOS: [-366, 366] }[key];
+        const numbers = parseNumberList(val, limits[0], limits[1]);
+        if (!numbers) return null;
+        if (key === 'BYMONTHDAY') rule.byMonthDay = numbers;
+        else if (key === 'BYMONTH') rule.byMonth = numbers;
+        else rule.bySetPos = numbers;
+        break;
+      }
+      case 'WKST': {
+        const weekday = parseWeekday(val);
+        if (weekday === null) return null;
+        rule.weekStart = weekday;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // RFC 5545 allows COUNT or UNTIL, not both
+  if (!hasFreq || (rule.count !== null && rule.until !== null)) return null;
+  return rule;
+}
+
+// Write a rule back as an RRULE value, leaving out defaults
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.nth ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date.split('T')[0]}T00:00:00Z`);
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Every day of a month (0-based) or of a whole year that falls on a weekday
+function weekdaysIn(year: number, month: number | null, weekday: Weekday): Date[] {
+  const first = new Date(Date.UTC(year, month ?? 0, 1));
+  const end = month === null ? new Date(Date.UTC(year + 1, 0, 1)) : new Date(Date.UTC(year, month + 1, 1));
+  const dates: Date[] = [];
+  for (let day = new Date(first); day < end; day.setUTCDate(day.getUTCDate() + 1)) {
+    if (day.getUTCDay() === weekday) dates.push(new Date(day));
+  }
+  return dates;
+}
+
+// Pick the nth item, counting from the end when negative
+function pickNth<T>(items: T[], nth: number): T | undefined {
+  return nth > 0 ? items[nth - 1] : items[items.length + nth];
+}
+
+// Days of one month matching BYMONTHDAY and BYDAY, or the start date's day of the month
+function expandMonth(rule: RRule, year: number, month: number, start: Date): Date[] {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : lastDay + day + 1))
+      .filter(day => day >= 1 && day <= lastDay)
+      .map(day => new Date(Date.UTC(year, month, day)))
+      // BYDAY narrows BYMONTHDAY down, e.g. Friday the 13th
+      .filter(date => rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.weekday === date.getUTCDay()));
+  }
+
+  if (rule.byDay.length > 0) {
+    return rule.byDay.flatMap(byDay => {
+      const dates = weekdaysIn(year, month, byDay.weekday);
+      if (byDay.nth === null) return dates;
+      const date = pickNth(dates, byDay.nth);
+      return date ? [date] : [];
+    });
+  }
+
+  return start.getUTCDate() <= lastDay ? [new Date(Date.UTC(year, month, start.getUTCDate()))] : [];
+}
+
+// Start of the kth period (day, week, month or year) of the rule after the one holding the start date
+function getPeriodStart(rule: RRule, start: Date, k: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  switch (rule.freq) {
+    case 'DAILY':
+      return new Date(Date.UTC(year, month, start.getUTCDate() + k * rule.interval));
+    case 'WEEKLY': {
+      const offset = (start.getUTCDay() - rule.weekStart + 7) % 7;
+      return new Date(Date.UTC(year, month, start.getUTCDate() - offset + k * 7 * rule.interval));
+    }
+    case 'MONTHLY':
+      return new Date(Date.UTC(year, month + k * rule.interval, 1));
+    case 'YEARLY':
+      return new Date(Date.UTC(year + k * rule.interval, 0, 1));
+  }
+}
+
+// The days of one period that match the rule, in order
+function expandPeriod(rule: RRule, periodStart: Date, start: Date): Date[] {
+  const year = periodStart.getUTCFullYear();
+  const month = periodStart.getUTCMonth();
+  const inMonths = (date: Date) => rule.byMonth.length === 0 || rule.byMonth.includes(date.getUTCMonth() + 1);
+  let dates: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [periodStart].filter(date => {
+        const lastDay = daysInMonth(year, month);
+        return inMonths(date) &&
+          (rule.byMonthDay.length === 0 || rule.byMonthDay.some(day => (day > 0 ? day : lastDay + day + 1) === date.getUTCDate())) &&
+          (rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.weekday === date.getUTCDay()));
+      });
+      break;
+    case 'WEEKLY': {
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(byDay => byDay.weekday) : [start.getUTCDay()];
+      dates = Array.from({ length: 7 }, (_, i) => new Date(Date.UTC(year, month, periodStart.getUTCDate() + i)))
+        .filter(date => weekdays.includes(date.getUTCDay() as Weekday) && inMonths(date));
+      break;
+    }
+    case 'MONTHLY':
+      dates = inMonths(periodStart) ? expandMonth(rule, year, month, start) : [];
+      break;
+    case 'YEARLY':
+      if (rule.byDay.length > 0 && rule.byMonth.length === 0 && rule.byMonthDay.length === 0) {
+        // Weekdays of the whole year, e.g. BYDAY=20MO for the 20th Monday
+        dates = rule.byDay.flatMap(byDay => {
+          const all = weekdaysIn(year, null, byDay.weekday);
+          if (byDay.nth === null) return all;
+          const date = pickNth(all, byDay.nth);
+          return date ? [date] : [];
+        });
+      } else {
+        const months = rule.byMonth.length > 0
+          ? rule.byMonth.map(m => m - 1)
+          : rule.byMonthDay.length > 0 || rule.byDay.length > 0
+          ? Array.from({ length: 12 }, (_, i) => i)
+          : [start.getUTCMonth()];
+        dates = months.flatMap(m => expandMonth(rule, year, m, start));
+      }
+      break;
+  }
+
+  // Sort and drop duplicates (e.g. BYDAY=MO,1MO) before BYSETPOS picks from the set
+  dates = [...new Map(dates.map(date => [date.getTime(), date])).values()].sort((a, b) => a.getTime() - b.getTime());
+  if (rule.bySetPos.length > 0) {
+    const picked = rule.bySetPos.map(pos => pickNth(dates, pos)).filter((date): date is Date => date !== undefined);
+    dates = [...new Map(picked.map(date => [date.getTime(), date])).values()].sort((a, b) => a.getTime() - b.getTime());
+  }
+  return dates;
+}
+
+/**
+ * Occurrence dates of a rule whose series starts on `startDate` (its DTSTART), in order.
+ * COUNT counts from the start date; only dates after `after` (if given) are returned.
+ */
+export function getOccurrences(rule: RRule, startDate: string, limit: number, after?: string): string[] {
+  const start = parseDate(startDate);
+  const lastYear = start.getUTCFullYear() + MAX_SEARCH_YEARS;
+  const occurrences: string[] = [];
+  let counted = 0;
+
+  for (let k = 0; occurrences.length < limit; k++) {
+    const periodStart = getPeriodStart(rule, start, k);
+    if (periodStart.getUTCFullYear() > lastYear) break;
+
+    for (const date of expandPeriod(rule, periodStart, start)) {
+      if (date < start) continue;
+      const dateKey = toDateKey(date);
+      if (rule.until && dateKey > rule.until) return occurrences;
+      counted++;
+      if (rule.count !== null && counted > rule.count) return occurrences;
+      if (!after || dateKey > after) {
+        occurrences.push(dateKey);
+        if (occurrences.length >= limit) return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+// The first occurrence after a date, or null when the series has ended
+export function getNextOccurrence(rule: RRule, startDate: string, after: string): string | null {
+  return getOccurrences(rule, startDate, 1, after)[0] ?? null;
+}
+
+// 1st, 2nd, 3rd... and last, 2nd to last...
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+// "a", "a and b", "a, b and c"
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function sameWeekdays(days: RRuleDay[], weekdays: Weekday[]): boolean {
+  return days.length === weekdays.length && days.every(day => day.nth === null && weekdays.includes(day.weekday));
+}
+
+export const WORKWEEK: Weekday[] = [1, 2, 3, 4, 5];
+export const WEEKEND: Weekday[] = [0, 6];
+export const ALL_WEEKDAYS: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+// What a set of BYDAY weekdays is called when BYSETPOS picks from it, e.g. "weekday"
+function daySetName(days: RRuleDay[]): string {
+  if (sameWeekdays(days, ALL_WEEKDAYS)) return 'day';
+  if (sameWeekdays(days, WORKWEEK)) return 'weekday';
+  if (sameWeekdays(days, WEEKEND)) return 'weekend day';
+  return days.map(day => WEEKDAY_NAMES[day.weekday]).join(' or ');
+}
+
+/**
+ * Describe a rule in words, e.g. "Every month on the 2nd Tuesday" or "Every weekday, 10 times"
+ */
+export function describeRRule(rule: RRule): string {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  const isPlainWeekdays = rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY' && rule.interval === 1
+    && sameWeekdays(rule.byDay, WORKWEEK) && rule.bySetPos.length === 0 && rule.byMonthDay.length === 0;
+  if (isPlainWeekdays) {
+    text = 'Every weekday';
+  } else {
+    if (rule.byMonth.length > 0) {
+      text += ` in ${joinList(rule.byMonth.map(m => MONTH_NAMES[m - 1]))}`;
+    }
+    if (rule.byMonthDay.length > 0) {
+      const monthDays = joinList(rule.byMonthDay.map(day => (day === -1 ? 'last day' : ordinal(day))));
+      // BYDAY only narrows the days down here, e.g. "on Friday the 13th"
+      const weekdays = rule.bySetPos.length === 0 ? joinList(rule.byDay.map(day => WEEKDAY_NAMES[day.weekday])) : '';
+      text += weekdays ? ` on ${weekdays} the ${monthDays}` : ` on the ${monthDays}`;
+    } else if (rule.byDay.length > 0 && rule.bySetPos.length > 0) {
+      text += ` on the ${joinList(rule.bySetPos.map(ordinal))} ${daySetName(rule.byDay)}`;
+    } else if (rule.byDay.length > 0) {
+      const days = rule.byDay.map(day => `${day.nth !== null ? `${ordinal(day.nth)} ` : ''}${WEEKDAY_NAMES[day.weekday]}`);
+      text += rule.byDay.some(day => day.nth !== null) ? ` on the ${joinList(days)}` : ` on ${joinList(days)}`;
+    }
+  }
+
+  if (rule.count !== null) {
+    text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  } else if (rule.until) {
+    const until = parseDate(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    text += `, until ${until}`;
+  }
+
+  return text;
+}
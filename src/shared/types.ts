@@ -2,10 +2,10 @@
 export type Priority = 'none' | 'low' | 'medium' | 'high';
 
 // Smart list identifiers
-export type SmartListId = 'inbox' | 'today' | 'tomorrow' | 'week' | 'all' | 'completed';
+export type SmartListId = 'inbox' | 'today' | 'tomorrow' | 'week' | 'all' | 'completed' | 'trash';
 
 // View mode
-export type ViewMode = 'list' | 'calendar' | 'matrix';
+export type ViewMode = 'list' | 'calendar' | 'matrix' | 'board' | 'timeline';
 
 // Eisenhower Matrix quadrant
 export type EisenhowerQuadrant = 'do-first' | 'schedule' | 'delegate' | 'eliminate';
@@ -13,6 +13,7 @@ export type EisenhowerQuadrant = 'do-first' | 'schedule' | 'delegate' | 'elimina
 // Parsed task from natural language input
 export interface ParsedTaskInput {
   title: string;
+  startDate: string | null;
   dueDate: string | null;
   dueTime: string | null;
   priority: Priority | null;
@@ -20,24 +21,18 @@ export interface ParsedTaskInput {
   listName: string | null;
 }
 
-// Recurrence patterns
-export type RecurrencePattern = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
-
 // Regenerate mode for recurring tasks
 export type RegenerateMode = 'on_completion' | 'fixed_schedule';
 
+// What completing an overdue fixed_schedule task does with the occurrences it missed:
+// strict - the next instance is the next occurrence, even if that's still in the past
+// skip_missed - the next instance is the first occurrence from today on
+// each_missed - a one-off instance per missed occurrence, then the next one from today on
+export type CatchUpMode = 'strict' | 'skip_missed' | 'each_missed';
+
 // Weekday numbers (0 = Sunday, 6 = Saturday)
 export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
 
-// Recurrence configuration
-export interface RecurrenceConfig {
-  pattern: RecurrencePattern;
-  interval: number; // Every N days/weeks/months/years
-  weekdays: Weekday[]; // For weekly custom patterns
-  endDate: string | null; // Optional end date
-  regenerateMode: RegenerateMode;
-}
-
 // Task interface
 export interface Task {
   id: string;
@@ -45,6 +40,7 @@ export interface Task {
   title: string;
   description: string;
   notes: string;
+  startDate: string | null; // Hidden from Inbox, All and Today before this date
   dueDate: string | null;
   dueTime: string | null;
   priority: Priority;
@@ -54,35 +50,51 @@ export interface Task {
   createdAt: string;
   updatedAt: string;
   // Recurrence fields
-  recurrencePattern: RecurrencePattern;
-  recurrenceInterval: number;
-  recurrenceWeekdays: Weekday[];
-  recurrenceEndDate: string | null;
+  recurrenceRule: string | null; // RFC 5545 RRULE value (see shared/rrule.ts); null for one-off tasks
   regenerateMode: RegenerateMode;
+  catchUpMode: CatchUpMode;
+  deletedAt: string | null; // Set while the task is in the trash
+  parentId: string | null; // Parent task when nested; children share the parent's list
+  estimatedMinutes: number | null;
+  sectionId: string | null; // Section within the list; children share the parent's section
+  durationMinutes: number | null; // Length of the time block starting at dueTime
 }
 
-// Subtask interface
-export interface Subtask {
+// List interface
+export interface List {
   id: string;
-  taskId: string;
-  title: string;
-  completed: boolean;
+  name: string;
+  color: string;
+  icon: string;
   position: number;
+  folderId: string | null; // Folder the list is grouped under in the sidebar
   createdAt: string;
   updatedAt: string;
+  deletedAt: string | null; // Set while the list is in the trash
 }
 
-// List interface
-export interface List {
+// A user-defined section of a list: a board column and a task list group
+export interface Section {
   id: string;
+  listId: string;
   name: string;
-  color: string;
-  icon: string;
   position: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// Sidebar folder grouping lists
+export interface Folder {
+  id: string;
+  name: string;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Separator of nested tag names: "work/meetings" is a child of "work"
+export const TAG_PATH_SEPARATOR = '/';
+
 // Tag interface
 export interface Tag {
   id: string;
@@ -105,53 +117,140 @@ export interface Reminder {
 
 // Task with subtasks, tags, and reminders
 export interface TaskWithSubtasks extends Task {
-  subtasks: Subtask[];
+  subtasks: Task[]; // Direct child tasks
   tags: Tag[];
   reminders?: Reminder[];
 }
 
+// Completion of all descendants of a task
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
+// Tasks a task waits on, and tasks waiting on it
+export interface TaskDependencies {
+  blockedBy: Task[];
+  blocking: Task[];
+}
+
+// One dependency: taskId waits on dependsOnId
+export interface TaskDependencyLink {
+  taskId: string;
+  dependsOnId: string;
+}
+
+// A task captured in a template. Dates are stored in days relative to the day
+// the template is used, so a template saved with "due in 3 days" stays that way.
+export interface TemplateTask {
+  title: string;
+  description: string;
+  notes: string;
+  priority: Priority;
+  estimatedMinutes: number | null;
+  tags: string[]; // Tag names, created if missing
+  startOffsetDays: number | null;
+  dueOffsetDays: number | null;
+  dueTime: string | null;
+  durationMinutes?: number | null; // Missing in templates saved before durations existed
+  reminderOffsetMinutes: number[]; // Minutes after midnight of the day the template is used
+  subtasks: TemplateTask[];
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  task: TemplateTask;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Overrides for the top-level task when creating tasks from a template
+export interface InstantiateTemplateOptions {
+  listId?: string | null;
+  priority?: Priority;
+  dueDate?: string | null;
+}
+
+// File attached to a task
+export interface Attachment {
+  id: string;
+  taskId: string;
+  fileName: string;
+  mimeType: string | null;
+  size: number; // Bytes
+  hash: string; // SHA-256 of the contents
+  createdAt: string;
+}
+
+// Kinds of entries in a task's activity history
+export type TaskActivityAction =
+  | 'created'
+  | 'updated'
+  | 'moved'
+  | 'completed'
+  | 'reopened'
+  | 'recurred'
+  | 'subtask_added'
+  | 'subtask_renamed'
+  | 'subtask_completed'
+  | 'subtask_reopened'
+  | 'subtask_deleted'
+  | 'tag_added'
+  | 'tag_removed'
+  | 'dependency_added'
+  | 'dependency_removed'
+  | 'attachment_added'
+  | 'attachment_removed';
+
+// Activity history entry
+export interface TaskActivity {
+  id: string;
+  taskId: string;
+  action: TaskActivityAction;
+  field: string | null; // Task field for 'updated' entries
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: string;
+}
+
 // Create/Update DTOs
 export interface CreateTaskDTO {
   listId?: string | null;
+  parentId?: string | null; // Create as a child of this task (in the parent's list)
   title: string;
   description?: string;
   notes?: string;
+  startDate?: string | null;
   dueDate?: string | null;
   dueTime?: string | null;
   priority?: Priority;
-  recurrencePattern?: RecurrencePattern;
-  recurrenceInterval?: number;
-  recurrenceWeekdays?: Weekday[];
-  recurrenceEndDate?: string | null;
+  estimatedMinutes?: number | null;
+  sectionId?: string | null; // Ignored for child tasks, which take the parent's section
+  durationMinutes?: number | null;
+  recurrenceRule?: string | null;
   regenerateMode?: RegenerateMode;
+  catchUpMode?: CatchUpMode;
 }
 
 export interface UpdateTaskDTO {
-  listId?: string | null;
+  listId?: string | null; // Also clears the section unless sectionId is given
+  sectionId?: string | null;
   title?: string;
   description?: string;
   notes?: string;
+  startDate?: string | null;
   dueDate?: string | null;
   dueTime?: string | null;
   priority?: Priority;
+  estimatedMinutes?: number | null;
+  durationMinutes?: number | null;
   completed?: boolean;
   position?: number;
-  recurrencePattern?: RecurrencePattern;
-  recurrenceInterval?: number;
-  recurrenceWeekdays?: Weekday[];
-  recurrenceEndDate?: string | null;
+  recurrenceRule?: string | null;
   regenerateMode?: RegenerateMode;
-}
-
-export interface CreateSubtaskDTO {
-  taskId: string;
-  title: string;
-}
-
-export interface UpdateSubtaskDTO {
-  title?: string;
-  completed?: boolean;
-  position?: number;
+  catchUpMode?: CatchUpMode;
 }
 
 export interface CreateListDTO {
@@ -165,6 +264,7 @@ export interface UpdateListDTO {
   color?: string;
   icon?: string;
   position?: number;
+  folderId?: string | null;
 }
 
 export interface CreateTagDTO {
@@ -192,12 +292,80 @@ export interface UpdateReminderDTO {
 export interface TaskFilter {
   searchQuery?: string;
   tagIds?: string[];
+  tagMatch?: 'any' | 'all'; // How tagIds combine (default: any)
   priorities?: Priority[];
   dateRange?: {
     start: string;
     end: string;
   };
   completed?: boolean;
+  // Query language extensions (see parseSearchQuery)
+  excludeTerms?: string[];
+  excludeTagIds?: string[];
+  excludePriorities?: Priority[];
+  listIds?: (string | null)[]; // null = Inbox
+  excludeListIds?: (string | null)[];
+  dueBefore?: string; // Exclusive, YYYY-MM-DD
+  dueAfter?: string; // Exclusive, YYYY-MM-DD
+  overdue?: boolean;
+  recurring?: boolean;
+  hasSubtasks?: boolean;
+  hasDueDate?: boolean;
+  hasReminder?: boolean;
+  hasTags?: boolean;
+}
+
+// Problem in a search query, with the character range it applies to
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  filter: TaskFilter;
+  errors: SearchQueryError[];
+}
+
+// A filter saved as a user-defined smart list
+export interface SavedFilter {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  filter: TaskFilter;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedFilterDTO {
+  name: string;
+  icon?: string;
+  color?: string;
+  filter: TaskFilter;
+}
+
+export interface UpdateSavedFilterDTO {
+  name?: string;
+  icon?: string;
+  color?: string;
+  filter?: TaskFilter;
+  position?: number;
+}
+
+// Fields of a task covered by full-text search
+export type TaskSearchField = 'title' | 'description' | 'notes' | 'subtasks' | 'tags';
+
+// Markers wrapped around matched terms in search highlights and snippets
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+export interface TaskSearchResult {
+  task: Task;
+  titleHighlight: string; // Title with matches wrapped in the highlight markers
+  snippet: string | null; // Excerpt around a match outside the title
+  matchedIn: TaskSearchField; // Title if it matched, otherwise the field the snippet comes from
 }
 
 // IPC Channel names
@@ -212,12 +380,19 @@ export const IPC_CHANNELS = {
   TASK_DELETE: 'task:delete',
   TASK_REORDER: 'task:reorder',
   TASK_COMPLETE_RECURRING: 'task:completeRecurring',
-
-  // Subtasks
-  SUBTASK_CREATE: 'subtask:create',
-  SUBTASK_UPDATE: 'subtask:update',
-  SUBTASK_DELETE: 'subtask:delete',
-  SUBTASK_REORDER: 'subtask:reorder',
+  TASK_GET_ACTIVITY: 'task:getActivity',
+  TASK_GET_DEPENDENCIES: 'task:getDependencies',
+  TASK_ADD_DEPENDENCY: 'task:addDependency',
+  TASK_REMOVE_DEPENDENCY: 'task:removeDependency',
+  TASK_GET_BLOCKED_IDS: 'task:getBlockedIds',
+  TASK_GET_DEPENDENCY_LINKS: 'task:getDependencyLinks',
+  TASK_INDENT: 'task:indent',
+  TASK_OUTDENT: 'task:outdent',
+  TASK_GET_PROGRESS: 'task:getProgress',
+  TASK_UPDATE_MANY: 'task:updateMany',
+  TASK_DELETE_MANY: 'task:deleteMany',
+  TASK_COMPLETE_MANY: 'task:completeMany',
+  TASK_SHIFT_DATES: 'task:shiftDates',
 
   // Lists
   LIST_CREATE: 'list:create',
@@ -226,6 +401,23 @@ export const IPC_CHANNELS = {
   LIST_UPDATE: 'list:update',
   LIST_DELETE: 'list:delete',
   LIST_REORDER: 'list:reorder',
+  LIST_MOVE: 'list:move',
+
+  // Folders
+  FOLDER_CREATE: 'folder:create',
+  FOLDER_GET_ALL: 'folder:getAll',
+  FOLDER_RENAME: 'folder:rename',
+  FOLDER_DELETE: 'folder:delete',
+  FOLDER_REORDER: 'folder:reorder',
+  FOLDER_GET_TASKS: 'folder:getTasks',
+
+  // Sections
+  SECTION_CREATE: 'section:create',
+  SECTION_GET_BY_LIST: 'section:getByList',
+  SECTION_RENAME: 'section:rename',
+  SECTION_DELETE: 'section:delete',
+  SECTION_REORDER: 'section:reorder',
+  SECTION_MOVE_TASK: 'section:moveTask',
 
   // Tags
   TAG_CREATE: 'tag:create',
@@ -234,9 +426,38 @@ export const IPC_CHANNELS = {
   TAG_DELETE: 'tag:delete',
   TAG_ADD_TO_TASK: 'tag:addToTask',
   TAG_REMOVE_FROM_TASK: 'tag:removeFromTask',
+  TAG_ADD_TO_TASKS: 'tag:addToTasks',
+  TAG_REMOVE_FROM_TASKS: 'tag:removeFromTasks',
+  TAG_MERGE: 'tag:merge',
+  TAG_DELETE_MANY: 'tag:deleteMany',
+  TAG_GET_USAGE: 'tag:getUsage',
 
   // Search
   TASK_SEARCH: 'task:search',
+  TASK_SEARCH_TEXT: 'task:searchText',
+
+  // Saved filters (custom smart lists)
+  SAVED_FILTER_CREATE: 'savedFilter:create',
+  SAVED_FILTER_GET_ALL: 'savedFilter:getAll',
+  SAVED_FILTER_UPDATE: 'savedFilter:update',
+  SAVED_FILTER_DELETE: 'savedFilter:delete',
+  SAVED_FILTER_REORDER: 'savedFilter:reorder',
+  SAVED_FILTER_GET_TASKS: 'savedFilter:getTasks',
+
+  // Task templates
+  TEMPLATE_CREATE: 'template:create',
+  TEMPLATE_GET_ALL: 'template:getAll',
+  TEMPLATE_RENAME: 'template:rename',
+  TEMPLATE_DELETE: 'template:delete',
+  TEMPLATE_INSTANTIATE: 'template:instantiate',
+
+  // Attachments
+  ATTACHMENT_ADD: 'attachment:add',
+  ATTACHMENT_GET_BY_TASK: 'attachment:getByTask',
+  ATTACHMENT_REMOVE: 'attachment:remove',
+  ATTACHMENT_OPEN: 'attachment:open',
+  ATTACHMENT_GET_THUMBNAIL: 'attachment:getThumbnail',
+  ATTACHMENT_CHOOSE_FILES: 'attachment:chooseFiles',
 
   // Reminders
   REMINDER_CREATE: 'reminder:create',
@@ -265,6 +486,13 @@ export const IPC_CHANNELS = {
   POMODORO_GET_SETTINGS: 'pomodoro:getSettings',
   POMODORO_UPDATE_SETTINGS: 'pomodoro:updateSettings',
 
+  // Time tracking
+  TIME_START: 'time:start',
+  TIME_STOP: 'time:stop',
+  TIME_GET_RUNNING: 'time:getRunning',
+  TIME_GET_SUMMARY: 'time:getSummary',
+  TIME_DELETE_ENTRY: 'time:deleteEntry',
+
   // Habits
   HABIT_CREATE: 'habit:create',
   HABIT_GET_ALL: 'habit:getAll',
@@ -281,6 +509,23 @@ export const IPC_CHANNELS = {
   // Statistics
   STATS_GET_TASK_STATS: 'stats:getTaskStats',
   STATS_GET_DASHBOARD: 'stats:getDashboard',
+
+  // Backup
+  BACKUP_EXPORT: 'backup:export',
+  BACKUP_IMPORT: 'backup:import',
+  SNAPSHOT_LIST: 'snapshot:list',
+  SNAPSHOT_RESTORE: 'snapshot:restore',
+
+  // Trash
+  TRASH_GET_ALL: 'trash:getAll',
+  TRASH_RESTORE: 'trash:restore',
+  TRASH_PURGE: 'trash:purge',
+  TRASH_EMPTY: 'trash:empty',
+
+  // Undo/redo
+  UNDO: 'undo:undo',
+  REDO: 'undo:redo',
+  UNDO_GET_STATE: 'undo:getState',
 } as const;
 
 // Application settings
@@ -290,6 +535,8 @@ export interface AppSettings {
   showCompletedTasks: boolean;
   startMinimized: boolean;
   minimizeToTray: boolean;
+  trashRetentionDays: number; // 0 = never purge automatically
+  hideBlockedTasks: boolean; // Leave tasks with open blockers out of Today and Next 7 Days
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -298,6 +545,8 @@ export const DEFAULT_SETTINGS: AppSettings = {
   showCompletedTasks: true,
   startMinimized: false,
   minimizeToTray: true,
+  trashRetentionDays: 30,
+  hideBlockedTasks: false,
 };
 
 // Smart list definitions
@@ -308,6 +557,7 @@ export const SMART_LISTS: { id: SmartListId; name: string; icon: string }[] = [
   { id: 'week', name: 'Next 7 Days', icon: '📆' },
   { id: 'all', name: 'All Tasks', icon: '📋' },
   { id: 'completed', name: 'Completed', icon: '✅' },
+  { id: 'trash', name: 'Trash', icon: '🗑️' },
 ];
 
 // ============================================================================
@@ -372,6 +622,38 @@ export interface PomodoroStats {
   sessionsByTask: { taskId: string; taskTitle: string; sessions: number; minutes: number }[];
 }
 
+// ============================================================================
+// Time Tracking Types
+// ============================================================================
+
+// Time recorded against a task with the start/stop tracker
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  startedAt: string;
+  endedAt: string | null; // Null while the tracker is running
+  minutes: number; // Set when the entry is stopped
+  createdAt: string;
+}
+
+// Estimate vs actual time for one task
+export interface TaskTimeSummary {
+  estimatedMinutes: number | null;
+  trackedMinutes: number; // Stopped time entries
+  pomodoroMinutes: number; // Completed pomodoro sessions linked to the task
+  actualMinutes: number; // trackedMinutes + pomodoroMinutes
+  entries: TimeEntry[];
+  running: TimeEntry | null; // This task's running entry, if any
+}
+
+// Time totals for the stats dashboard
+export interface TimeTrackingStats {
+  totalTrackedMinutes: number;
+  byList: { listId: string | null; listName: string; estimatedMinutes: number; actualMinutes: number }[];
+  // Recently completed tasks that had both an estimate and recorded time
+  estimateAccuracy: { taskId: string; title: string; estimatedMinutes: number; actualMinutes: number }[];
+}
+
 // ============================================================================
 // Phase 3: Habit Tracker Types
 // ============================================================================
@@ -394,6 +676,7 @@ export interface Habit {
   createdAt: string;
   updatedAt: string;
   archived: boolean;
+  deletedAt: string | null; // Set while the habit is in the trash
 }
 
 // Habit completion record
@@ -466,6 +749,7 @@ export interface TaskStats {
 export interface DashboardStats {
   tasks: TaskStats;
   pomodoro: PomodoroStats;
+  time: TimeTrackingStats;
   habits: {
     totalHabits: number;
     activeHabits: number;
@@ -474,3 +758,64 @@ export interface DashboardStats {
     longestStreak: number;
   };
 }
+
+// ============================================================================
+// Backup & Restore Types
+// ============================================================================
+
+// How a backup is applied to the current database
+export type BackupImportMode = 'replace' | 'merge';
+
+// Serialized database document (rows are stored with their column names)
+export interface BackupData {
+  format: 'georges-ticker-backup';
+  formatVersion: number;
+  schemaVersion: number; // Highest applied schema_migrations version at export time
+  exportedAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+// Result of an export or import request
+export interface BackupResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  error?: string;
+  counts?: Record<string, number>; // Rows written per table
+}
+
+// Automatic database snapshot kinds
+export type SnapshotKind = 'daily' | 'weekly' | 'pre-restore' | 'pre-migration';
+
+// Snapshot file stored under userData/snapshots
+export interface SnapshotInfo {
+  fileName: string;
+  kind: SnapshotKind;
+  createdAt: string;
+  sizeBytes: number;
+  taskCount: number;
+  habitCount: number;
+}
+
+// ============================================================================
+// Trash Types
+// ============================================================================
+
+export type TrashItemType = 'task' | 'list' | 'habit';
+
+// List in the trash, with the number of tasks that were trashed along with it
+export interface TrashedList extends List {
+  taskCount: number;
+}
+
+export interface TrashContents {
+  tasks: Task[]; // Tasks trashed on their own (not as part of a trashed list)
+  lists: TrashedList[];
+  habits: Habit[];
+}
+
+// Labels of the commands that undo/redo would apply next
+export interface UndoState {
+  undoLabel: string | null;
+  redoLabel: string | null;
+}